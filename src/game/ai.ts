@@ -0,0 +1,581 @@
+import { GameEngine } from './engine';
+import { GameEventType } from './events';
+import { getFactionRoster } from './factions';
+import { isAirUnit } from './units';
+import { AIDifficulty, GameState, OrderType, Player, Position, Resource, ResourceType, Unit, UnitType } from './types';
+
+// Tuning knobs for a difficulty level
+export interface AIProfile {
+  thinkInterval: number; // Seconds between decisions
+  gathererCount: number; // Soldiers kept harvesting, split between the resource types
+  scoutCount: number; // Units kept exploring the map
+  scoutDelay: number; // Seconds of game time before the first scout is sent out
+  attackWaveSize: number; // Army size needed before launching an attack
+  retreatRatio: number; // Fall back when the attacking army shrinks below this share of a wave
+  defenseRadius: number; // Enemies this close to the base trigger a defense
+  engageRadius: number; // Enemies this close to an army unit get attacked
+  moneyReserve: number; // Money kept back instead of spent
+  buildWeights: Record<UnitType, number>; // Desired army composition; units outside the faction roster are skipped
+  focusFire: boolean; // Attack the weakest nearby enemy instead of the nearest
+  counterBuild: boolean; // Adjust production to the enemy army composition
+}
+
+export const AI_PROFILES: Record<AIDifficulty, AIProfile> = {
+  [AIDifficulty.EASY]: {
+    thinkInterval: 2,
+    gathererCount: 2,
+    scoutCount: 1,
+    scoutDelay: 45,
+    attackWaveSize: 8,
+    retreatRatio: 0,
+    defenseRadius: 120,
+    engageRadius: 80,
+    moneyReserve: 300,
+    buildWeights: {
+      [UnitType.SOLDIER]: 3,
+      [UnitType.TANK]: 1,
+      [UnitType.HELICOPTER]: 0,
+      [UnitType.HUMVEE]: 1,
+      [UnitType.OVERLORD]: 0,
+      [UnitType.TECHNICAL]: 1,
+    },
+    focusFire: false,
+    counterBuild: false,
+  },
+  [AIDifficulty.NORMAL]: {
+    thinkInterval: 1,
+    gathererCount: 3,
+    scoutCount: 1,
+    scoutDelay: 0,
+    attackWaveSize: 6,
+    retreatRatio: 0.3,
+    defenseRadius: 180,
+    engageRadius: 120,
+    moneyReserve: 100,
+    buildWeights: {
+      [UnitType.SOLDIER]: 2,
+      [UnitType.TANK]: 2,
+      [UnitType.HELICOPTER]: 1,
+      [UnitType.HUMVEE]: 1,
+      [UnitType.OVERLORD]: 1,
+      [UnitType.TECHNICAL]: 1,
+    },
+    focusFire: false,
+    counterBuild: false,
+  },
+  [AIDifficulty.HARD]: {
+    thinkInterval: 0.5,
+    gathererCount: 4,
+    scoutCount: 1,
+    scoutDelay: 0,
+    attackWaveSize: 5,
+    retreatRatio: 0.4,
+    defenseRadius: 220,
+    engageRadius: 160,
+    moneyReserve: 0,
+    buildWeights: {
+      [UnitType.SOLDIER]: 2,
+      [UnitType.TANK]: 3,
+      [UnitType.HELICOPTER]: 2,
+      [UnitType.HUMVEE]: 2,
+      [UnitType.OVERLORD]: 2,
+      [UnitType.TECHNICAL]: 2,
+    },
+    focusFire: true,
+    counterBuild: true,
+  },
+};
+
+// Slower units are too valuable in the army to send scouting
+const SCOUT_MIN_SPEED = 2;
+
+// Scouting divides the map into a grid of sectors to visit
+const SCOUT_SECTORS = { columns: 4, rows: 3 };
+
+// Jobs the AI hands its units
+export const AI_ROLES = ['gatherer', 'scout', 'army'] as const;
+
+type AIRole = typeof AI_ROLES[number];
+
+const distance = (a: Position, b: Position): number => {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+// An AI's memory in plain JSON, kept in save files
+export interface AISaveData {
+  playerId: string;
+  thinkTimer: number;
+  roles: [string, AIRole][];
+  gathererClaims: [string, string][];
+  sectorVisits: (number | null)[]; // Null for never visited
+  knownEnemyBases: [string, Position][];
+  attackTarget: string | null;
+}
+
+// Computer opponent that issues orders for a single player
+export class AIPlayer {
+  private engine: GameEngine;
+  private playerId: string;
+  private profile: AIProfile;
+  private thinkTimer: number = 0;
+  private roles: Map<string, AIRole> = new Map();
+  private gathererClaims: Map<string, string> = new Map(); // unit id -> deposit being harvested
+  private sectorVisits: number[] = [];
+  private knownEnemyBases: Map<string, Position> = new Map();
+  private attackTarget: string | null = null; // Player id of the enemy being attacked
+
+  constructor(engine: GameEngine, playerId: string, difficulty: AIDifficulty) {
+    this.engine = engine;
+    this.playerId = playerId;
+    this.profile = AI_PROFILES[difficulty];
+    this.sectorVisits = new Array(SCOUT_SECTORS.columns * SCOUT_SECTORS.rows).fill(-Infinity);
+
+    // Forget units as they die
+    engine.getEvents().on(GameEventType.UNIT_KILLED, event => {
+      if (event.playerId !== this.playerId) return;
+      this.roles.delete(event.unitId);
+      this.gathererClaims.delete(event.unitId);
+    });
+  }
+
+  // Everything the AI remembers, so a loaded game plays on exactly as it would have
+  public getSaveData(): AISaveData {
+    return {
+      playerId: this.playerId,
+      thinkTimer: this.thinkTimer,
+      roles: [...this.roles],
+      gathererClaims: [...this.gathererClaims],
+      sectorVisits: this.sectorVisits.map(time => (Number.isFinite(time) ? time : null)),
+      knownEnemyBases: [...this.knownEnemyBases],
+      attackTarget: this.attackTarget,
+    };
+  }
+
+  public restoreSaveData(data: AISaveData): void {
+    this.thinkTimer = data.thinkTimer;
+    this.roles = new Map(data.roles);
+    this.gathererClaims = new Map(data.gathererClaims);
+    this.sectorVisits = data.sectorVisits.map(time => time ?? -Infinity);
+    this.knownEnemyBases = new Map(data.knownEnemyBases);
+    this.attackTarget = data.attackTarget;
+  }
+
+  // Advance the AI clock and make decisions at the profile's pace
+  public update(deltaTime: number): void {
+    this.thinkTimer -= deltaTime;
+    if (this.thinkTimer > 0) return;
+    this.thinkTimer = this.profile.thinkInterval;
+
+    const state = this.engine.getState();
+    const player = state.players[this.playerId];
+    if (!player || (player.units.length === 0 && !this.canAffordAnything(player))) return;
+
+    this.assignRoles(player);
+    this.updateIntel(player, state);
+    this.manageProduction(player, state);
+    this.manageGatherers(player, state);
+    this.manageScouts(player, state);
+
+    const threats = this.findThreats(player);
+    if (threats.length > 0) {
+      this.defend(player, threats);
+    }
+    this.manageArmy(player, state, threats.length > 0);
+  }
+
+  // Give every new unit a job
+  private assignRoles(player: Player): void {
+    const isScouting = this.engine.getState().gameTime >= this.profile.scoutDelay;
+    player.units.forEach(unit => {
+      if (this.roles.has(unit.id)) return;
+
+      if (unit.carryCapacity > 0 && this.countRole('gatherer') < this.profile.gathererCount) {
+        this.roles.set(unit.id, 'gatherer');
+      } else if (isScouting && unit.speed >= SCOUT_MIN_SPEED && this.countRole('scout') < this.profile.scoutCount) {
+        this.roles.set(unit.id, 'scout');
+      } else {
+        this.roles.set(unit.id, 'army');
+      }
+    });
+  }
+
+  // Remember enemy bases once they have come into sight
+  private updateIntel(player: Player, state: GameState): void {
+    Object.values(state.players).forEach(enemy => {
+      if (enemy.id === player.id || this.knownEnemyBases.has(enemy.id)) return;
+
+      if (this.engine.canSee(player.id, state.bases[enemy.baseId])) {
+        this.knownEnemyBases.set(enemy.id, enemy.basePosition);
+      }
+    });
+  }
+
+  // Queue at most one unit at a time, saving up for the one we want
+  private manageProduction(player: Player, state: GameState): void {
+    if (player.productionQueue.length > 0) return;
+
+    const unitType = this.chooseUnitToBuild(player, state);
+    const cost = this.engine.getUnitCost(this.playerId, unitType);
+    if (cost === null) return;
+
+    // The reserve is pointless once there is nothing left to protect
+    const reserve = player.units.length > 0 ? this.profile.moneyReserve : 0;
+    const available = player.resources[ResourceType.MONEY] - reserve;
+    if (available < cost[ResourceType.MONEY] || player.resources[ResourceType.SUPPLIES] < cost[ResourceType.SUPPLIES]) return;
+
+    this.engine.queueUnit(this.playerId, unitType);
+  }
+
+  // Pick the unit type that is furthest below its share of the desired composition
+  private chooseUnitToBuild(player: Player, state: GameState): UnitType {
+    if (this.countRole('gatherer') < this.profile.gathererCount) {
+      return UnitType.SOLDIER;
+    }
+
+    const roster = getFactionRoster(player.faction);
+    const weights: Partial<Record<UnitType, number>> = {};
+    roster.forEach(unitType => {
+      weights[unitType] = this.profile.buildWeights[unitType];
+    });
+
+    if (this.profile.counterBuild) {
+      const enemyUnits = Object.values(state.units).filter(unit =>
+        !unit.isDead && unit.playerId !== player.id && this.engine.canSee(player.id, unit)
+      );
+      const enemyAir = enemyUnits.filter(unit => isAirUnit(unit)).length;
+      // Shift towards anti-air when the enemy flies
+      if (enemyUnits.length > 0 && enemyAir / enemyUnits.length > 0.3) {
+        roster.forEach(unitType => {
+          const stats = this.engine.getUnitStats(player.id, unitType);
+          const weight = weights[unitType]!;
+          weights[unitType] = stats?.canAttackAir ? weight + 1 : Math.min(weight, 1);
+        });
+        weights[UnitType.SOLDIER]! += 1;
+      }
+    }
+
+    const totalWeight = roster.reduce((sum, unitType) => sum + weights[unitType]!, 0);
+    const army = player.units.filter(unit => this.roles.get(unit.id) === 'army');
+
+    let bestType = UnitType.SOLDIER;
+    let bestDeficit = -Infinity;
+    roster.forEach(unitType => {
+      const weight = weights[unitType]!;
+      if (weight <= 0) return;
+      // Supplies come in slowly, so build something else rather than wait for them
+      const cost = this.engine.getUnitCost(player.id, unitType);
+      if (!cost || cost[ResourceType.SUPPLIES] > player.resources[ResourceType.SUPPLIES]) return;
+      const desiredShare = weight / totalWeight;
+      const currentShare = army.length > 0
+        ? army.filter(unit => unit.type === unitType).length / army.length
+        : 0;
+      const deficit = desiredShare - currentShare;
+      if (deficit > bestDeficit) {
+        bestDeficit = deficit;
+        bestType = unitType;
+      }
+    });
+
+    return bestType;
+  }
+
+  // Keep gatherers harvesting; idle ones are sent to work a deposit or wait near the base
+  private manageGatherers(player: Player, state: GameState): void {
+    this.unitsWithRole(player, 'gatherer').forEach(unit => {
+      // Harvest orders move on to a new deposit by themselves when one runs dry
+      const order = unit.orders[0];
+      if (order?.type === OrderType.HARVEST) {
+        this.gathererClaims.set(unit.id, order.targetId!);
+        return;
+      }
+      this.gathererClaims.delete(unit.id);
+      if (unit.isAttacking) return;
+
+      const deposit = this.chooseDeposit(unit, state);
+      if (deposit && this.engine.orderUnit(unit.id, { type: OrderType.HARVEST, targetId: deposit.id })) {
+        this.gathererClaims.set(unit.id, deposit.id);
+      } else if (!unit.isMoving && distance(unit.position, player.basePosition) > 60) {
+        // Nothing to harvest, wait near the base
+        this.engine.moveUnit(unit.id, player.basePosition);
+      }
+    });
+  }
+
+  // Nearest explored deposit with something left, of the kind the fewest of our gatherers are working
+  private chooseDeposit(unit: Unit, state: GameState): Resource | null {
+    const vision = this.engine.getVision(this.playerId);
+    const workers = new Map<ResourceType, number>();
+    this.gathererClaims.forEach(resourceId => {
+      const type = state.resources[resourceId]?.type;
+      if (type) workers.set(type, (workers.get(type) ?? 0) + 1);
+    });
+    const types = Object.values(ResourceType).sort((a, b) => (workers.get(a) ?? 0) - (workers.get(b) ?? 0));
+
+    for (const type of types) {
+      let nearest: Resource | null = null;
+      Object.values(state.resources).forEach(resource => {
+        if (resource.type !== type || resource.amount <= 0) return;
+        if (vision && !vision.isExplored(resource.position)) return;
+        if (!nearest || distance(unit.position, resource.position) < distance(unit.position, nearest.position)) {
+          nearest = resource;
+        }
+      });
+      if (nearest) return nearest;
+    }
+    return null;
+  }
+
+  // Keep scouts moving to the sectors visited least recently
+  private manageScouts(player: Player, state: GameState): void {
+    const { width, height } = state.mapSize;
+    const sectorWidth = width / SCOUT_SECTORS.columns;
+    const sectorHeight = height / SCOUT_SECTORS.rows;
+
+    // Mark the sectors our units are standing in as visited
+    player.units.forEach(unit => {
+      const column = Math.min(SCOUT_SECTORS.columns - 1, Math.max(0, Math.floor(unit.position.x / sectorWidth)));
+      const row = Math.min(SCOUT_SECTORS.rows - 1, Math.max(0, Math.floor(unit.position.y / sectorHeight)));
+      this.sectorVisits[row * SCOUT_SECTORS.columns + column] = state.gameTime;
+    });
+
+    this.unitsWithRole(player, 'scout').forEach(unit => {
+      if (unit.isMoving || unit.isAttacking) return;
+
+      let bestSector = 0;
+      let bestScore = Infinity;
+      this.sectorVisits.forEach((visitedAt, index) => {
+        const center = this.sectorCenter(index, sectorWidth, sectorHeight);
+        // Prefer stale sectors, break ties by travel distance
+        const score = visitedAt * 1000 + distance(unit.position, center);
+        if (score < bestScore) {
+          bestScore = score;
+          bestSector = index;
+        }
+      });
+
+      this.sectorVisits[bestSector] = state.gameTime;
+      this.engine.moveUnit(unit.id, this.sectorCenter(bestSector, sectorWidth, sectorHeight));
+    });
+  }
+
+  // Enemy units close to our base
+  private findThreats(player: Player): Unit[] {
+    return this.findVisibleEnemies(player, player.basePosition, this.profile.defenseRadius);
+  }
+
+  // Enemy units within a radius that we can see; the AI does not look through the fog
+  private findVisibleEnemies(player: Player, position: Position, radius: number): Unit[] {
+    return this.engine.getUnitsInRadius(position, radius)
+      .filter(unit => unit.playerId !== player.id && this.engine.canSee(player.id, unit));
+  }
+
+  // Pull home units onto the enemies attacking the base
+  private defend(player: Player, threats: Unit[]): void {
+    player.units.forEach(unit => {
+      const role = this.roles.get(unit.id);
+      if (role === 'scout') return;
+      // An army on the offensive keeps pushing unless it is still near home
+      if (
+        role === 'army' &&
+        this.attackTarget !== null &&
+        distance(unit.position, player.basePosition) > this.profile.defenseRadius
+      ) {
+        return;
+      }
+
+      const target = this.pickTarget(unit, threats);
+      if (target && unit.targetId !== target.id) {
+        this.engine.attackUnit(unit.id, target.id);
+        this.gathererClaims.delete(unit.id);
+      }
+    });
+  }
+
+  // Stage the army at home, then attack a known enemy base once it is big enough
+  // A full wave that knows of no enemy base goes looking for one instead of waiting for scouts
+  private manageArmy(player: Player, state: GameState, underAttack: boolean): void {
+    const army = this.unitsWithRole(player, 'army');
+
+    // Drop targets that have been wiped out
+    if (this.attackTarget !== null) {
+      const enemy = state.players[this.attackTarget];
+      if (!enemy || enemy.eliminatedAt !== null) {
+        this.knownEnemyBases.delete(this.attackTarget);
+        this.attackTarget = null;
+      }
+    }
+
+    if (this.attackTarget === null) {
+      if (army.length >= this.profile.attackWaveSize && !underAttack) {
+        this.attackTarget = this.chooseAttackTarget(player, state);
+      }
+    } else if (army.length < this.profile.attackWaveSize * this.profile.retreatRatio) {
+      // The wave has been broken, regroup at home
+      this.attackTarget = null;
+    }
+
+    const searchPoint = this.attackTarget === null && army.length >= this.profile.attackWaveSize && !underAttack
+      ? this.chooseSearchPoint(player, state)
+      : null;
+
+    // Between attacks, hold the nearest control zone instead of waiting at home
+    const zone = !underAttack ? this.nearestZone(player, state) : null;
+    const stagingPoint = zone ?? this.stagingPoint(player, state);
+    const objective = this.attackTarget !== null
+      ? this.knownEnemyBases.get(this.attackTarget) ?? stagingPoint
+      : searchPoint ?? stagingPoint;
+
+    army.forEach(unit => {
+      if (underAttack && this.attackTarget === null && unit.isAttacking) return;
+
+      if (this.attackTarget !== null || searchPoint || zone) {
+        const nearby = this.findVisibleEnemies(player, unit.position, this.profile.engageRadius);
+        const target = this.pickTarget(unit, nearby);
+        if (target) {
+          if (unit.targetId !== target.id) {
+            this.engine.attackUnit(unit.id, target.id);
+          }
+          return;
+        }
+      }
+
+      if (unit.isAttacking) return;
+      if (distance(unit.position, objective) <= 50 || this.isHeadingTo(unit, objective)) return;
+
+      // Waves attack-move so they fight turrets and defenders on the way instead of walking past them
+      const destination = this.spreadAround(objective, unit);
+      if (this.attackTarget !== null || searchPoint) {
+        this.engine.orderUnit(unit.id, { type: OrderType.ATTACK_MOVE, position: destination });
+      } else {
+        this.engine.moveUnit(unit.id, destination);
+      }
+    });
+  }
+
+  // Attack the closest enemy base we know about
+  private chooseAttackTarget(player: Player, state: GameState): string | null {
+    let bestId: string | null = null;
+    let bestDistance = Infinity;
+    this.knownEnemyBases.forEach((basePosition, enemyId) => {
+      const enemy = state.players[enemyId];
+      if (!enemy || enemy.eliminatedAt !== null) return;
+      const baseDistance = distance(player.basePosition, basePosition);
+      if (baseDistance < bestDistance) {
+        bestDistance = baseDistance;
+        bestId = enemyId;
+      }
+    });
+    return bestId;
+  }
+
+  // Nearest start no one of ours has set eyes on, else the nearest unexplored sector; null once the map is explored
+  private chooseSearchPoint(player: Player, state: GameState): Position | null {
+    const vision = this.engine.getVision(player.id);
+    if (!vision) return null;
+
+    const starts = this.engine.getMapReport()?.starts.map(start => start.position) ?? [];
+    const sectorWidth = state.mapSize.width / SCOUT_SECTORS.columns;
+    const sectorHeight = state.mapSize.height / SCOUT_SECTORS.rows;
+    const sectors = this.sectorVisits.map((_, index) => this.sectorCenter(index, sectorWidth, sectorHeight));
+
+    for (const candidates of [starts, sectors]) {
+      let nearest: Position | null = null;
+      candidates.forEach(position => {
+        if (vision.isExplored(position)) return;
+        if (!nearest || distance(player.basePosition, position) < distance(player.basePosition, nearest)) {
+          nearest = position;
+        }
+      });
+      if (nearest) return nearest;
+    }
+    return null;
+  }
+
+  // Closest control zone to our base, if the mode has any
+  private nearestZone(player: Player, state: GameState): Position | null {
+    let nearest: Position | null = null;
+    state.zones.forEach(zone => {
+      if (!nearest || distance(player.basePosition, zone.position) < distance(player.basePosition, nearest)) {
+        nearest = zone.position;
+      }
+    });
+    return nearest;
+  }
+
+  // Choose which enemy a unit should shoot at
+  private pickTarget(unit: Unit, candidates: Unit[]): Unit | null {
+    const attackable = candidates.filter(enemy =>
+      isAirUnit(enemy) ? unit.canAttackAir : unit.canAttackGround
+    );
+    if (attackable.length === 0) return null;
+
+    if (this.profile.focusFire) {
+      return attackable.reduce((weakest, enemy) =>
+        enemy.health < weakest.health ? enemy : weakest
+      );
+    }
+    return attackable.reduce((nearest, enemy) =>
+      distance(unit.position, enemy.position) < distance(unit.position, nearest.position) ? enemy : nearest
+    );
+  }
+
+  // A point in front of the base, towards the middle of the map
+  private stagingPoint(player: Player, state: GameState): Position {
+    const center = { x: state.mapSize.width / 2, y: state.mapSize.height / 2 };
+    return {
+      x: player.basePosition.x + (center.x - player.basePosition.x) * 0.2,
+      y: player.basePosition.y + (center.y - player.basePosition.y) * 0.2,
+    };
+  }
+
+  // Offset a destination per unit so the army does not stack on one spot
+  private spreadAround(position: Position, unit: Unit): Position {
+    const index = Array.from(this.roles.keys()).indexOf(unit.id);
+    const angle = index * 2.4; // Golden angle keeps the points evenly spread
+    const radius = 10 + (index % 5) * 8;
+    return {
+      x: position.x + Math.cos(angle) * radius,
+      y: position.y + Math.sin(angle) * radius,
+    };
+  }
+
+  // Whether a unit is already on its way, walking or attack-moving, to a point
+  private isHeadingTo(unit: Unit, position: Position): boolean {
+    const order = unit.orders[0];
+    if (order?.type === OrderType.ATTACK_MOVE && order.position) {
+      return distance(order.position, position) <= 60;
+    }
+    if (!unit.isMoving || !unit.path || unit.path.length === 0) return false;
+    return distance(unit.path[unit.path.length - 1], position) <= 60;
+  }
+
+  private sectorCenter(index: number, sectorWidth: number, sectorHeight: number): Position {
+    const column = index % SCOUT_SECTORS.columns;
+    const row = Math.floor(index / SCOUT_SECTORS.columns);
+    return {
+      x: (column + 0.5) * sectorWidth,
+      y: (row + 0.5) * sectorHeight,
+    };
+  }
+
+  private unitsWithRole(player: Player, role: AIRole): Unit[] {
+    return player.units.filter(unit => this.roles.get(unit.id) === role);
+  }
+
+  private countRole(role: AIRole): number {
+    let count = 0;
+    this.roles.forEach(value => {
+      if (value === role) count++;
+    });
+    return count;
+  }
+
+  private canAffordAnything(player: Player): boolean {
+    return getFactionRoster(player.faction).some(unitType => {
+      const cost = this.engine.getUnitCost(player.id, unitType);
+      return cost !== null && this.engine.canAfford(player.id, cost);
+    });
+  }
+}
@@ -0,0 +1,267 @@
+import balanceData from '../data/balance.json';
+import { Schema, validateSchema } from './schema';
+import { ArmorType, DamageType, FactionType, ResourceType, UnitType, VeterancyRank } from './types';
+
+// How a gun fires; the damage per shot is the owner's attack
+export interface WeaponBalance {
+  damageType: DamageType;
+  cooldown: number; // Seconds between shots
+  projectileSpeed: number; // Pixels per second; 0 hits instantly
+  splashRadius: number; // Pixels around the impact where other enemies also take damage
+}
+
+// Numbers for one unit type, before faction modifiers
+export interface UnitBalance {
+  cost: number; // Money, before cost scaling
+  supplyCost: number; // Supplies, before cost scaling
+  buildTime: number; // Seconds in the production queue
+  health: number;
+  attack: number; // Damage per shot, before armor
+  defense: number;
+  armor: ArmorType;
+  range: number;
+  sight: number; // How far the unit sees through the fog, same scale as range
+  speed: number;
+  carryCapacity: number; // Most carried back per harvest trip; 0 for units that cannot harvest
+  canAttackAir: boolean;
+  canAttackGround: boolean;
+  weapon: WeaponBalance;
+}
+
+// Multipliers applied to a unit's base stats and cost (1 = unchanged)
+export interface UnitModifier {
+  cost: number;
+  health: number;
+  attack: number;
+  defense: number;
+  range: number;
+  speed: number;
+}
+
+// What a unit gets on reaching a rank; multipliers apply to its stats as built
+export interface RankBalance {
+  experience: number; // Needed to reach the rank
+  health: number;
+  attack: number;
+  defense: number;
+  repairPerSecond: number; // Share of max health restored each second
+}
+
+// Ranks above rookie, the only ones with bonuses
+export type EarnedRank = Exclude<VeterancyRank, VeterancyRank.ROOKIE>;
+
+export interface ResourceBalance {
+  amount: number; // Held by a full deposit
+  harvestPerSecond: number; // Taken from a deposit by one gatherer working it
+  regrowDelay: number; // Seconds a deposit must be left alone before it starts growing back
+  regrowPerSecond: number; // Grown back each second, up to the full amount
+  perMillionPixels: number; // Deposits placed per million square pixels of map
+}
+
+// Every tunable number in the game, as read from src/data/balance.json
+export interface BalanceData {
+  startingMoney: number;
+  startingSupplies: number;
+  costScalingPerUnit: number; // Extra cost per unit owned or queued, as a fraction of the base cost
+  maxQueueLength: number;
+  units: Record<UnitType, UnitBalance>;
+  factionModifiers: Record<FactionType, Partial<Record<UnitType, Partial<UnitModifier>>>>;
+  damageMultipliers: Record<DamageType, Record<ArmorType, number>>; // Share of a hit's damage each armor takes
+  veterancy: {
+    experiencePerDamage: number;
+    experiencePerKill: number;
+    ranks: Record<EarnedRank, RankBalance>;
+  };
+  base: {
+    health: number;
+    defense: number;
+    sight: number;
+    turret: { attack: number; range: number; weapon: WeaponBalance } | null; // Null for bases without a gun
+  };
+  resources: Record<ResourceType, ResourceBalance>;
+}
+
+export class BalanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BalanceError';
+  }
+}
+
+const POSITIVE: Schema = { kind: 'number', min: Number.MIN_VALUE };
+const NON_NEGATIVE: Schema = { kind: 'number', min: 0 };
+
+const WEAPON_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    damageType: { kind: 'enum', values: Object.values(DamageType) },
+    cooldown: POSITIVE,
+    projectileSpeed: NON_NEGATIVE,
+    splashRadius: NON_NEGATIVE,
+  },
+};
+
+const UNIT_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    cost: NON_NEGATIVE,
+    supplyCost: NON_NEGATIVE,
+    buildTime: POSITIVE,
+    health: POSITIVE,
+    attack: NON_NEGATIVE,
+    defense: NON_NEGATIVE,
+    armor: { kind: 'enum', values: Object.values(ArmorType) },
+    range: POSITIVE,
+    sight: POSITIVE,
+    speed: POSITIVE,
+    carryCapacity: NON_NEGATIVE,
+    canAttackAir: { kind: 'boolean' },
+    canAttackGround: { kind: 'boolean' },
+    weapon: WEAPON_SCHEMA,
+  },
+};
+
+const MODIFIER_FIELDS = ['cost', 'health', 'attack', 'defense', 'range', 'speed'];
+
+// Earned ranks, lowest first; their experience thresholds must rise in this order
+export const EARNED_RANKS: EarnedRank[] = [VeterancyRank.VETERAN, VeterancyRank.ELITE, VeterancyRank.HEROIC];
+
+const BALANCE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    startingMoney: NON_NEGATIVE,
+    startingSupplies: NON_NEGATIVE,
+    costScalingPerUnit: NON_NEGATIVE,
+    maxQueueLength: { kind: 'number', min: 1, integer: true },
+    units: { kind: 'record', keys: Object.values(UnitType), value: UNIT_SCHEMA },
+    factionModifiers: {
+      kind: 'record',
+      keys: Object.values(FactionType),
+      value: {
+        kind: 'record',
+        keys: Object.values(UnitType),
+        partial: true,
+        value: { kind: 'record', keys: MODIFIER_FIELDS, partial: true, value: POSITIVE },
+      },
+    },
+    damageMultipliers: {
+      kind: 'record',
+      keys: Object.values(DamageType),
+      value: { kind: 'record', keys: Object.values(ArmorType), value: NON_NEGATIVE },
+    },
+    veterancy: {
+      kind: 'object',
+      fields: {
+        experiencePerDamage: NON_NEGATIVE,
+        experiencePerKill: NON_NEGATIVE,
+        ranks: {
+          kind: 'record',
+          keys: EARNED_RANKS,
+          value: {
+            kind: 'object',
+            fields: {
+              experience: POSITIVE,
+              health: POSITIVE,
+              attack: POSITIVE,
+              defense: POSITIVE,
+              repairPerSecond: NON_NEGATIVE,
+            },
+          },
+        },
+      },
+    },
+    base: {
+      kind: 'object',
+      fields: {
+        health: POSITIVE,
+        defense: NON_NEGATIVE,
+        sight: POSITIVE,
+        turret: {
+          kind: 'nullable',
+          schema: { kind: 'object', fields: { attack: NON_NEGATIVE, range: POSITIVE, weapon: WEAPON_SCHEMA } },
+        },
+      },
+    },
+    resources: {
+      kind: 'record',
+      keys: Object.values(ResourceType),
+      value: {
+        kind: 'object',
+        fields: {
+          amount: POSITIVE,
+          harvestPerSecond: POSITIVE,
+          regrowDelay: NON_NEGATIVE,
+          regrowPerSecond: NON_NEGATIVE,
+          perMillionPixels: NON_NEGATIVE,
+        },
+      },
+    },
+  },
+};
+
+// Check parsed balance JSON against the schema, listing every problem at once
+export const parseBalance = (data: unknown): BalanceData => {
+  const errors: string[] = [];
+  validateSchema(data, BALANCE_SCHEMA, 'balance', errors);
+  if (errors.length === 0) {
+    const { ranks } = (data as BalanceData).veterancy;
+    EARNED_RANKS.slice(1).forEach((rank, index) => {
+      const previous = EARNED_RANKS[index];
+      if (ranks[rank].experience <= ranks[previous].experience) {
+        errors.push(`balance.veterancy.ranks.${rank}.experience must be more than ${previous}'s`);
+      }
+    });
+  }
+  if (errors.length > 0) {
+    throw new BalanceError(`Invalid balance data:\n  ${errors.join('\n  ')}`);
+  }
+  return data as BalanceData;
+};
+
+// The numbers the game ships with
+export const DEFAULT_BALANCE = parseBalance(balanceData);
+
+const NO_MODIFIER: UnitModifier = {
+  cost: 1,
+  health: 1,
+  attack: 1,
+  defense: 1,
+  range: 1,
+  speed: 1,
+};
+
+// Full set of multipliers for one of a faction's units
+export const getUnitModifier = (balance: BalanceData, faction: FactionType, unitType: UnitType): UnitModifier => ({
+  ...NO_MODIFIER,
+  ...balance.factionModifiers[faction][unitType],
+});
+
+// Highest rank a unit with this much experience has earned
+export const getRankForExperience = (balance: BalanceData, experience: number): VeterancyRank => {
+  const { ranks } = balance.veterancy;
+  return [...EARNED_RANKS].reverse().find(rank => experience >= ranks[rank].experience) ?? VeterancyRank.ROOKIE;
+};
+
+// Bonuses of a rank; rookies have none
+export const getRankBonus = (balance: BalanceData, rank: VeterancyRank): RankBalance | null =>
+  rank === VeterancyRank.ROOKIE ? null : balance.veterancy.ranks[rank];
+
+// Dev server only: edits to balance.json are validated and handed to listeners without a page reload
+const reloadListeners: ((balance: BalanceData) => void)[] = [];
+
+export const onBalanceReload = (listener: (balance: BalanceData) => void): void => {
+  reloadListeners.push(listener);
+};
+
+if (import.meta.hot) {
+  import.meta.hot.accept('../data/balance.json', module => {
+    if (!module) return;
+    try {
+      const balance = parseBalance(module.default);
+      reloadListeners.forEach(listener => listener(balance));
+    } catch (error) {
+      if (!(error instanceof BalanceError)) throw error;
+      console.error(error.message);
+    }
+  });
+}
@@ -0,0 +1,21 @@
+import { AttackTarget, Base, GameState, Position } from './types';
+
+// Tell a base from a unit when either can be attacked
+export const isBase = (target: AttackTarget): target is Base => 'turret' in target;
+
+// Distance from a target's center to its edge; attackers in range of the edge can hit it
+export const getTargetRadius = (target: AttackTarget): number =>
+  isBase(target) ? target.size / 2 : 0;
+
+// Standing base whose footprint covers a point
+export const findBaseAt = (
+  state: GameState,
+  position: Position,
+  filter?: (base: Base) => boolean
+): Base | null =>
+  Object.values(state.bases).find(base =>
+    !base.isDestroyed &&
+    (!filter || filter(base)) &&
+    Math.abs(base.position.x - position.x) <= base.size / 2 &&
+    Math.abs(base.position.y - position.y) <= base.size / 2
+  ) ?? null;
@@ -0,0 +1,141 @@
+import { Position } from './types';
+
+// Camera movement config
+export const CAMERA_CONFIG = {
+  panSpeed: 700, // Screen pixels per second for keyboard and edge scrolling
+  edgeScrollMargin: 20, // Pointer this close to the canvas edge scrolls the view
+  minZoom: 0.5, // Never zoom out further than this, even on huge maps
+  maxZoom: 2,
+  zoomStep: 1.1, // Zoom factor per mouse wheel notch
+};
+
+// Direction the camera is being pushed in, each axis in -1..1
+export interface PanInput {
+  x: number;
+  y: number;
+}
+
+// Viewport onto the world: converts between world and screen (canvas) coordinates
+// The position is the world point shown at the top-left corner of the canvas
+export class Camera {
+  private x: number = 0;
+  private y: number = 0;
+  private zoom: number = 1;
+  private viewportWidth: number;
+  private viewportHeight: number;
+  private worldWidth: number;
+  private worldHeight: number;
+
+  constructor(viewportWidth: number, viewportHeight: number, worldWidth: number, worldHeight: number) {
+    this.viewportWidth = viewportWidth;
+    this.viewportHeight = viewportHeight;
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+    this.clamp();
+  }
+
+  public getZoom(): number {
+    return this.zoom;
+  }
+
+  public getPosition(): Position {
+    return { x: this.x, y: this.y };
+  }
+
+  public setViewportSize(width: number, height: number): void {
+    this.viewportWidth = width;
+    this.viewportHeight = height;
+    this.clamp();
+  }
+
+  public setWorldSize(width: number, height: number): void {
+    this.worldWidth = width;
+    this.worldHeight = height;
+    this.clamp();
+  }
+
+  public worldToScreen(position: Position): Position {
+    return {
+      x: (position.x - this.x) * this.zoom,
+      y: (position.y - this.y) * this.zoom,
+    };
+  }
+
+  public screenToWorld(position: Position): Position {
+    return {
+      x: position.x / this.zoom + this.x,
+      y: position.y / this.zoom + this.y,
+    };
+  }
+
+  // World rectangle currently on screen
+  public getVisibleBounds(): { min: Position; max: Position } {
+    return {
+      min: this.screenToWorld({ x: 0, y: 0 }),
+      max: this.screenToWorld({ x: this.viewportWidth, y: this.viewportHeight }),
+    };
+  }
+
+  // Apply the camera to a canvas context so world coordinates can be drawn directly
+  public applyTransform(ctx: CanvasRenderingContext2D): void {
+    ctx.setTransform(this.zoom, 0, 0, this.zoom, -this.x * this.zoom, -this.y * this.zoom);
+  }
+
+  public centerOn(position: Position): void {
+    this.x = position.x - this.viewportWidth / this.zoom / 2;
+    this.y = position.y - this.viewportHeight / this.zoom / 2;
+    this.clamp();
+  }
+
+  // Move by a distance in screen pixels
+  public pan(dx: number, dy: number): void {
+    this.x += dx / this.zoom;
+    this.y += dy / this.zoom;
+    this.clamp();
+  }
+
+  // Zoom by a factor while keeping the world point under the screen position fixed
+  public zoomAt(screenPosition: Position, factor: number): void {
+    const anchor = this.screenToWorld(screenPosition);
+    this.zoom = Math.min(CAMERA_CONFIG.maxZoom, Math.max(this.getMinZoom(), this.zoom * factor));
+    this.x = anchor.x - screenPosition.x / this.zoom;
+    this.y = anchor.y - screenPosition.y / this.zoom;
+    this.clamp();
+  }
+
+  // Scroll for one frame from keyboard input and the pointer resting near an edge
+  public update(deltaTime: number, keyInput: PanInput, pointer: Position | null): void {
+    const input = { ...keyInput };
+    if (pointer) {
+      const margin = CAMERA_CONFIG.edgeScrollMargin;
+      if (pointer.x <= margin) input.x = -1;
+      else if (pointer.x >= this.viewportWidth - margin) input.x = 1;
+      if (pointer.y <= margin) input.y = -1;
+      else if (pointer.y >= this.viewportHeight - margin) input.y = 1;
+    }
+    if (input.x === 0 && input.y === 0) return;
+
+    const distance = CAMERA_CONFIG.panSpeed * deltaTime;
+    this.pan(input.x * distance, input.y * distance);
+  }
+
+  // Zoom at which the whole map just fits on screen, within the configured limit
+  private getMinZoom(): number {
+    const fitZoom = Math.min(this.viewportWidth / this.worldWidth, this.viewportHeight / this.worldHeight);
+    return Math.min(1, Math.max(CAMERA_CONFIG.minZoom, fitZoom));
+  }
+
+  // Keep the view inside the map; a map smaller than the view is centered
+  private clamp(): void {
+    this.zoom = Math.min(CAMERA_CONFIG.maxZoom, Math.max(this.getMinZoom(), this.zoom));
+    const visibleWidth = this.viewportWidth / this.zoom;
+    const visibleHeight = this.viewportHeight / this.zoom;
+
+    this.x = visibleWidth >= this.worldWidth
+      ? (this.worldWidth - visibleWidth) / 2
+      : Math.min(this.worldWidth - visibleWidth, Math.max(0, this.x));
+    this.y = visibleHeight >= this.worldHeight
+      ? (this.worldHeight - visibleHeight) / 2
+      : Math.min(this.worldHeight - visibleHeight, Math.max(0, this.y));
+  }
+}
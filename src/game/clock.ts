@@ -0,0 +1,28 @@
+// Source of wall-clock time for the engine, in milliseconds
+export interface GameClock {
+  now(): number;
+}
+
+// Real time, used when playing in the browser
+export class SystemClock implements GameClock {
+  public now(): number {
+    return Date.now();
+  }
+}
+
+// Time that only moves when told to, for tests and headless runs
+export class ManualClock implements GameClock {
+  private time: number;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public advance(milliseconds: number): void {
+    this.time += milliseconds;
+  }
+}
@@ -0,0 +1,113 @@
+import { FormationSettings, Position, UnitType } from './types';
+
+export enum CommandType {
+  MOVE = 'MOVE',
+  ATTACK = 'ATTACK',
+  ATTACK_MOVE = 'ATTACK_MOVE',
+  PATROL = 'PATROL',
+  HOLD_POSITION = 'HOLD_POSITION',
+  GUARD = 'GUARD',
+  HARVEST = 'HARVEST',
+  STOP = 'STOP',
+  CREATE_UNIT = 'CREATE_UNIT',
+  CANCEL_PRODUCTION = 'CANCEL_PRODUCTION',
+  SET_RALLY_POINT = 'SET_RALLY_POINT',
+}
+
+// Fields shared by every command
+interface BaseCommand {
+  tick: number; // Simulation step the command is applied on
+  playerId: string; // Player issuing the command
+}
+
+// Fields shared by every unit order; a queued order is carried out after the ones the units already have
+// instead of replacing them
+interface BaseOrderCommand extends BaseCommand {
+  unitIds: string[];
+  queued: boolean;
+}
+
+// Move a group of units to a point, spread out in formation
+export interface MoveCommand extends BaseOrderCommand {
+  type: CommandType.MOVE;
+  target: Position;
+  formation: FormationSettings;
+}
+
+// Order a group of units to attack an enemy unit
+export interface AttackCommand extends BaseOrderCommand {
+  type: CommandType.ATTACK;
+  targetId: string;
+}
+
+// Move a group of units to a point in formation, engaging enemies they meet on the way
+export interface AttackMoveCommand extends BaseOrderCommand {
+  type: CommandType.ATTACK_MOVE;
+  target: Position;
+  formation: FormationSettings;
+}
+
+// Send a group of units back and forth between where they are (or their last queued order) and a point;
+// queuing more patrol points adds them to the loop
+export interface PatrolCommand extends BaseOrderCommand {
+  type: CommandType.PATROL;
+  target: Position;
+  formation: FormationSettings;
+}
+
+// Keep a group of units where they stand, firing at enemies in range without chasing them
+export interface HoldPositionCommand extends BaseOrderCommand {
+  type: CommandType.HOLD_POSITION;
+}
+
+// Have a group of units protect a friendly unit, or a point when guardedId is null
+export interface GuardCommand extends BaseOrderCommand {
+  type: CommandType.GUARD;
+  target: Position;
+  guardedId: string | null;
+  formation: FormationSettings; // Where the group stands around a guarded point
+}
+
+// Send a group of gatherers to work a deposit; units that cannot harvest ignore it
+export interface HarvestCommand extends BaseOrderCommand {
+  type: CommandType.HARVEST;
+  resourceId: string;
+}
+
+// Drop every order a group of units has and stop where they are
+export interface StopCommand extends BaseCommand {
+  type: CommandType.STOP;
+  unitIds: string[];
+}
+
+// Buy a unit and add it to the player's production queue
+export interface CreateUnitCommand extends BaseCommand {
+  type: CommandType.CREATE_UNIT;
+  unitType: UnitType;
+}
+
+// Take an item out of the production queue for a full refund
+export interface CancelProductionCommand extends BaseCommand {
+  type: CommandType.CANCEL_PRODUCTION;
+  itemId: string;
+}
+
+// Send newly built units to a point, or leave them at the base with null
+export interface SetRallyPointCommand extends BaseCommand {
+  type: CommandType.SET_RALLY_POINT;
+  position: Position | null;
+}
+
+// Every order a player can give, in a form that survives JSON round-tripping
+export type GameCommand =
+  | MoveCommand
+  | AttackCommand
+  | AttackMoveCommand
+  | PatrolCommand
+  | HoldPositionCommand
+  | GuardCommand
+  | HarvestCommand
+  | StopCommand
+  | CreateUnitCommand
+  | CancelProductionCommand
+  | SetRallyPointCommand;
@@ -1,144 +1,598 @@
 import { GameEngine } from './engine';
+import { GameEventType, Unsubscribe } from './events';
 import { GameRenderer } from './renderer';
-import { Position, Unit, UnitType, FactionType, ResourceType, GameState } from './types';
+import { CAMERA_CONFIG, Camera, PanInput } from './camera';
+import { MatchConfig, createMatch } from './match';
+import { MapFile } from './mapfile';
+import { randomSeed } from './random';
+import { CommandType, GameCommand } from './commands';
+import { ReplayFile, ReplayPlayer, createReplay } from './replay';
+import { SaveError, SaveFile, createSave, restoreSave } from './save';
+import { ConnectionStatus, NetworkClient, NetworkJoinConfig } from './network';
+import { getFactionRoster } from './factions';
+import { isBase } from './bases';
+import { BalanceData, DEFAULT_BALANCE } from './balance';
+import { PlayerVision } from './vision';
+import {
+  BUILD_ACTIONS,
+  CONTROL_GROUP_ACTIONS,
+  InputAction,
+  KeyBinding,
+  KeyBindings,
+  PAN_ACTIONS,
+  keyBindingFromPress,
+} from './keybindings';
+import {
+  AttackTarget,
+  Position,
+  Unit,
+  UnitType,
+  FactionType,
+  UnitCost,
+  GameState,
+  AIDifficulty,
+  GameMode,
+  FormationSettings,
+  FormationType,
+  OrderType,
+  ProductionItem,
+  Resource,
+} from './types';
+
+// Right-clicking this close to your own base, with no units selected, sets its rally point
+const RALLY_POINT_RANGE = 250;
+
+// Right-dragging further than this many screen pixels sets the facing of a move
+const FACING_DRAG_DISTANCE = 10;
+
+// Clicking this close to a deposit with gatherers selected sends them to harvest it
+const DEPOSIT_CLICK_RADIUS = 15;
+
+// Pressing a control group key again within this many milliseconds centers the camera on the group
+const DOUBLE_TAP_TIME = 300;
+
+// "HEROIC" -> "Heroic", for notices
+const formatName = (name: string): string => name.charAt(0) + name.slice(1).toLowerCase();
 
 export class GameController {
   private engine: GameEngine;
   private renderer: GameRenderer;
+  private camera: Camera;
   private canvas: HTMLCanvasElement;
   private playerId: string;
   private isMouseDown: boolean = false;
-  private selectionStart: Position | null = null;
+  private selectionStart: Position | null = null; // World position where the drag began
+  private pointerPosition: Position | null = null; // Screen position, null while the pointer is off the canvas
+  private keyBindings: KeyBindings = new KeyBindings();
+  private heldActions: Set<InputAction> = new Set(); // Scrolling and debug view last while the key is down
+  private controlGroups: Map<InputAction, string[]> = new Map(); // Group action -> unit ids
+  private lastGroupRecall: { action: InputAction; time: number } | null = null;
+  private keyCapture: ((binding: KeyBinding | null) => void) | null = null; // Set while rebinding a key
+  private pendingOrder: OrderType | null = null; // Order key pressed, waiting for a click on the map
+  private formationShape: FormationType = FormationType.BOX;
+  private keepTogether: boolean = true; // Groups move at the speed of their slowest unit
+  private facingDragStart: Position | null = null; // World position where a right-button drag began
   private selectedUnits: Unit[] = [];
   private gameRunning: boolean = true;
   private animationFrameId: number | null = null;
+  private aiDifficulty: AIDifficulty;
+  private mode: GameMode;
+  private mapWidth: number;
+  private mapHeight: number;
+  private map: MapFile | null = null; // Played instead of a generated map once set
+  private matchConfig: MatchConfig;
+  private matchPlayerIds: string[]; // In the same order as matchConfig.players
+  private balance: BalanceData = DEFAULT_BALANCE;
+  private replayPlayer: ReplayPlayer | null = null;
+  private network: NetworkClient | null = null; // Set when playing on a server instead of locally
+  private engineListeners: Unsubscribe[] = []; // Effects and notices from the local match's events
+  private lastFrameTime: number = 0;
 
-  constructor(canvas: HTMLCanvasElement, mapWidth: number, mapHeight: number) {
+  constructor(
+    canvas: HTMLCanvasElement,
+    mapWidth: number,
+    mapHeight: number,
+    aiDifficulty: AIDifficulty = AIDifficulty.NORMAL,
+    mode: GameMode = GameMode.ANNIHILATION,
+    networkConfig: NetworkJoinConfig | null = null
+  ) {
     this.canvas = canvas;
-    this.engine = new GameEngine(mapWidth, mapHeight);
-    this.renderer = new GameRenderer(canvas);
+    this.aiDifficulty = aiDifficulty;
+    this.mode = mode;
+    this.mapWidth = mapWidth;
+    this.mapHeight = mapHeight;
+    this.camera = new Camera(canvas.width, canvas.height, mapWidth, mapHeight);
+    this.renderer = new GameRenderer(canvas, this.camera);
     
     // Set up event listeners
     this.setupEventListeners();
     
-    // Initialize player
-    this.playerId = this.engine.addPlayer('Player', FactionType.USA);
-    
-    // Add AI opponents
-    this.engine.addPlayer('AI 1', FactionType.CHINA);
-    this.engine.addPlayer('AI 2', FactionType.GLA);
+    // Initialize the player and AI opponents
+    this.matchConfig = this.createMatchConfig();
+    const match = createMatch(this.matchConfig);
+    this.engine = match.engine;
+    this.listenToEngine();
+    this.matchPlayerIds = match.playerIds;
+    this.playerId = match.playerIds[0];
+    this.focusCameraOnBase();
+    
+    // Online, the server runs the match and the local one above is never started
+    if (networkConfig) {
+      this.playerId = '';
+      this.network = new NetworkClient(networkConfig, playerId => {
+        this.playerId = playerId;
+        this.focusCameraOnBase();
+      });
+    }
     
     // Start game loop
     this.startGameLoop();
   }
 
+  // Describe a fresh match: the human player against two AI opponents
+  private createMatchConfig(): MatchConfig {
+    return {
+      mapSize: {
+        width: this.map?.width ?? this.mapWidth,
+        height: this.map?.height ?? this.mapHeight,
+      },
+      seed: randomSeed(),
+      players: [
+        { name: 'Player', faction: FactionType.USA },
+        { name: 'AI 1', faction: FactionType.CHINA, aiDifficulty: this.aiDifficulty },
+        { name: 'AI 2', faction: FactionType.GLA, aiDifficulty: this.aiDifficulty },
+      ],
+      mode: this.mode,
+      balance: this.balance,
+      map: this.map ?? undefined,
+    };
+  }
+
   // Exposed methods for main.ts
   public getState(): GameState {
-    return this.engine.getState();
+    if (this.replayPlayer) return this.replayPlayer.getState();
+    return this.network?.getState() ?? this.engine.getState();
+  }
+
+  // Whether the match is hosted by a server; replays are not available then
+  public isOnline(): boolean {
+    return this.network !== null;
+  }
+
+  // Record the current match so it can be saved to a file
+  public exportReplay(): ReplayFile {
+    return createReplay(this.matchConfig, this.engine);
+  }
+
+  // Switch to watching a recorded match; player input is ignored until exitReplay()
+  public loadReplay(replay: ReplayFile): void {
+    this.stopGameLoop();
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.playerId = this.replayPlayer.getPlayerIds()[0];
+    this.focusCameraOnBase();
+    this.selectedUnits = [];
+    this.controlGroups.clear();
+    this.setPendingOrder(null);
+    this.gameRunning = true;
+    this.startGameLoop();
+  }
+
+  // Capture the local match so it can be stored in a slot or a file
+  public saveGame(name: string): SaveFile {
+    if (this.replayPlayer) {
+      throw new SaveError('A replay cannot be saved; exit it first');
+    }
+    return createSave(name, this.matchConfig, this.matchPlayerIds, this.engine);
+  }
+
+  // Carry on a saved match from where it was left, leaving any replay being watched
+  public loadGame(save: SaveFile): void {
+    const engine = restoreSave(save);
+    this.stopGameLoop();
+    this.replayPlayer = null;
+    this.engine = engine;
+    this.listenToEngine();
+    this.matchConfig = save.config;
+    this.matchPlayerIds = save.playerIds;
+    this.playerId = save.playerIds[0];
+    this.focusCameraOnBase();
+    this.selectedUnits = [];
+    this.controlGroups.clear();
+    this.setPendingOrder(null);
+    this.gameRunning = true;
+    this.startGameLoop();
+  }
+
+  public getReplayPlayer(): ReplayPlayer | null {
+    return this.replayPlayer;
+  }
+
+  // Start a fresh local match on a map file; restarts after it stay on the same map
+  public playMap(map: MapFile): void {
+    if (this.network) return;
+    this.map = map;
+    this.stopGameLoop();
+    this.replayPlayer = null;
+    this.restartGame();
+  }
+
+  // Leave replay mode and start a fresh match
+  public exitReplay(): void {
+    if (!this.replayPlayer) return;
+    this.stopGameLoop();
+    this.replayPlayer = null;
+    this.restartGame();
+  }
+
+  // Play the local match and every later one with new numbers (dev hot-reload of balance.json)
+  // Replays of a match changed this way will not play back exactly
+  public setBalance(balance: BalanceData): void {
+    this.balance = balance;
+    this.engine.setBalance(balance);
   }
 
   public getPlayerId(): string {
     return this.playerId;
   }
 
+  // Units the viewed player's faction can build, in HUD order
+  public getRoster(): UnitType[] {
+    const player = this.getState().players[this.playerId];
+    return player ? getFactionRoster(player.faction) : [];
+  }
+
+  // Current cost of a unit for the viewed player, or null if they cannot build it
+  public getUnitCost(unitType: UnitType): UnitCost | null {
+    if (this.network) return this.network.getUnitCost(unitType);
+    const engine = this.replayPlayer ? this.replayPlayer.getEngine() : this.engine;
+    return engine.getUnitCost(this.playerId, unitType);
+  }
+
+  // Build the unit at a position in the faction roster
   public createUnit(typeIndex: number): void {
-    if (!this.gameRunning) return;
+    if (!this.gameRunning || this.replayPlayer) return;
     
-    let unitType: UnitType;
+    const unitType = this.getRoster()[typeIndex];
+    if (!unitType) return;
     
-    switch (typeIndex) {
-      case 0:
-        unitType = UnitType.SOLDIER;
-        break;
-      case 1:
-        unitType = UnitType.TANK;
-        break;
-      case 2:
-        unitType = UnitType.HELICOPTER;
-        break;
-      default:
-        return;
+    // The engine places the unit next to the base
+    this.submitCommand({
+      type: CommandType.CREATE_UNIT,
+      tick: this.nextTick(),
+      playerId: this.playerId,
+      unitType,
+    });
+  }
+
+  // Units the viewed player has paid for and is waiting on, front first
+  public getProductionQueue(): ProductionItem[] {
+    return this.getState().players[this.playerId]?.productionQueue ?? [];
+  }
+
+  // Take a unit out of the production queue for a refund
+  public cancelProduction(itemId: string): void {
+    if (!this.gameRunning || this.replayPlayer) return;
+    
+    this.submitCommand({
+      type: CommandType.CANCEL_PRODUCTION,
+      tick: this.nextTick(),
+      playerId: this.playerId,
+      itemId,
+    });
+  }
+
+  // Draw effects and notices from the local match's events, dropping the last match's listeners
+  private listenToEngine(): void {
+    const engine = this.engine;
+    const events = engine.getEvents();
+    this.engineListeners.forEach(unsubscribe => unsubscribe());
+    this.engineListeners = [
+      events.on(GameEventType.UNIT_KILLED, event => this.renderer.addExplosion(event.position)),
+      events.on(GameEventType.UNIT_PROMOTED, event => {
+        const unit = engine.getState().units[event.unitId];
+        if (event.playerId !== this.playerId || !unit) return;
+        this.renderer.addNotice(`${formatName(unit.type)} promoted to ${formatName(event.rank)}`);
+      }),
+      events.on(GameEventType.PLAYER_ELIMINATED, event => {
+        const player = engine.getState().players[event.playerId];
+        if (player) this.renderer.addNotice(`${player.name} has been eliminated`);
+      }),
+    ];
+  }
+
+  // Commands from input are applied on the next simulation step
+  private nextTick(): number {
+    return this.network ? this.network.getNextTick() : this.engine.getState().tick + 1;
+  }
+
+  // Send a command to the local engine or the server
+  private submitCommand(command: GameCommand): void {
+    if (this.network) {
+      this.network.submitCommand(command);
+    } else {
+      this.engine.submitCommand(command);
     }
-    
-    const state = this.engine.getState();
+  }
+
+  // Unit and base lookups against whatever is being shown
+  private getUnitQueries(): Pick<GameEngine, 'findUnitAt' | 'findBaseAt' | 'getUnitsInRect' | 'getVision'> {
+    return this.network ?? this.engine;
+  }
+
+  // Fog of war of the viewed player; replays are watched with the whole map in view
+  private getVision(): PlayerVision | null {
+    return this.replayPlayer ? null : this.getUnitQueries().getVision(this.playerId);
+  }
+
+  // Enemy units can only be picked out while in sight, and enemy bases once they have been seen
+  private canTarget(target: AttackTarget): boolean {
+    const vision = this.getVision();
+    if (!vision) return true;
+    return isBase(target) ? vision.hasSeen(target) : vision.canSee(target);
+  }
+
+  // Fit the camera to the current map and center it on the viewed player's base
+  private focusCameraOnBase(): void {
+    const state = this.getState();
+    this.camera.setWorldSize(state.mapSize.width, state.mapSize.height);
     const player = state.players[this.playerId];
+    if (player) {
+      this.camera.centerOn(player.basePosition);
+    }
+  }
+
+  // Mouse position in canvas pixels, allowing for the canvas being scaled by CSS
+  private getScreenPosition(event: MouseEvent): Position {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (this.canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (this.canvas.height / rect.height),
+    };
+  }
+
+  // Map position under the mouse
+  private getWorldPosition(event: MouseEvent): Position {
+    return this.camera.screenToWorld(this.getScreenPosition(event));
+  }
+
+  // Combined direction of the held scroll keys
+  private getPanInput(): PanInput {
+    const input = { x: 0, y: 0 };
+    this.heldActions.forEach(action => {
+      const direction = PAN_ACTIONS[action];
+      if (!direction) return;
+      input.x += direction.x;
+      input.y += direction.y;
+    });
+    return input;
+  }
+
+  public getFormationShape(): FormationType {
+    return this.formationShape;
+  }
+
+  // Shape groups line up in from the next order on
+  public setFormationShape(shape: FormationType): void {
+    this.formationShape = shape;
+  }
+
+  public isKeepingTogether(): boolean {
+    return this.keepTogether;
+  }
+
+  public setKeepTogether(keepTogether: boolean): void {
+    this.keepTogether = keepTogether;
+  }
+
+  // Formation for an order given now, facing a direction or the way the group travels
+  private getFormation(facing: number | null = null): FormationSettings {
+    return { shape: this.formationShape, facing, keepTogether: this.keepTogether };
+  }
+
+  public getKeyBindings(): KeyBindings {
+    return this.keyBindings;
+  }
+
+  // Hand the next key press to a callback instead of acting on it, for rebinding; Escape gives null
+  public captureKeyBinding(onKey: (binding: KeyBinding | null) => void): void {
+    this.keyCapture = onKey;
+  }
+
+  // Carry out a bound key press
+  private handleAction(action: InputAction): void {
+    if (action in PAN_ACTIONS) {
+      this.heldActions.add(action);
+      return;
+    }
     
-    if (!player) return;
-    
-    // Get player base position
-    const basePosition = player.basePosition;
+    const buildSlot = BUILD_ACTIONS.indexOf(action);
+    if (buildSlot !== -1) {
+      if (!this.replayPlayer) {
+        this.createUnit(buildSlot);
+      }
+      return;
+    }
     
-    // Create unit slightly offset from base
-    const randomOffset = () => Math.random() * 60 - 30;
-    const position = {
-      x: basePosition.x + randomOffset(),
-      y: basePosition.y + randomOffset(),
-    };
+    if (CONTROL_GROUP_ACTIONS.includes(action)) {
+      this.recallControlGroup(action);
+      return;
+    }
     
-    // Create the unit
-    this.engine.createUnit(this.playerId, unitType, position);
+    switch (action) {
+      case InputAction.CENTER_ON_BASE:
+        this.focusCameraOnBase();
+        break;
+        
+      case InputAction.CENTER_ON_SELECTION:
+        this.centerCameraOn(this.selectedUnits);
+        break;
+        
+      case InputAction.CLEAR_SELECTION:
+        // Backs out of an order waiting for its click before dropping the selection
+        if (this.pendingOrder) {
+          this.setPendingOrder(null);
+        } else {
+          this.selectedUnits = [];
+        }
+        break;
+        
+      case InputAction.ATTACK_MOVE:
+        this.setPendingOrder(OrderType.ATTACK_MOVE);
+        break;
+        
+      case InputAction.PATROL:
+        this.setPendingOrder(OrderType.PATROL);
+        break;
+        
+      case InputAction.GUARD:
+        this.setPendingOrder(OrderType.GUARD);
+        break;
+        
+      case InputAction.HOLD_POSITION:
+        if (this.replayPlayer || this.selectedUnits.length === 0) break;
+        this.submitCommand({
+          type: CommandType.HOLD_POSITION,
+          tick: this.nextTick(),
+          playerId: this.playerId,
+          unitIds: this.selectedUnits.map(unit => unit.id),
+          queued: false,
+        });
+        break;
+        
+      case InputAction.STOP:
+        if (this.replayPlayer || this.selectedUnits.length === 0) break;
+        this.setPendingOrder(null);
+        this.submitCommand({
+          type: CommandType.STOP,
+          tick: this.nextTick(),
+          playerId: this.playerId,
+          unitIds: this.selectedUnits.map(unit => unit.id),
+        });
+        break;
+        
+      case InputAction.SHOW_DEBUG:
+        this.heldActions.add(action);
+        this.renderer.setDebugMode(true);
+        break;
+    }
+  }
+
+  // Wait for a click on the map to place an order, showing a crosshair meanwhile; null cancels
+  private setPendingOrder(order: OrderType | null): void {
+    if (order && (this.replayPlayer || this.selectedUnits.length === 0)) return;
+    this.pendingOrder = order;
+    this.canvas.style.cursor = order ? 'crosshair' : '';
+  }
+
+  // Remember the selection under a group key, replacing what the group held
+  private assignControlGroup(action: InputAction): void {
+    this.controlGroups.set(action, this.selectedUnits.map(unit => unit.id));
+  }
+
+  // Select the living units of a group; pressing the key twice in a row also centers the camera on them
+  private recallControlGroup(action: InputAction): void {
+    const state = this.getState();
+    const units = (this.controlGroups.get(action) ?? [])
+      .map(unitId => state.units[unitId])
+      .filter(unit => unit && !unit.isDead && unit.playerId === this.playerId);
+    if (units.length === 0) return;
+    
+    const now = performance.now();
+    if (this.lastGroupRecall?.action === action && now - this.lastGroupRecall.time <= DOUBLE_TAP_TIME) {
+      this.centerCameraOn(units);
+    }
+    this.lastGroupRecall = { action, time: now };
+    this.selectedUnits = units;
+  }
+
+  // Center the camera on the middle of a group of units
+  private centerCameraOn(units: Unit[]): void {
+    if (units.length === 0) return;
+    const x = units.reduce((sum, unit) => sum + unit.position.x, 0) / units.length;
+    const y = units.reduce((sum, unit) => sum + unit.position.y, 0) / units.length;
+    this.camera.centerOn({ x, y });
   }
 
   // Set up event listeners for user input
   private setupEventListeners(): void {
     // Mouse down event for selection
     this.canvas.addEventListener('mousedown', (event) => {
-      if (!this.gameRunning) return;
+      if (!this.gameRunning || this.replayPlayer) return;
+      
+      // Right-button drags set which way the group faces when it gets there
+      if (event.button === 2) {
+        this.facingDragStart = this.getWorldPosition(event);
+        return;
+      }
+      
+      // Only the left button selects; right-clicks keep the selection for orders
+      if (event.button !== 0) return;
       
       // Prevent default browser scrolling behavior
       event.preventDefault();
       
-      const rect = this.canvas.getBoundingClientRect();
-      const x = event.clientX - rect.left;
-      const y = event.clientY - rect.top;
-      
       this.isMouseDown = true;
-      this.selectionStart = { x, y };
+      this.selectionStart = this.getWorldPosition(event);
       
-      // If not holding Ctrl, clear selection
-      if (!event.ctrlKey) {
+      // If not holding Ctrl, clear selection; a click placing an order keeps it
+      if (!event.ctrlKey && !this.pendingOrder) {
         this.selectedUnits = [];
       }
     });
     
-    // Mouse move event for selection box
+    // Track the pointer for edge scrolling and the selection box
     this.canvas.addEventListener('mousemove', (event) => {
-      if (!this.gameRunning || !this.isMouseDown || !this.selectionStart) return;
+      this.pointerPosition = this.getScreenPosition(event);
       
       // Prevent default browser scrolling behavior
-      event.preventDefault();
-      
-      const rect = this.canvas.getBoundingClientRect();
-      const x = event.clientX - rect.left;
-      const y = event.clientY - rect.top;
-      
-      // Redraw the scene with selection box
-      this.renderGameWithSelectionBox({ x, y });
+      if (this.isMouseDown) {
+        event.preventDefault();
+      }
     });
     
+    this.canvas.addEventListener('mouseleave', () => {
+      this.pointerPosition = null;
+    });
+    
+    // Mouse wheel zooms around the pointer
+    this.canvas.addEventListener('wheel', (event) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? CAMERA_CONFIG.zoomStep : 1 / CAMERA_CONFIG.zoomStep;
+      this.camera.zoomAt(this.getScreenPosition(event), factor);
+    }, { passive: false });
+    
     // Mouse up event for finishing selection or issuing commands
     this.canvas.addEventListener('mouseup', (event) => {
+      if (this.replayPlayer) return;
+      
       if (!this.gameRunning) {
         // If game is over, restart on click
         this.restartGame();
         return;
       }
+      if (event.button === 2) {
+        this.handleRightClick(this.getScreenPosition(event), event.shiftKey);
+        return;
+      }
+      if (event.button !== 0) return;
       
-      const rect = this.canvas.getBoundingClientRect();
-      const x = event.clientX - rect.left;
-      const y = event.clientY - rect.top;
+      const screenPosition = this.getScreenPosition(event);
+      const position = this.camera.screenToWorld(screenPosition);
       
       if (this.isMouseDown && this.selectionStart) {
-        // Selection mode
+        // Selection mode; the drag threshold is measured on screen
+        const startOnScreen = this.camera.worldToScreen(this.selectionStart);
         if (
-          Math.abs(x - this.selectionStart.x) > 5 ||
-          Math.abs(y - this.selectionStart.y) > 5
+          !this.pendingOrder && (
+            Math.abs(screenPosition.x - startOnScreen.x) > 5 ||
+            Math.abs(screenPosition.y - startOnScreen.y) > 5
+          )
         ) {
           // Selection box drag
-          this.selectUnitsInBox(this.selectionStart, { x, y });
+          this.selectUnitsInBox(this.selectionStart, position);
         } else {
-          // Single click - Pass shift key for movement and ctrl key for adding to selection
-          this.handleSingleClick({ x, y }, event.shiftKey, event.ctrlKey);
+          // Single click - Pass shift key for queuing orders and ctrl key for adding to selection
+          this.handleSingleClick(position, event.shiftKey, event.ctrlKey);
         }
       }
       
@@ -146,48 +600,58 @@ export class GameController {
       this.selectionStart = null;
     });
     
-    // Right click for unit movement/attack
+    // Right clicks are handled when the button comes up, since dragging first sets the facing
     this.canvas.addEventListener('contextmenu', (event) => {
       event.preventDefault();
-      
-      if (!this.gameRunning || this.selectedUnits.length === 0) return;
-      
-      const rect = this.canvas.getBoundingClientRect();
-      const x = event.clientX - rect.left;
-      const y = event.clientY - rect.top;
-      
-      // Always move on right-click, never attack
-      this.moveSelectedUnitsTo({ x, y });
     });
     
-    // Keyboard shortcuts
+    // Keyboard shortcuts, looked up in the player's key bindings
     window.addEventListener('keydown', (event) => {
-      if (!this.gameRunning) return;
+      // Typing a save name is not a command
+      if (event.target instanceof HTMLInputElement) return;
       
-      switch (event.key) {
-        case 'Escape':
-          // Clear selection
-          this.selectedUnits = [];
-          break;
-          
-        case '1':
-        case '2':
-        case '3':
-          // Create units at base
-          this.createUnit(parseInt(event.key) - 1);
-          break;
-          
-        case 'd':
-          // Toggle debug mode
-          this.renderer.setDebugMode(true);
-          break;
+      if (this.keyCapture) {
+        const binding = event.code === 'Escape' ? null : keyBindingFromPress(event);
+        if (event.code !== 'Escape' && !binding) return; // Wait for a key to go with the modifier
+        event.preventDefault();
+        const onKey = this.keyCapture;
+        this.keyCapture = null;
+        onKey(binding);
+        return;
+      }
+      
+      if (!this.gameRunning || event.repeat) return;
+      
+      const action = this.keyBindings.getAction(event);
+      if (action) {
+        // Bound keys never scroll the page or trigger browser shortcuts
+        event.preventDefault();
+        this.handleAction(action);
+        return;
+      }
+      
+      // Ctrl plus a control group's key puts the selection in that group
+      const withoutCtrl = { code: event.code, ctrlKey: false, shiftKey: event.shiftKey, altKey: event.altKey };
+      const groupAction = event.ctrlKey ? this.keyBindings.getAction(withoutCtrl) : null;
+      if (groupAction && CONTROL_GROUP_ACTIONS.includes(groupAction)) {
+        event.preventDefault();
+        this.assignControlGroup(groupAction);
       }
     });
     
     window.addEventListener('keyup', (event) => {
-      if (event.key === 'd') {
-        this.renderer.setDebugMode(false);
-      }
+      this.keyBindings.getActionsForKey(event.code).forEach(action => {
+        this.heldActions.delete(action);
+        if (action === InputAction.SHOW_DEBUG) {
+          this.renderer.setDebugMode(false);
+        }
+      });
+    });
+    
+    // Keys released while the window is in the background never send keyup
+    window.addEventListener('blur', () => {
+      this.heldActions.clear();
+      this.renderer.setDebugMode(false);
     });
   }
 
@@ -196,68 +660,121 @@ export class GameController {
     const gameLoop = () => {
       if (!this.gameRunning) return;
       
+      const now = performance.now();
+      const frameTime = (now - this.lastFrameTime) / 1000;
+      this.lastFrameTime = now;
+      
+      // Scroll the view before drawing it
+      this.camera.update(frameTime, this.getPanInput(), this.pointerPosition);
+      
       // Update game state
-      this.engine.update();
+      if (this.replayPlayer) {
+        this.replayPlayer.update(frameTime);
+      } else if (this.network) {
+        this.network.update(now);
+      } else {
+        this.engine.update();
+      }
+      
+      if (this.network && !this.network.isReady()) {
+        this.renderer.drawStatusMessage(this.network.getError() ?? 'Connecting to server...');
+        this.animationFrameId = requestAnimationFrame(gameLoop);
+        return;
+      }
+      
+      // Online states are rebuilt every frame, so look the selection up again
+      const state = this.getState();
+      this.selectedUnits = this.selectedUnits
+        .map(unit => state.units[unit.id])
+        .filter(unit => unit && !unit.isDead);
       
       // Render the game
-      this.renderer.render(this.engine.getState());
+      this.renderer.render(state, this.getVision());
+      const player = state.players[this.playerId];
+      if (player) {
+        this.renderer.drawRallyPoint(player);
+      }
       this.renderer.highlightSelectedUnits(this.selectedUnits);
+      this.renderer.drawUnitOrders(state, this.selectedUnits, this.getVision());
       
-      // Check for game over condition
-      this.checkGameOver();
+      // Draw the selection box; it follows the camera if the view scrolls mid-drag
+      if (this.isMouseDown && this.selectionStart && this.pointerPosition) {
+        this.renderer.drawSelectionBox(this.selectionStart, this.camera.screenToWorld(this.pointerPosition));
+      }
+      
+      // Show which way the group will face while a right-button drag is under way
+      if (this.facingDragStart && this.pointerPosition && this.selectedUnits.length > 0) {
+        this.renderer.drawFacingArrow(this.facingDragStart, this.camera.screenToWorld(this.pointerPosition));
+      }
+      
+      if (this.network?.getStatus() === ConnectionStatus.CLOSED) {
+        this.renderer.drawStatusMessage(this.network.getError() ?? 'Disconnected');
+      }
+      
+      // The engine (or the server, online) decides when the match is over
+      this.checkGameOver(state);
       
       // Schedule next frame
       this.animationFrameId = requestAnimationFrame(gameLoop);
     };
     
     // Start the loop
+    this.lastFrameTime = performance.now();
     this.animationFrameId = requestAnimationFrame(gameLoop);
   }
 
-  // Render the game with a selection box
-  private renderGameWithSelectionBox(currentPos: Position): void {
-    if (!this.selectionStart) return;
-    
-    // Render the game
-    this.renderer.render(this.engine.getState());
+  // Stop the game loop
+  private stopGameLoop(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+  }
+
+  // Finish a right-click: move the selection there, facing the way the button was dragged
+  private handleRightClick(screenPosition: Position, shiftKey: boolean): void {
+    const start = this.facingDragStart;
+    this.facingDragStart = null;
+    if (!start) return;
+    
+    // Right-click backs out of an order waiting for its click
+    if (this.pendingOrder) {
+      this.setPendingOrder(null);
+      return;
+    }
     
-    // Draw the selection box
-    this.renderer.drawSelectionBox(this.selectionStart, currentPos);
+    if (this.selectedUnits.length === 0) {
+      this.setRallyPoint(start);
+      return;
+    }
     
-    // Highlight already selected units
-    this.renderer.highlightSelectedUnits(this.selectedUnits);
+    // Always move on right-click, never attack; Shift adds the move to the units' queues
+    const end = this.camera.screenToWorld(screenPosition);
+    const startOnScreen = this.camera.worldToScreen(start);
+    const dragged = Math.hypot(screenPosition.x - startOnScreen.x, screenPosition.y - startOnScreen.y) > FACING_DRAG_DISTANCE;
+    const facing = dragged ? Math.atan2(end.y - start.y, end.x - start.x) : null;
+    this.moveSelectedUnitsTo(start, shiftKey, facing);
   }
 
   // Handle a single click (select a unit or target)
+  // With Shift held, orders go to the back of the units' queues instead of replacing them
   private handleSingleClick(position: Position, shiftKey: boolean, ctrlKey: boolean = false): void {
-    const state = this.engine.getState();
-    
-    // If Shift key is pressed, force movement command for selected units
-    if (shiftKey && this.selectedUnits.length > 0) {
-      this.moveSelectedUnitsTo(position);
+    if (this.pendingOrder) {
+      if (this.selectedUnits.length > 0) {
+        this.issueTargetedOrder(this.pendingOrder, position, shiftKey);
+      }
+      // Holding Shift keeps the order up for the next waypoint
+      if (!shiftKey) {
+        this.setPendingOrder(null);
+      }
       return;
     }
     
     // Check if clicked on a unit
-    let clickedUnit: Unit | null = null;
-    
-    Object.values(state.units).forEach(unit => {
-      if (unit.isDead) return;
-      
-      const dx = position.x - unit.position.x;
-      const dy = position.y - unit.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      // Simple circular hit detection
-      const hitRadius = unit.type === UnitType.TANK ? 15 : 10;
-      
-      if (distance <= hitRadius) {
-        clickedUnit = unit;
-      }
-    });
+    const clickedUnit = this.getUnitQueries().findUnitAt(position, unit => this.canTarget(unit));
     
     if (clickedUnit) {
-      const unit = clickedUnit as Unit;
+      const unit = clickedUnit;
       if (unit.playerId === this.playerId) {
         // Select own unit
         if (ctrlKey) {
@@ -271,61 +788,139 @@ export class GameController {
         }
       } else if (this.selectedUnits.length > 0) {
         // Target enemy unit
-        this.selectedUnits.forEach(selectedUnit => {
-          this.engine.attackUnit(selectedUnit.id, unit.id);
+        this.submitCommand({
+          type: CommandType.ATTACK,
+          tick: this.nextTick(),
+          playerId: this.playerId,
+          unitIds: this.selectedUnits.map(selectedUnit => selectedUnit.id),
+          queued: shiftKey,
+          targetId: unit.id,
         });
       }
     } else if (this.selectedUnits.length > 0) {
+      const deposit = this.findDepositAt(position);
+      if (deposit && this.selectedUnits.some(selectedUnit => selectedUnit.carryCapacity > 0)) {
+        // Clicked on a deposit - gatherers harvest it, the rest of the selection carries on
+        this.submitCommand({
+          type: CommandType.HARVEST,
+          tick: this.nextTick(),
+          playerId: this.playerId,
+          unitIds: this.selectedUnits.map(selectedUnit => selectedUnit.id),
+          queued: shiftKey,
+          resourceId: deposit.id,
+        });
+        return;
+      }
       // Clicked on empty space with units selected - MOVE command
-      this.moveSelectedUnitsTo(position);
+      this.moveSelectedUnitsTo(position, shiftKey);
     } else if (!ctrlKey) {
       // Clicked on empty space, clear selection
       this.selectedUnits = [];
     }
   }
 
-  // Move selected units to target position
-  private moveSelectedUnitsTo(targetPos: Position): void {
-    // Arrange units in a rough formation
-    const unitCount = this.selectedUnits.length;
-    const formationSize = Math.ceil(Math.sqrt(unitCount));
-    const spacing = 30; // Space between units
+  // Right-click near the base sets the rally point; on the base itself it clears it
+  private setRallyPoint(position: Position): void {
+    const player = this.getState().players[this.playerId];
+    if (!player) return;
     
-    this.selectedUnits.forEach((unit, index) => {
-      const row = Math.floor(index / formationSize);
-      const col = index % formationSize;
-      
-      const offsetX = (col - formationSize / 2) * spacing;
-      const offsetY = (row - formationSize / 2) * spacing;
-      
-      const unitTargetPos = {
-        x: targetPos.x + offsetX,
-        y: targetPos.y + offsetY,
-      };
-      
-      this.engine.moveUnit(unit.id, unitTargetPos);
+    const onBase = this.getUnitQueries().findBaseAt(position, base => base.playerId === this.playerId) !== null;
+    const distance = Math.hypot(position.x - player.basePosition.x, position.y - player.basePosition.y);
+    if (!onBase && distance > RALLY_POINT_RANGE) return;
+    
+    this.submitCommand({
+      type: CommandType.SET_RALLY_POINT,
+      tick: this.nextTick(),
+      playerId: this.playerId,
+      position: onBase ? null : position,
     });
   }
 
+  // Move selected units to target position (the engine arranges the formation)
+  private moveSelectedUnitsTo(targetPos: Position, queued: boolean = false, facing: number | null = null): void {
+    this.submitCommand({
+      type: CommandType.MOVE,
+      tick: this.nextTick(),
+      playerId: this.playerId,
+      unitIds: this.selectedUnits.map(unit => unit.id),
+      queued,
+      target: targetPos,
+      formation: this.getFormation(facing),
+    });
+  }
+
+  // Place an order that was waiting for a click: attack-moving onto an enemy attacks it,
+  // and guarding a friendly unit follows it around instead of holding the spot
+  private issueTargetedOrder(order: OrderType, position: Position, queued: boolean): void {
+    const unitIds = this.selectedUnits.map(unit => unit.id);
+    const tick = this.nextTick();
+    const formation = this.getFormation();
+    
+    switch (order) {
+      case OrderType.ATTACK_MOVE: {
+        const target = this.findEnemyAt(position);
+        if (target) {
+          this.submitCommand({ type: CommandType.ATTACK, tick, playerId: this.playerId, unitIds, queued, targetId: target.id });
+        } else {
+          this.submitCommand({
+            type: CommandType.ATTACK_MOVE,
+            tick,
+            playerId: this.playerId,
+            unitIds,
+            queued,
+            target: position,
+            formation,
+          });
+        }
+        break;
+      }
+        
+      case OrderType.PATROL:
+        this.submitCommand({ type: CommandType.PATROL, tick, playerId: this.playerId, unitIds, queued, target: position, formation });
+        break;
+        
+      case OrderType.GUARD: {
+        const guarded = this.getUnitQueries().findUnitAt(position, unit =>
+          unit.playerId === this.playerId && !unitIds.includes(unit.id)
+        );
+        this.submitCommand({
+          type: CommandType.GUARD,
+          tick,
+          playerId: this.playerId,
+          unitIds,
+          queued,
+          target: guarded ? { ...guarded.position } : position,
+          guardedId: guarded?.id ?? null,
+          formation,
+        });
+        break;
+      }
+    }
+  }
+
+  // Enemy unit under a point, or failing that an enemy base
+  private findEnemyAt(position: Position): AttackTarget | null {
+    const queries = this.getUnitQueries();
+    return queries.findUnitAt(position, unit => unit.playerId !== this.playerId && this.canTarget(unit)) ??
+      queries.findBaseAt(position, base => base.playerId !== this.playerId && this.canTarget(base));
+  }
+
+  // Deposit under a point, once the viewed player has explored the ground it is on
+  private findDepositAt(position: Position): Resource | null {
+    const vision = this.getVision();
+    return Object.values(this.getState().resources).find(resource =>
+      Math.hypot(resource.position.x - position.x, resource.position.y - position.y) <= DEPOSIT_CLICK_RADIUS &&
+      (!vision || vision.isExplored(resource.position))
+    ) ?? null;
+  }
+
   // Select units within a box
   private selectUnitsInBox(startPos: Position, endPos: Position): void {
-    const state = this.engine.getState();
-    const minX = Math.min(startPos.x, endPos.x);
-    const maxX = Math.max(startPos.x, endPos.x);
-    const minY = Math.min(startPos.y, endPos.y);
-    const maxY = Math.max(startPos.y, endPos.y);
+    const min = { x: Math.min(startPos.x, endPos.x), y: Math.min(startPos.y, endPos.y) };
+    const max = { x: Math.max(startPos.x, endPos.x), y: Math.max(startPos.y, endPos.y) };
     
     // Find all player units in the box
-    const unitsInBox = Object.values(state.units).filter(unit => {
-      if (unit.isDead || unit.playerId !== this.playerId) return false;
-      
-      return (
-        unit.position.x >= minX &&
-        unit.position.x <= maxX &&
-        unit.position.y >= minY &&
-        unit.position.y <= maxY
-      );
-    });
+    const unitsInBox = this.getUnitQueries().getUnitsInRect(min, max).filter(unit => unit.playerId === this.playerId);
     
     // Add units to selection
     unitsInBox.forEach(unit => {
@@ -337,30 +932,18 @@ export class GameController {
 
   // Issue a move or attack command to selected units
   private issueCommand(targetPos: Position): void {
-    const state = this.engine.getState();
-    
-    // Check if the target position is on an enemy unit
-    let targetUnit: Unit | null = null;
-    
-    Object.values(state.units).forEach(unit => {
-      if (unit.isDead || unit.playerId === this.playerId) return;
-      
-      const dx = targetPos.x - unit.position.x;
-      const dy = targetPos.y - unit.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      // Simple circular hit detection
-      const hitRadius = unit.type === UnitType.TANK ? 15 : 10;
-      
-      if (distance <= hitRadius) {
-        targetUnit = unit;
-      }
-    });
-    
-    if (targetUnit) {
-      // Attack the target unit
-      this.selectedUnits.forEach(unit => {
-        this.engine.attackUnit(unit.id, targetUnit!.id);
+    // Check if the target position is on an enemy unit, or failing that an enemy base
+    const target = this.findEnemyAt(targetPos);
+    
+    if (target) {
+      // Attack the target
+      this.submitCommand({
+        type: CommandType.ATTACK,
+        tick: this.nextTick(),
+        playerId: this.playerId,
+        unitIds: this.selectedUnits.map(unit => unit.id),
+        queued: false,
+        targetId: target.id,
       });
     } else {
       // Move to the target position
@@ -368,43 +951,33 @@ export class GameController {
     }
   }
 
-  // Check if the game should end
-  private checkGameOver(): void {
-    const state = this.engine.getState();
-    const activePlayers = Object.values(state.players).filter(player => 
-      player.units.length > 0 || 
-      player.resources[ResourceType.MONEY] >= 150
-    );
+  // Show the result once the match is decided; a local match stops and restarts on click
+  private checkGameOver(state: GameState): void {
+    if (!state.result) return;
     
-    if (activePlayers.length <= 1) {
+    const canRestart = !this.replayPlayer && !this.network;
+    this.renderer.drawGameOver(state, canRestart);
+    if (canRestart) {
       this.gameRunning = false;
-      
-      // Draw game over screen
-      const winner = activePlayers.length === 1 ? activePlayers[0].name : "Nobody";
-      this.renderer.drawGameOver(winner);
-      
-      // Clean up
-      if (this.animationFrameId !== null) {
-        cancelAnimationFrame(this.animationFrameId);
-        this.animationFrameId = null;
-      }
+      this.stopGameLoop();
     }
   }
 
   // Restart the game
   private restartGame(): void {
     // Reset game state
-    this.engine = new GameEngine(this.canvas.width, this.canvas.height);
+    this.matchConfig = this.createMatchConfig();
+    const match = createMatch(this.matchConfig);
+    this.engine = match.engine;
+    this.listenToEngine();
+    this.matchPlayerIds = match.playerIds;
+    this.playerId = match.playerIds[0];
+    this.focusCameraOnBase();
     this.selectedUnits = [];
+    this.controlGroups.clear();
+    this.setPendingOrder(null);
     this.gameRunning = true;
     
-    // Initialize player
-    this.playerId = this.engine.addPlayer('Player', FactionType.USA);
-    
-    // Add AI opponents
-    this.engine.addPlayer('AI 1', FactionType.CHINA);
-    this.engine.addPlayer('AI 2', FactionType.GLA);
-    
     // Start game loop
     this.startGameLoop();
   }
@@ -0,0 +1,390 @@
+import { GameRenderer } from './renderer';
+import { CAMERA_CONFIG, Camera } from './camera';
+import { DEFAULT_BALANCE } from './balance';
+import { FairnessReport, analyzeMap, generateMap } from './mapgen';
+import {
+  MapFile,
+  MapObjectType,
+  MapResource,
+  createBlankMap,
+  createMapFromGenerated,
+  decodeTerrain,
+  encodeTerrain,
+  placeMapObjects,
+} from './mapfile';
+import { SeededRandom } from './random';
+import { fillArea } from './terrain';
+import { VICTORY_CONFIG } from './victory';
+import { GameMode, GameState, Position, Resource, ResourceType, TerrainMap, TerrainType } from './types';
+
+// What a click on the map does in the editor
+export enum EditorTool {
+  GRASS = 'GRASS',
+  WATER = 'WATER',
+  CLIFF = 'CLIFF',
+  START = 'START',
+  MONEY = 'MONEY',
+  SUPPLIES = 'SUPPLIES',
+  HILL = 'HILL',
+  BUILDING = 'BUILDING',
+  ERASE = 'ERASE', // Removes the start, deposit or object under the pointer
+}
+
+// Tools that paint tiles, and the terrain they paint
+const PAINT_TOOLS: Partial<Record<EditorTool, TerrainType>> = {
+  [EditorTool.GRASS]: TerrainType.GRASS,
+  [EditorTool.WATER]: TerrainType.WATER,
+  [EditorTool.CLIFF]: TerrainType.CLIFF,
+};
+
+// Tools that place deposits, and the resource they place
+const DEPOSIT_TOOLS: Partial<Record<EditorTool, ResourceType>> = {
+  [EditorTool.MONEY]: ResourceType.MONEY,
+  [EditorTool.SUPPLIES]: ResourceType.SUPPLIES,
+};
+
+// Tools that place neutral objects, and the object they place
+const OBJECT_TOOLS: Partial<Record<EditorTool, MapObjectType>> = {
+  [EditorTool.HILL]: MapObjectType.HILL,
+  [EditorTool.BUILDING]: MapObjectType.BUILDING,
+};
+
+// Map editor config
+const EDITOR_CONFIG = {
+  maxBrushSize: 6, // In tiles from the center
+  eraseRadius: 30, // Erasing picks the nearest thing this many pixels away or closer
+  startSpacing: 100, // A new start this close to another replaces it
+};
+
+// How a deposit placed by the editor is sized and grows back
+export type DepositSettings = Omit<MapResource, 'type' | 'position'>;
+
+// Paints terrain and places starts, deposits and neutral objects on a map, drawn with the game's renderer
+// The map stays in file form apart from its tiles, which are kept as a grid while being painted
+export class MapEditor {
+  private canvas: HTMLCanvasElement;
+  private camera: Camera;
+  private renderer: GameRenderer;
+  private map: MapFile;
+  private terrain: TerrainMap; // Painted tiles, without the buildings
+  private tool: EditorTool = EditorTool.WATER;
+  private brushSize: number = 1;
+  private depositSettings: Record<ResourceType, DepositSettings>;
+  private objectSizes: Record<MapObjectType, number> = {
+    [MapObjectType.HILL]: VICTORY_CONFIG.zoneRadius,
+    [MapObjectType.BUILDING]: 60,
+  };
+  private isPainting: boolean = false;
+  private panStart: Position | null = null; // Screen position where a right-button drag began
+  private pointerPosition: Position | null = null; // Screen position, null while the pointer is off the canvas
+  private heldKeys: Set<string> = new Set();
+  private preview: GameState | null = null; // Rebuilt after every change
+  private report: FairnessReport | null = null; // Worked out when asked for, after a change
+  private lastFrameTime: number = 0;
+
+  constructor(canvas: HTMLCanvasElement, map: MapFile) {
+    this.canvas = canvas;
+    this.map = map;
+    this.terrain = decodeTerrain(map);
+    this.camera = new Camera(canvas.width, canvas.height, map.width, map.height);
+    this.renderer = new GameRenderer(canvas, this.camera);
+    this.depositSettings = {
+      [ResourceType.MONEY]: this.getDefaultDepositSettings(ResourceType.MONEY),
+      [ResourceType.SUPPLIES]: this.getDefaultDepositSettings(ResourceType.SUPPLIES),
+    };
+    this.setupEventListeners();
+    this.startLoop();
+  }
+
+  // The map as it stands, ready to save or play
+  public getMap(): MapFile {
+    return { ...this.map, terrain: encodeTerrain(this.terrain) };
+  }
+
+  // Switch to editing another map
+  public loadMap(map: MapFile): void {
+    this.map = map;
+    this.terrain = decodeTerrain(map);
+    this.camera.setWorldSize(map.width, map.height);
+    this.camera.centerOn({ x: map.width / 2, y: map.height / 2 });
+    this.markChanged();
+  }
+
+  // Start over on an empty field of grass
+  public newMap(name: string, width: number, height: number): void {
+    this.loadMap(createBlankMap(name, width, height));
+  }
+
+  // Start over from a generated map, as a match with that seed and player count would get
+  public generateMap(name: string, width: number, height: number, playerCount: number, seed: number): void {
+    const resources = DEFAULT_BALANCE.resources;
+    const generated = generateMap(width, height, playerCount, new SeededRandom(seed), resources);
+    this.loadMap(createMapFromGenerated(name, width, height, generated, resources));
+  }
+
+  public setName(name: string): void {
+    this.map.name = name;
+  }
+
+  public getTool(): EditorTool {
+    return this.tool;
+  }
+
+  public setTool(tool: EditorTool): void {
+    this.tool = tool;
+  }
+
+  public setBrushSize(size: number): void {
+    this.brushSize = Math.min(EDITOR_CONFIG.maxBrushSize, Math.max(0, Math.round(size)));
+  }
+
+  // Terrain a tool paints, or null for tools that place something instead
+  public getPaintType(tool: EditorTool = this.tool): TerrainType | null {
+    return PAINT_TOOLS[tool] ?? null;
+  }
+
+  // Deposit a tool places, or null for tools that place something else
+  public getDepositType(tool: EditorTool = this.tool): ResourceType | null {
+    return DEPOSIT_TOOLS[tool] ?? null;
+  }
+
+  public getDepositSettings(type: ResourceType): DepositSettings {
+    return { ...this.depositSettings[type] };
+  }
+
+  // Used for deposits placed from now on
+  public setDepositSettings(type: ResourceType, settings: DepositSettings): void {
+    this.depositSettings[type] = { ...settings };
+  }
+
+  // Object a tool places, or null for tools that place something else
+  public getObjectType(tool: EditorTool = this.tool): MapObjectType | null {
+    return OBJECT_TOOLS[tool] ?? null;
+  }
+
+  public getObjectSize(type: MapObjectType): number {
+    return this.objectSizes[type];
+  }
+
+  // Used for objects placed from now on
+  public setObjectSize(type: MapObjectType, size: number): void {
+    this.objectSizes[type] = size;
+  }
+
+  // How evenly the map treats its starts; worked out again only after a change
+  public getReport(): FairnessReport {
+    if (!this.report) {
+      const terrain = this.getPreview().terrain;
+      this.report = analyzeMap(terrain, this.map.starts, this.map.resources);
+    }
+    return this.report;
+  }
+
+  private getDefaultDepositSettings(type: ResourceType): DepositSettings {
+    const { amount, regrowDelay, regrowPerSecond } = DEFAULT_BALANCE.resources[type];
+    return { amount, regrowDelay, regrowPerSecond };
+  }
+
+  // Forget the preview and report so they are rebuilt from the map
+  private markChanged(): void {
+    this.preview = null;
+    this.report = null;
+  }
+
+  // The map dressed up as a match with no players, so the game's renderer can draw it
+  private getPreview(): GameState {
+    if (this.preview) return this.preview;
+
+    const terrain = { ...this.terrain, tiles: [...this.terrain.tiles] };
+    placeMapObjects(terrain, this.map.objects);
+    const resources: Record<string, Resource> = {};
+    this.map.resources.forEach((spot, index) => {
+      const id = `resource-${index + 1}`;
+      resources[id] = {
+        id,
+        type: spot.type,
+        position: spot.position,
+        amount: spot.amount,
+        maxAmount: spot.amount,
+        regrowDelay: spot.regrowDelay,
+        regrowPerSecond: spot.regrowPerSecond,
+        regrowTimer: 0,
+      };
+    });
+    const zones = this.map.objects
+      .filter(object => object.type === MapObjectType.HILL)
+      .map((object, index) => ({
+        id: `zone-${index + 1}`,
+        position: object.position,
+        radius: object.size,
+        ownerId: null,
+        capturingId: null,
+        captureProgress: 0,
+      }));
+
+    this.preview = {
+      players: {},
+      units: {},
+      bases: {},
+      resources,
+      projectiles: {},
+      tick: 0,
+      gameTime: 0,
+      mode: GameMode.ANNIHILATION,
+      scores: {},
+      zones,
+      result: null,
+      mapSize: { width: this.map.width, height: this.map.height },
+      terrain,
+    };
+    return this.preview;
+  }
+
+  // Use the current tool at a world position; painting repeats while the button is held
+  private applyTool(position: Position): void {
+    if (position.x < 0 || position.y < 0 || position.x > this.map.width || position.y > this.map.height) return;
+    const point = { x: Math.round(position.x), y: Math.round(position.y) };
+
+    const paint = PAINT_TOOLS[this.tool];
+    const depositType = this.getDepositType();
+    const objectType = this.getObjectType();
+    if (paint) {
+      fillArea(this.terrain, point, this.brushSize * this.terrain.tileSize, paint);
+    } else if (this.tool === EditorTool.START) {
+      const nearby = this.map.starts.findIndex(start => this.isWithin(start, point, EDITOR_CONFIG.startSpacing));
+      if (nearby >= 0) {
+        this.map.starts[nearby] = point;
+      } else {
+        this.map.starts.push(point);
+      }
+    } else if (depositType) {
+      this.map.resources.push({ type: depositType, position: point, ...this.depositSettings[depositType] });
+    } else if (objectType) {
+      this.map.objects.push({ type: objectType, position: point, size: this.objectSizes[objectType] });
+    } else if (this.tool === EditorTool.ERASE) {
+      this.erase(point);
+    }
+    this.markChanged();
+  }
+
+  // Remove whatever start, deposit or object is nearest the position
+  private erase(position: Position): void {
+    const candidates = [
+      ...this.map.starts.map((start, index) => ({ position: start, remove: () => this.map.starts.splice(index, 1) })),
+      ...this.map.resources.map((spot, index) => ({ position: spot.position, remove: () => this.map.resources.splice(index, 1) })),
+      ...this.map.objects.map((object, index) => ({ position: object.position, remove: () => this.map.objects.splice(index, 1) })),
+    ];
+    const distanceTo = (point: Position) => Math.hypot(point.x - position.x, point.y - position.y);
+    const nearest = candidates
+      .filter(candidate => distanceTo(candidate.position) <= EDITOR_CONFIG.eraseRadius)
+      .sort((a, b) => distanceTo(a.position) - distanceTo(b.position))[0];
+    nearest?.remove();
+  }
+
+  private isWithin(a: Position, b: Position, radius: number): boolean {
+    return Math.hypot(a.x - b.x, a.y - b.y) < radius;
+  }
+
+  // Mouse position in canvas pixels, allowing for the canvas being scaled by CSS
+  private getScreenPosition(event: MouseEvent): Position {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (this.canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (this.canvas.height / rect.height),
+    };
+  }
+
+  // Left button uses the tool, right button drags the view, the wheel zooms and the arrow keys scroll
+  private setupEventListeners(): void {
+    this.canvas.addEventListener('mousedown', (event) => {
+      const screen = this.getScreenPosition(event);
+      if (event.button === 2) {
+        this.panStart = screen;
+        return;
+      }
+      if (event.button !== 0) return;
+      this.isPainting = PAINT_TOOLS[this.tool] !== undefined;
+      this.applyTool(this.camera.screenToWorld(screen));
+    });
+
+    this.canvas.addEventListener('mousemove', (event) => {
+      const screen = this.getScreenPosition(event);
+      this.pointerPosition = screen;
+      if (this.panStart) {
+        this.camera.pan(this.panStart.x - screen.x, this.panStart.y - screen.y);
+        this.panStart = screen;
+      }
+      if (this.isPainting) {
+        this.applyTool(this.camera.screenToWorld(screen));
+      }
+    });
+
+    window.addEventListener('mouseup', () => {
+      this.isPainting = false;
+      this.panStart = null;
+    });
+
+    this.canvas.addEventListener('mouseleave', () => {
+      this.pointerPosition = null;
+    });
+
+    this.canvas.addEventListener('wheel', (event) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? CAMERA_CONFIG.zoomStep : 1 / CAMERA_CONFIG.zoomStep;
+      this.camera.zoomAt(this.getScreenPosition(event), factor);
+    }, { passive: false });
+
+    this.canvas.addEventListener('contextmenu', (event) => {
+      event.preventDefault();
+    });
+
+    window.addEventListener('keydown', (event) => {
+      // Typing in the editor's fields is not scrolling
+      if (event.target instanceof HTMLInputElement) return;
+      if (event.code.startsWith('Arrow')) {
+        event.preventDefault();
+        this.heldKeys.add(event.code);
+      }
+    });
+
+    window.addEventListener('keyup', (event) => {
+      this.heldKeys.delete(event.code);
+    });
+
+    window.addEventListener('blur', () => {
+      this.heldKeys.clear();
+    });
+  }
+
+  private startLoop(): void {
+    const loop = () => {
+      const now = performance.now();
+      const frameTime = this.lastFrameTime ? (now - this.lastFrameTime) / 1000 : 0;
+      this.lastFrameTime = now;
+
+      const keyInput = {
+        x: (this.heldKeys.has('ArrowRight') ? 1 : 0) - (this.heldKeys.has('ArrowLeft') ? 1 : 0),
+        y: (this.heldKeys.has('ArrowDown') ? 1 : 0) - (this.heldKeys.has('ArrowUp') ? 1 : 0),
+      };
+      this.camera.update(frameTime, keyInput, null);
+
+      this.renderer.render(this.getPreview());
+      this.renderer.drawStartMarkers(this.map.starts);
+      if (this.pointerPosition) {
+        const position = this.camera.screenToWorld(this.pointerPosition);
+        const objectType = this.getObjectType();
+        if (PAINT_TOOLS[this.tool]) {
+          this.renderer.drawBrush(position, (this.brushSize + 0.5) * this.terrain.tileSize);
+        } else if (objectType) {
+          const size = this.objectSizes[objectType];
+          this.renderer.drawBrush(position, objectType === MapObjectType.HILL ? size : size / 2);
+        } else if (this.tool === EditorTool.ERASE) {
+          this.renderer.drawBrush(position, EDITOR_CONFIG.eraseRadius);
+        }
+      }
+
+      requestAnimationFrame(loop);
+    };
+    requestAnimationFrame(loop);
+  }
+}
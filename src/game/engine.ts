@@ -1,132 +1,389 @@
 import { v4 as uuidv4 } from 'uuid';
+import { AIPlayer, AISaveData } from './ai';
+import { GameClock, SystemClock } from './clock';
+import { CommandType, GameCommand } from './commands';
+import { GameEventBus, GameEventType } from './events';
+import { SeededRandom, randomSeed } from './random';
+import { findPath, hasLineOfSight } from './pathfinding';
 import {
+  fillArea,
+  fillRect,
+  generateTerrain,
+  isAreaPassable,
+  isPositionPassable,
+} from './terrain';
+import { MAX_UNIT_RADIUS, getUnitRadius, isAirUnit } from './units';
+import { SpatialGrid } from './spatial';
+import { canFactionBuild } from './factions';
+import {
+  BalanceData,
+  DEFAULT_BALANCE,
+  ResourceBalance,
+  WeaponBalance,
+  getRankBonus,
+  getRankForExperience,
+  getUnitModifier,
+} from './balance';
+import { findBaseAt, getTargetRadius, isBase } from './bases';
+import { getFormationPositions } from './formations';
+import { FairnessReport, GeneratedMap, generateMap } from './mapgen';
+import { MapError, MapFile, MapObjectType, analyzeMapFile, createMapTerrain } from './mapfile';
+import { VictoryCondition, createVictoryCondition } from './victory';
+import { PlayerVision, VisionSaveData } from './vision';
+import {
+  ArmorType,
+  AttackTarget,
+  Base,
+  DamageType,
+  FormationSettings,
   GameState,
+  ProductionItem,
   Unit,
   Position,
   Player,
+  Projectile,
   Resource,
   UnitType,
   FactionType,
+  AIDifficulty,
+  GameMode,
+  OrderType,
+  Placement,
   ResourceType,
-  UnitCost
+  TerrainType,
+  UnitCost,
+  UnitOrder,
+  UnitStats,
+  VeterancyRank,
+  VictoryReason
 } from './types';
 
-// Base costs for units
-const BASE_UNIT_COSTS: Record<UnitType, UnitCost> = {
-  [UnitType.SOLDIER]: {
-    [ResourceType.MONEY]: 150,
-  },
-  [UnitType.TANK]: {
-    [ResourceType.MONEY]: 450,
-  },
-  [UnitType.HELICOPTER]: {
-    [ResourceType.MONEY]: 700,
-  },
+// Base placement config; health, armor and turret come from the balance data
+const BASE_CONFIG = {
+  footprint: 60, // Width and height of the impassable building in pixels
+  clearRadius: 80, // Ground around the base that must be free of obstacles
+  minDistance: 200, // Preferred minimum distance between two bases
+  spawnRadius: 55, // New units appear on a ring this far from the base center
+  placementAttempts: 100,
+};
+
+// Weapon and projectile config
+const COMBAT_CONFIG = {
+  splashDamageFactor: 0.5, // Share of a hit's damage dealt to other enemies caught in the splash
 };
 
-// Unit stats
-const UNIT_STATS: Record<UnitType, Omit<Unit, 'id' | 'position' | 'playerId' | 'targetId' | 'path' | 'isDead' | 'isMoving' | 'isAttacking'>> = {
-  [UnitType.SOLDIER]: {
-    type: UnitType.SOLDIER,
-    health: 100,
-    maxHealth: 100,
-    attack: 10,
-    defense: 5,
-    range: 3,
-    speed: 2,
-    canAttackAir: true,
-    canAttackGround: true,
-  },
-  [UnitType.TANK]: {
-    type: UnitType.TANK,
-    health: 300,
-    maxHealth: 300,
-    attack: 30,
-    defense: 20,
-    range: 5,
-    speed: 1.5,
-    canAttackAir: false,
-    canAttackGround: true,
-  },
-  [UnitType.HELICOPTER]: {
-    type: UnitType.HELICOPTER,
-    health: 200,
-    maxHealth: 200,
-    attack: 25,
-    defense: 10,
-    range: 7,
-    speed: 3,
-    canAttackAir: true,
-    canAttackGround: true,
-  },
+// Unit collision and steering config
+const STEERING_CONFIG = {
+  separationStiffness: 0.3, // Share of an overlap resolved per tick
+  avoidanceLookahead: 20, // Extra distance (pixels) at which moving units start steering around others
+  avoidanceStrength: 1.5, // Weight of the avoidance force against the desired direction
 };
 
-// Resource generation config
-const RESOURCE_CONFIG = {
-  respawnTime: 30, // seconds
-  resourceAmount: {
-    [ResourceType.MONEY]: 150,
-  },
-  mapResourceCount: {
-    [ResourceType.MONEY]: 15,
-  },
+// Unit order config
+const ORDER_CONFIG = {
+  detectionRangeFactor: 25, // Idle and attack-moving units pick fights this many pixels per point of range away
+  guardRadius: 150, // Guards fight enemies this close to what they guard
+  guardFollowDistance: 60, // Guards head back once they are further than this from what they guard
 };
 
+// Harvesting config
+const HARVEST_CONFIG = {
+  depositRange: 40, // Gatherers this close to a deposit can work it
+  dropOffRange: BASE_CONFIG.spawnRadius + 25, // Gatherers this close to their base center unload there
+};
+
+// Orders that last until replaced
+const isStandingOrder = (order: UnitOrder): boolean =>
+  order.type === OrderType.PATROL || order.type === OrderType.HOLD_POSITION || order.type === OrderType.GUARD ||
+  order.type === OrderType.HARVEST;
+
+const RESOURCE_TYPES = Object.values(ResourceType);
+
+const distance = (a: Position, b: Position): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Simulation steps per second
+const DEFAULT_TICK_RATE = 60;
+
+// Most steps a single update() may run, so a long pause does not freeze the game
+const MAX_STEPS_PER_UPDATE = 10;
+
+export interface GameEngineOptions {
+  seed?: number; // Same seed and same commands give the same match
+  clock?: GameClock; // Time source used by update()
+  tickRate?: number; // Fixed simulation steps per second
+  mode?: GameMode; // How the match is won (default annihilation)
+  balance?: BalanceData; // Unit stats, costs and economy numbers (default src/data/balance.json)
+  startCount?: number; // Generate a fair map with this many start positions (default random bases and deposits)
+  map?: MapFile; // Play on a saved map instead; it must be the size given to the engine
+}
+
+// Everything needed to carry on a match exactly where it was left; the state still shares
+// unit objects between state.units and Player.units, so save files normalize it
+export interface EngineSaveData {
+  state: GameState;
+  tickRate: number;
+  randomSeed: number;
+  randomState: number;
+  balance: BalanceData;
+  resourceSpots: Position[];
+  startPositions: Position[];
+  mapReport: FairnessReport | null;
+  unitOrder: string[]; // Spatial index contents, in query order
+  ai: AISaveData[];
+  vision: VisionSaveData[];
+  pendingCommands: GameCommand[];
+  commandLog: GameCommand[];
+}
+
 export class GameEngine {
   private state: GameState;
+  private clock: GameClock;
+  private random: SeededRandom;
+  private tickDuration: number;
   private lastUpdateTime: number;
+  private accumulator: number = 0;
   private resourceSpots: Position[] = [];
+  private startPositions: Position[] = []; // Generated starts no player has taken yet
+  private mapReport: FairnessReport | null = null;
+  private mapHills: { position: Position; radius: number }[] = []; // Control zone spots the map was made with
+  private aiPlayers: AIPlayer[] = [];
+  private pendingCommands: GameCommand[] = [];
+  private commandLog: GameCommand[] = [];
+  private unitIndex: SpatialGrid;
+  private victory: VictoryCondition;
+  private balance: BalanceData;
+  private events: GameEventBus = new GameEventBus();
+  private vision: Map<string, PlayerVision> = new Map(); // player id -> fog of war
 
-  constructor(mapWidth: number, mapHeight: number) {
+  constructor(mapWidth: number, mapHeight: number, options: GameEngineOptions = {}) {
+    this.random = new SeededRandom(options.seed ?? randomSeed());
+    this.balance = options.balance ?? DEFAULT_BALANCE;
+    if (options.map && (options.map.width !== mapWidth || options.map.height !== mapHeight)) {
+      throw new MapError(`Map "${options.map.name}" is ${options.map.width}x${options.map.height}, not ${mapWidth}x${mapHeight}`);
+    }
+    const map = !options.map && options.startCount
+      ? generateMap(mapWidth, mapHeight, options.startCount, this.random, this.balance.resources)
+      : null;
     this.state = {
       players: {},
       units: {},
+      bases: {},
       resources: {},
+      projectiles: {},
+      tick: 0,
       gameTime: 0,
+      mode: options.mode ?? GameMode.ANNIHILATION,
+      scores: {},
+      zones: [],
+      result: null,
       mapSize: {
         width: mapWidth,
         height: mapHeight,
       },
+      terrain: options.map
+        ? createMapTerrain(options.map)
+        : map?.terrain ?? generateTerrain(mapWidth, mapHeight, this.random),
     };
-    this.lastUpdateTime = Date.now();
-    this.generateResourceSpots();
+    this.unitIndex = new SpatialGrid(mapWidth, mapHeight);
+    this.clock = options.clock ?? new SystemClock();
+    this.tickDuration = 1 / (options.tickRate ?? DEFAULT_TICK_RATE);
+    this.lastUpdateTime = this.clock.now();
+    this.victory = createVictoryCondition(this.state.mode);
+    this.trackStats();
+    this.mapHills = (options.map?.objects ?? [])
+      .filter(object => object.type === MapObjectType.HILL)
+      .map(object => ({ position: { ...object.position }, radius: object.size }));
+    this.victory.setup(this);
+    if (options.map) {
+      this.placeMapFile(options.map);
+    } else if (map) {
+      this.placeGeneratedMap(map);
+    } else {
+      this.generateResourceSpots();
+    }
+  }
+
+  // Rebuild an engine from saved data; the terrain, zones and resources come from the save
+  public static fromSaveData(data: EngineSaveData, clock?: GameClock): GameEngine {
+    const { width, height } = data.state.mapSize;
+    const engine = new GameEngine(width, height, {
+      seed: data.randomSeed,
+      clock,
+      tickRate: data.tickRate,
+      mode: data.state.mode,
+      balance: data.balance,
+    });
+    engine.state = data.state;
+    engine.random.setState(data.randomState);
+    engine.resourceSpots = data.resourceSpots;
+    engine.startPositions = data.startPositions;
+    engine.mapReport = data.mapReport;
+    engine.unitIndex.rebuild(data.unitOrder.map(unitId => data.state.units[unitId]));
+    engine.aiPlayers = data.ai.map(aiData => {
+      const ai = new AIPlayer(engine, aiData.playerId, data.state.players[aiData.playerId].aiDifficulty!);
+      ai.restoreSaveData(aiData);
+      return ai;
+    });
+    Object.keys(data.state.players).forEach(playerId => {
+      engine.vision.set(playerId, new PlayerVision(playerId, data.state.terrain));
+    });
+    data.vision.forEach(visionData => engine.vision.get(visionData.playerId)?.restoreSaveData(visionData));
+    engine.updateVision();
+    engine.pendingCommands = data.pendingCommands;
+    engine.commandLog = data.commandLog;
+    return engine;
+  }
+
+  // Live match data for a save file; callers copy it before changing anything
+  public getSaveData(): EngineSaveData {
+    return {
+      state: this.state,
+      tickRate: Math.round(1 / this.tickDuration),
+      randomSeed: this.random.getSeed(),
+      randomState: this.random.getState(),
+      balance: this.balance,
+      resourceSpots: this.resourceSpots,
+      startPositions: this.startPositions,
+      mapReport: this.mapReport,
+      unitOrder: this.unitIndex.getUnitIds(),
+      ai: this.aiPlayers.map(ai => ai.getSaveData()),
+      vision: [...this.vision.values()].map(vision => vision.getSaveData()),
+      pendingCommands: this.pendingCommands,
+      commandLog: this.commandLog,
+    };
+  }
+
+  // Subscribe here to hear about deaths, pickups and the end of the match as they happen
+  // Events are not saved or sent over the network; they fire only where the simulation runs
+  public getEvents(): GameEventBus {
+    return this.events;
   }
 
-  // Initialize resource positions
+  // Keep each player's match stats from the events, before any other listener hears them
+  // The only listeners allowed to change the state; they read this.state on every event so a loaded save keeps counting
+  private trackStats(): void {
+    this.events.on(GameEventType.UNIT_CREATED, event => {
+      this.state.players[event.playerId].stats.unitsBuilt++;
+    });
+    this.events.on(GameEventType.UNIT_KILLED, event => {
+      const player = this.state.players[event.playerId];
+      const killer = this.state.players[event.killerPlayerId];
+      if (player) player.stats.unitsLost++;
+      if (killer) killer.stats.unitsKilled++;
+    });
+    this.events.on(GameEventType.RESOURCE_COLLECTED, event => {
+      const { stats } = this.state.players[event.playerId];
+      if (event.resourceType === ResourceType.MONEY) {
+        stats.moneyCollected += event.amount;
+      } else {
+        stats.suppliesCollected += event.amount;
+      }
+    });
+  }
+
+  // Seed driving this match
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  // Seconds of game time covered by one simulation step
+  public getTickDuration(): number {
+    return this.tickDuration;
+  }
+
+  // Numbers the match is played with
+  public getBalance(): BalanceData {
+    return this.balance;
+  }
+
+  // Swap in new numbers mid-match; units already on the map keep the stats they were built with
+  public setBalance(balance: BalanceData): void {
+    this.balance = balance;
+  }
+
+  // How evenly the map treats its starts; null when bases and deposits were placed at random
+  public getMapReport(): FairnessReport | null {
+    return this.mapReport;
+  }
+
+  // Control zone spots a loaded map asks for; empty means the mode picks its own
+  public getMapHills(): { position: Position; radius: number }[] {
+    return this.mapHills;
+  }
+
+  // Random source shared by everything that affects the simulation
+  public getRandom(): SeededRandom {
+    return this.random;
+  }
+
+  // Deterministic entity ID drawn from the seeded random source
+  private generateId(): string {
+    return uuidv4({ random: this.random.bytes(16) });
+  }
+
+  // Initialize resource positions, money first and then supplies
   private generateResourceSpots(): void {
     const { width, height } = this.state.mapSize;
-    const totalSpots = RESOURCE_CONFIG.mapResourceCount[ResourceType.MONEY];
-    
-    // Create resource positions around the map
-    for (let i = 0; i < totalSpots; i++) {
-      const margin = 100; // Keep resources away from edges
-      const position: Position = {
-        x: Math.random() * (width - 2 * margin) + margin,
-        y: Math.random() * (height - 2 * margin) + margin,
-      };
-      this.resourceSpots.push(position);
-    }
+    const area = (width * height) / 1000000;
     
-    // Generate initial resources
-    this.spawnResources();
+    RESOURCE_TYPES.forEach(type => {
+      const totalSpots = Math.max(1, Math.round(this.balance.resources[type].perMillionPixels * area));
+      
+      // Create resource positions around the map, on open ground
+      for (let i = 0; i < totalSpots; i++) {
+        const margin = 100; // Keep resources away from edges
+        let position: Position;
+        let attempts = 0;
+        do {
+          position = {
+            x: this.random.range(margin, width - margin),
+            y: this.random.range(margin, height - margin),
+          };
+          attempts++;
+        } while (!isAreaPassable(this.state.terrain, position, 20) && attempts < 50);
+        this.resourceSpots.push(position);
+        this.spawnResource(type, position);
+      }
+    });
   }
 
-  // Create resources on the map
-  private spawnResources(): void {
-    const moneyCount = RESOURCE_CONFIG.mapResourceCount[ResourceType.MONEY];
-    
-    // Create money resources
-    for (let i = 0; i < moneyCount; i++) {
-      const resource: Resource = {
-        id: uuidv4(),
-        type: ResourceType.MONEY,
-        position: this.resourceSpots[i],
-        amount: RESOURCE_CONFIG.resourceAmount[ResourceType.MONEY],
-        respawnTime: RESOURCE_CONFIG.respawnTime,
-        isCollected: false,
-      };
-      this.state.resources[resource.id] = resource;
-    }
+  // Take the starts and deposits of a generated map; its terrain is already in place
+  private placeGeneratedMap(map: GeneratedMap): void {
+    this.startPositions = map.starts.map(start => ({ ...start }));
+    this.mapReport = map.report;
+    map.deposits.forEach(deposit => {
+      this.resourceSpots.push(deposit.position);
+      this.spawnResource(deposit.type, deposit.position);
+    });
+  }
+
+  // Take the starts, deposits and report of a saved map; its terrain is already in place
+  private placeMapFile(map: MapFile): void {
+    this.startPositions = map.starts.map(start => ({ ...start }));
+    this.mapReport = analyzeMapFile(map);
+    map.resources.forEach(spot => {
+      this.resourceSpots.push({ ...spot.position });
+      this.spawnResource(spot.type, { ...spot.position }, spot);
+    });
+  }
+
+  // Place a full deposit on the map, sized and growing back as the balance data says unless told otherwise
+  private spawnResource(
+    type: ResourceType,
+    position: Position,
+    settings: Pick<ResourceBalance, 'amount' | 'regrowDelay' | 'regrowPerSecond'> = this.balance.resources[type]
+  ): void {
+    const resource: Resource = {
+      id: this.generateId(),
+      type,
+      position,
+      amount: settings.amount,
+      maxAmount: settings.amount,
+      regrowDelay: settings.regrowDelay,
+      regrowPerSecond: settings.regrowPerSecond,
+      regrowTimer: 0,
+    };
+    this.state.resources[resource.id] = resource;
   }
 
   // Get current game state
@@ -134,16 +391,71 @@ export class GameEngine {
     return this.state;
   }
 
-  // Add a player to the game
-  public addPlayer(name: string, faction: FactionType): string {
-    const playerId = uuidv4();
-    const { width, height } = this.state.mapSize;
+  // Living units within a radius of a point
+  public getUnitsInRadius(position: Position, radius: number): Unit[] {
+    return this.unitIndex.queryRadius(position, radius, unit => !unit.isDead);
+  }
+
+  // Living units inside a rectangle
+  public getUnitsInRect(min: Position, max: Position): Unit[] {
+    return this.unitIndex.queryRect(min, max, unit => !unit.isDead);
+  }
+
+  // Closest living unit within a radius that passes the filter
+  public findNearestUnit(position: Position, radius: number, filter?: (unit: Unit) => boolean): Unit | null {
+    return this.unitIndex.findNearest(position, radius, unit => !unit.isDead && (!filter || filter(unit)));
+  }
+
+  // Fog of war of a player: what they see now, have explored and remember of enemy bases
+  public getVision(playerId: string): PlayerVision | null {
+    return this.vision.get(playerId) ?? null;
+  }
+
+  // Whether a player can see a unit or base right now
+  public canSee(playerId: string, target: AttackTarget): boolean {
+    return this.vision.get(playerId)?.canSee(target) ?? false;
+  }
+
+  // Standing base under a point, using its footprint as the hit area
+  public findBaseAt(position: Position, filter?: (base: Base) => boolean): Base | null {
+    return findBaseAt(this.state, position, filter);
+  }
+
+  // Living unit under a point, using each unit's collision radius as its hit area
+  public findUnitAt(position: Position, filter?: (unit: Unit) => boolean): Unit | null {
+    return this.unitIndex.findNearest(position, MAX_UNIT_RADIUS, unit => {
+      if (unit.isDead || (filter && !filter(unit))) return false;
+      const dx = unit.position.x - position.x;
+      const dy = unit.position.y - position.y;
+      return Math.sqrt(dx * dx + dy * dy) <= getUnitRadius(unit.type);
+    });
+  }
+
+  // Add a player to the game (pass a difficulty to make it computer-controlled)
+  public addPlayer(name: string, faction: FactionType, aiDifficulty?: AIDifficulty): string {
+    const playerId = this.generateId();
+    const basePosition = this.takeStartPosition() ?? this.chooseBasePosition();
     
-    // Generate random base position
-    const basePosition: Position = {
-      x: Math.random() * (width - 200) + 100,
-      y: Math.random() * (height - 200) + 100,
+    // Clear the ground around the base and put the building on it
+    if (!isAreaPassable(this.state.terrain, basePosition, BASE_CONFIG.clearRadius)) {
+      fillArea(this.state.terrain, basePosition, BASE_CONFIG.clearRadius, TerrainType.GRASS);
+    }
+    fillRect(this.state.terrain, basePosition, BASE_CONFIG.footprint, BASE_CONFIG.footprint, TerrainType.BUILDING);
+    const base: Base = {
+      id: this.generateId(),
+      playerId,
+      position: basePosition,
+      health: this.balance.base.health,
+      maxHealth: this.balance.base.health,
+      defense: this.balance.base.defense,
+      size: BASE_CONFIG.footprint,
+      sight: this.balance.base.sight,
+      turret: this.balance.base.turret
+        ? { attack: this.balance.base.turret.attack, range: this.balance.base.turret.range, readyTick: 0 }
+        : null,
+      isDestroyed: false,
     };
+    this.state.bases[base.id] = base;
     
     // Generate random color for player
     const playerColors = [
@@ -161,135 +473,852 @@ export class GameEngine {
       name,
       faction,
       resources: {
-        [ResourceType.MONEY]: 800, // Starting money (increased since it's the only resource now)
+        [ResourceType.MONEY]: this.balance.startingMoney,
+        [ResourceType.SUPPLIES]: this.balance.startingSupplies,
       },
       units: [],
+      baseId: base.id,
       basePosition,
+      productionQueue: [],
+      rallyPoint: null,
       color,
+      aiDifficulty,
+      stats: {
+        unitsBuilt: 0,
+        unitsLost: 0,
+        unitsKilled: 0,
+        moneyCollected: 0,
+        suppliesCollected: 0,
+      },
+      eliminatedAt: null,
     };
     
     this.state.players[playerId] = player;
+    this.vision.set(playerId, new PlayerVision(playerId, this.state.terrain));
     
-    // Create initial units for the player
-    this.createUnit(playerId, UnitType.SOLDIER, {
-      x: basePosition.x - 20,
-      y: basePosition.y - 20,
-    });
+    if (aiDifficulty) {
+      this.aiPlayers.push(new AIPlayer(this, playerId, aiDifficulty));
+    }
+    
+    // Create initial units for the player, just outside the building
+    this.createUnit(playerId, UnitType.SOLDIER, this.getSpawnPosition(playerId)!);
+    this.createUnit(playerId, UnitType.SOLDIER, this.getSpawnPosition(playerId)!);
+    this.createUnit(playerId, UnitType.TANK, this.getSpawnPosition(playerId)!);
+    this.updateVision();
     
-    this.createUnit(playerId, UnitType.SOLDIER, {
-      x: basePosition.x + 20,
-      y: basePosition.y - 20,
+    return playerId;
+  }
+
+  // Hand out the generated start furthest from the bases already placed, so a half-full map stays spread out
+  private takeStartPosition(): Position | null {
+    if (this.startPositions.length === 0) return null;
+    const otherBases = Object.values(this.state.players).map(player => player.basePosition);
+    let bestIndex = 0;
+    let bestDistance = -Infinity;
+    this.startPositions.forEach((start, index) => {
+      const nearest = Math.min(...otherBases.map(base => distance(base, start)));
+      if (nearest > bestDistance) {
+        bestDistance = nearest;
+        bestIndex = index;
+      }
     });
+    return this.startPositions.splice(bestIndex, 1)[0];
+  }
+
+  // Find a spot for a new base on open ground, away from other bases and resources
+  private chooseBasePosition(): Position {
+    const { width, height } = this.state.mapSize;
+    const otherBases = Object.values(this.state.players).map(player => player.basePosition);
+    const isFarFrom = (position: Position, others: Position[], minDistance: number) =>
+      others.every(other => Math.hypot(other.x - position.x, other.y - position.y) >= minDistance);
+    
+    let position: Position = { x: width / 2, y: height / 2 };
+    for (let attempt = 0; attempt < BASE_CONFIG.placementAttempts; attempt++) {
+      position = {
+        x: this.random.range(100, width - 100),
+        y: this.random.range(100, height - 100),
+      };
+      if (
+        isAreaPassable(this.state.terrain, position, BASE_CONFIG.clearRadius) &&
+        isFarFrom(position, otherBases, BASE_CONFIG.minDistance) &&
+        isFarFrom(position, this.resourceSpots, BASE_CONFIG.clearRadius) &&
+        this.state.zones.every(zone => isFarFrom(position, [zone.position], zone.radius + BASE_CONFIG.clearRadius))
+      ) {
+        break;
+      }
+    }
+    
+    return position;
+  }
+
+  // Get the current price of a unit for a player
+  // Returns null if the player's faction cannot build the unit
+  public getUnitCost(playerId: string, unitType: UnitType): UnitCost | null {
+    const player = this.state.players[playerId];
+    if (!player || !canFactionBuild(player.faction, unitType)) return null;
     
-    this.createUnit(playerId, UnitType.TANK, {
-      x: basePosition.x,
-      y: basePosition.y + 20,
+    // Calculate cost scaling based on number of units, counting those still in production
+    const owned = player.units.length + player.productionQueue.length;
+    const scalingFactor = 1 + owned * this.balance.costScalingPerUnit;
+    const factionFactor = getUnitModifier(this.balance, player.faction, unitType).cost;
+    const { cost, supplyCost } = this.balance.units[unitType];
+    return {
+      [ResourceType.MONEY]: Math.floor(cost * factionFactor * scalingFactor),
+      [ResourceType.SUPPLIES]: Math.floor(supplyCost * factionFactor * scalingFactor),
+    };
+  }
+
+  // Whether a player has enough of every resource a cost asks for
+  public canAfford(playerId: string, cost: UnitCost): boolean {
+    const player = this.state.players[playerId];
+    return !!player && RESOURCE_TYPES.every(type => player.resources[type] >= cost[type]);
+  }
+
+  // Add a cost to a player's resources, negated to take it away
+  private addResources(player: Player, cost: UnitCost, sign: 1 | -1): void {
+    RESOURCE_TYPES.forEach(type => {
+      player.resources[type] += cost[type] * sign;
     });
+  }
+
+  // Stats a player's units of a type are built with, after faction modifiers
+  public getUnitStats(playerId: string, unitType: UnitType): UnitStats | null {
+    const player = this.state.players[playerId];
+    if (!player || !canFactionBuild(player.faction, unitType)) return null;
     
-    return playerId;
+    const baseStats = this.balance.units[unitType];
+    const modifier = getUnitModifier(this.balance, player.faction, unitType);
+    const health = Math.round(baseStats.health * modifier.health);
+    return {
+      type: unitType,
+      health,
+      maxHealth: health,
+      attack: baseStats.attack * modifier.attack,
+      defense: baseStats.defense * modifier.defense,
+      range: baseStats.range * modifier.range,
+      sight: baseStats.sight,
+      speed: baseStats.speed * modifier.speed,
+      carryCapacity: baseStats.carryCapacity,
+      canAttackAir: baseStats.canAttackAir,
+      canAttackGround: baseStats.canAttackGround,
+    };
   }
 
-  // Create a new unit for a player
+  // Whether a player's base is still standing, and so can build units
+  public hasBase(playerId: string): boolean {
+    const player = this.state.players[playerId];
+    return !!player && !this.state.bases[player.baseId].isDestroyed;
+  }
+
+  // Pick a spot next to a player's base for a new unit
+  // Returns null once the base has been destroyed
+  public getSpawnPosition(playerId: string): Position | null {
+    const player = this.state.players[playerId];
+    if (!player || !this.hasBase(playerId)) return null;
+    
+    // Try a few spots on the ring around the building before settling
+    let position: Position = player.basePosition;
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const angle = this.random.range(0, Math.PI * 2);
+      const radius = BASE_CONFIG.spawnRadius + this.random.range(0, 20);
+      position = {
+        x: player.basePosition.x + Math.cos(angle) * radius,
+        y: player.basePosition.y + Math.sin(angle) * radius,
+      };
+      if (isPositionPassable(this.state.terrain, position)) break;
+    }
+    return position;
+  }
+
+  // Buy a unit and place it straight away, skipping the production queue
   public createUnit(playerId: string, unitType: UnitType, position: Position): string | null {
     const player = this.state.players[playerId];
-    if (!player) return null;
+    const unitCost = this.getUnitCost(playerId, unitType);
+    if (!player || !unitCost) return null;
     
-    // Calculate cost scaling based on number of units
-    const scalingFactor = 1 + (player.units.length * 0.1); // 10% increase per unit
-    const unitCost = {
-      [ResourceType.MONEY]: Math.floor(BASE_UNIT_COSTS[unitType][ResourceType.MONEY] * scalingFactor),
-    };
+    // Nothing can be built without a base
+    if (!this.hasBase(playerId)) return null;
     
     // Check if player has enough resources
-    if (
-      player.resources[ResourceType.MONEY] < unitCost[ResourceType.MONEY]
-    ) {
+    if (!this.canAfford(playerId, unitCost)) {
       return null; // Not enough resources
     }
     
     // Deduct resources
-    player.resources[ResourceType.MONEY] -= unitCost[ResourceType.MONEY];
+    this.addResources(player, unitCost, -1);
+    return this.spawnUnit(playerId, unitType, position);
+  }
+
+  // Pay for a unit and add it to the end of a player's production queue
+  // Returns the queue item id, or null if the unit cannot be bought right now
+  public queueUnit(playerId: string, unitType: UnitType): string | null {
+    const player = this.state.players[playerId];
+    const unitCost = this.getUnitCost(playerId, unitType);
+    if (!player || !unitCost || !this.hasBase(playerId)) return null;
+    if (player.productionQueue.length >= this.balance.maxQueueLength) return null;
+    
+    if (!this.canAfford(playerId, unitCost)) return null;
+    
+    this.addResources(player, unitCost, -1);
+    const item: ProductionItem = {
+      id: this.generateId(),
+      unitType,
+      cost: unitCost,
+      buildTime: this.balance.units[unitType].buildTime,
+      progress: 0,
+    };
+    player.productionQueue.push(item);
+    return item.id;
+  }
+
+  // Remove an item from a player's queue and give back what it cost
+  public cancelProduction(playerId: string, itemId: string): boolean {
+    const player = this.state.players[playerId];
+    const item = player?.productionQueue.find(queued => queued.id === itemId);
+    if (!player || !item) return false;
+    
+    player.productionQueue = player.productionQueue.filter(queued => queued !== item);
+    this.addResources(player, item.cost, 1);
+    return true;
+  }
+
+  // Set where a player's new units go once built, kept inside the map; null keeps them at the base
+  public setRallyPoint(playerId: string, position: Position | null): void {
+    const player = this.state.players[playerId];
+    if (!player) return;
+    
+    const { width, height } = this.state.mapSize;
+    player.rallyPoint = position && {
+      x: Math.max(0, Math.min(width, position.x)),
+      y: Math.max(0, Math.min(height, position.y)),
+    };
+  }
+
+  // Put a new unit on the map without charging for it
+  private spawnUnit(playerId: string, unitType: UnitType, position: Position): string | null {
+    const player = this.state.players[playerId];
+    const unitStats = this.getUnitStats(playerId, unitType);
+    if (!player || !unitStats) return null;
     
     // Create unit
-    const unitId = uuidv4();
-    const unitStats = UNIT_STATS[unitType];
+    const unitId = this.generateId();
     
     const unit: Unit = {
       id: unitId,
       ...unitStats,
       position,
       playerId,
+      cargo: null,
+      orders: [],
       isDead: false,
       isMoving: false,
       isAttacking: false,
+      weaponReadyTick: 0,
+      damageDealt: 0,
+      kills: 0,
+      experience: 0,
+      rank: VeterancyRank.ROOKIE,
     };
     
     this.state.units[unitId] = unit;
+    this.unitIndex.insert(unit);
     player.units.push(unit);
+    this.events.emit({
+      type: GameEventType.UNIT_CREATED,
+      tick: this.state.tick,
+      unitId,
+      unitType,
+      playerId,
+      position: { ...position },
+    });
     
     return unitId;
   }
 
-  // Move a unit to a new position
+  // Move a unit to a new position, dropping its other orders
   public moveUnit(unitId: string, targetPosition: Position): boolean {
+    return this.orderUnit(unitId, { type: OrderType.MOVE, position: targetPosition });
+  }
+
+  // Command a unit to attack an enemy unit or base, dropping its other orders
+  public attackUnit(attackerId: string, targetId: string): boolean {
+    return this.orderUnit(attackerId, { type: OrderType.ATTACK, targetId });
+  }
+
+  // Give a unit an order in place of the ones it has, or after them when queued
+  // Returns false if the order makes no sense for the unit, or cannot be started when it is not queued
+  public orderUnit(unitId: string, request: Omit<UnitOrder, 'isStarted'>, queued: boolean = false): boolean {
     const unit = this.state.units[unitId];
     if (!unit || unit.isDead) return false;
     
-    // Calculate path (simple direct path for now)
-    unit.path = [targetPosition];
-    unit.isMoving = true;
-    unit.isAttacking = false;
-    unit.targetId = undefined;
+    const needsPosition = request.type === OrderType.MOVE || request.type === OrderType.ATTACK_MOVE ||
+      request.type === OrderType.PATROL || (request.type === OrderType.GUARD && !request.targetId);
+    if (needsPosition && !request.position) return false;
+    
+    if (request.type === OrderType.ATTACK) {
+      const target = request.targetId ? this.getTarget(request.targetId) : null;
+      if (!target || !this.canEngage(unit, target)) return false;
+    }
+    if (request.type === OrderType.GUARD && request.targetId) {
+      const guarded = this.state.units[request.targetId];
+      if (!guarded || guarded.isDead || guarded === unit || guarded.playerId !== unit.playerId) return false;
+    }
+    if (request.type === OrderType.HARVEST) {
+      if (unit.carryCapacity <= 0 || !request.targetId || !this.state.resources[request.targetId]) return false;
+    }
+    
+    const order: UnitOrder = {
+      type: request.type,
+      position: request.position && { ...request.position },
+      targetId: request.targetId,
+      groupSpeed: request.groupSpeed,
+      isStarted: false,
+    };
+    if (!queued) {
+      this.haltUnit(unit);
+      unit.orders = [];
+    }
+    this.queueOrder(unit, order);
+    
+    // Start straight away if there was nothing ahead of it
+    this.updateOrders(unit);
+    return queued || unit.orders[0] === order;
+  }
+
+  // Drop every order a unit has and stop it where it is
+  public stopUnit(unitId: string): boolean {
+    const unit = this.state.units[unitId];
+    if (!unit || unit.isDead) return false;
     
+    this.haltUnit(unit);
+    unit.orders = [];
     return true;
   }
 
-  // Command a unit to attack an enemy unit
-  public attackUnit(attackerId: string, targetId: string): boolean {
-    const attacker = this.state.units[attackerId];
-    const target = this.state.units[targetId];
+  // Add an order to the back of a unit's queue
+  // Hold, guard and patrol never finish by themselves, so anything but another patrol point replaces them
+  private queueOrder(unit: Unit, order: UnitOrder): void {
+    const orders = unit.orders;
+    const patrolling = orders.length > 0 && orders[orders.length - 1].type === OrderType.PATROL;
+    if (order.type === OrderType.PATROL && patrolling) {
+      orders.push(order);
+      return;
+    }
     
-    if (
-      !attacker || 
-      !target || 
-      attacker.isDead || 
-      target.isDead || 
-      attacker.playerId === target.playerId
-    ) {
+    while (orders.length > 0 && isStandingOrder(orders[orders.length - 1])) {
+      orders.pop();
+    }
+    
+    // A new patrol runs between the point and wherever the unit would otherwise have ended up
+    if (order.type === OrderType.PATROL) {
+      const start = [...orders].reverse().find(queued => queued.position)?.position ?? unit.position;
+      orders.push(order, { type: OrderType.PATROL, position: { ...start }, groupSpeed: order.groupSpeed, isStarted: false });
+      return;
+    }
+    orders.push(order);
+  }
+
+  // Carry out a unit's front order, moving on to the next ones as they are done
+  // Each order is looked at most once per call, so a patrol whose points cannot be reached does not spin
+  private updateOrders(unit: Unit): void {
+    let remaining = unit.orders.length;
+    while (unit.orders.length > 0 && remaining > 0) {
+      remaining--;
+      if (!this.carryOutOrder(unit, unit.orders[0])) return;
+      
+      // Patrol points go round to the back of the loop
+      const order = unit.orders.shift()!;
+      if (order.type === OrderType.PATROL) {
+        unit.orders.push({ ...order, isStarted: false });
+      }
+    }
+  }
+
+  // Advance a unit's front order by one tick; returns true once the order is done
+  private carryOutOrder(unit: Unit, order: UnitOrder): boolean {
+    switch (order.type) {
+      case OrderType.MOVE:
+        if (!order.isStarted) {
+          order.isStarted = true;
+          return !this.startMove(unit, order.position!);
+        }
+        return !unit.isMoving;
+        
+      case OrderType.ATTACK: {
+        if (!order.isStarted) {
+          order.isStarted = true;
+          const target = this.getTarget(order.targetId!);
+          return !target || !this.startAttack(unit, target);
+        }
+        return !unit.isAttacking;
+      }
+      
+      case OrderType.ATTACK_MOVE:
+      case OrderType.PATROL: {
+        // Finish any fight picked up on the way, then set off again from wherever it ended
+        if (unit.isAttacking) return false;
+        const enemy = this.findEnemyNear(unit, unit.position, unit.range * ORDER_CONFIG.detectionRangeFactor);
+        if (enemy && this.startAttack(unit, enemy)) {
+          order.isStarted = false;
+          return false;
+        }
+        if (!order.isStarted) {
+          order.isStarted = true;
+          return !this.startMove(unit, order.position!);
+        }
+        return !unit.isMoving;
+      }
+      
+      case OrderType.HOLD_POSITION: {
+        if (!order.isStarted) {
+          order.isStarted = true;
+          this.haltUnit(unit);
+        }
+        // Only targets already in weapon range; the combat update drops any that get away
+        if (!unit.isAttacking) {
+          const enemy = this.findEnemyNear(unit, unit.position, unit.range * 20);
+          if (enemy) this.startAttack(unit, enemy);
+        }
+        return false;
+      }
+      
+      case OrderType.GUARD:
+        return this.guard(unit, order);
+        
+      case OrderType.HARVEST:
+        return this.harvest(unit, order);
+    }
+  }
+
+  // Keep a unit near what it guards, fighting off enemies that come close to it
+  // Returns true once the guarded unit is gone
+  private guard(unit: Unit, order: UnitOrder): boolean {
+    let post = order.position!;
+    if (order.targetId) {
+      const guarded = this.state.units[order.targetId];
+      if (!guarded || guarded.isDead) return true;
+      post = guarded.position;
+    }
+    
+    // Chase attackers no further than the guard radius from the post
+    if (unit.isAttacking) {
+      const target = unit.targetId ? this.getTarget(unit.targetId) : null;
+      if (target && distance(target.position, post) <= ORDER_CONFIG.guardRadius + getTargetRadius(target)) {
+        return false;
+      }
+      this.haltUnit(unit);
+    }
+    
+    const enemy = this.findEnemyNear(unit, post, ORDER_CONFIG.guardRadius);
+    if (enemy && this.startAttack(unit, enemy)) {
+      order.isStarted = false;
       return false;
     }
     
-    // Check if this unit can attack the target type
-    if (!this.canUnitAttackTarget(attacker, target)) {
+    // Walk back to the post, re-planning when a guarded unit has moved on from where we were heading
+    if (distance(unit.position, post) <= ORDER_CONFIG.guardFollowDistance) return false;
+    const postMoved = order.targetId !== undefined &&
+      (!order.position || distance(order.position, post) > ORDER_CONFIG.guardFollowDistance);
+    if (!order.isStarted || postMoved) {
+      order.isStarted = true;
+      if (order.targetId) {
+        order.position = { ...post };
+      }
+      this.startMove(unit, post);
+    }
+    return false;
+  }
+
+  // Run a gatherer between a deposit and its base: fill up, carry the load home and go back for more
+  // Returns true once there is no base to unload at, or no deposit of the kind left to work
+  private harvest(unit: Unit, order: UnitOrder): boolean {
+    if (!this.hasBase(unit.playerId)) return true;
+    
+    // An empty-handed gatherer at a dry deposit moves on to the nearest one of the same kind
+    let deposit = this.state.resources[order.targetId!];
+    const carried = unit.cargo?.amount ?? 0;
+    if (deposit.amount <= 0 && carried === 0) {
+      const next = this.findDeposit(unit.playerId, deposit.type, unit.position);
+      if (!next) return true;
+      deposit = next;
+      order.targetId = next.id;
+      order.isStarted = false;
+    }
+    
+    // Take home a full load, the last of a dry deposit, or a load of another kind picked up before
+    const isHeadingHome = carried >= unit.carryCapacity || (carried > 0 && deposit.amount <= 0) ||
+      (unit.cargo !== null && unit.cargo.type !== deposit.type);
+    if (isHeadingHome) {
+      const basePosition = this.state.players[unit.playerId].basePosition;
+      if (distance(unit.position, basePosition) > HARVEST_CONFIG.dropOffRange) {
+        return this.travelTo(unit, order, this.getDropOffPoint(unit, basePosition));
+      }
+      this.unloadCargo(unit, deposit.id);
+      order.isStarted = false;
       return false;
     }
     
-    attacker.targetId = targetId;
-    attacker.isAttacking = true;
+    if (distance(unit.position, deposit.position) > HARVEST_CONFIG.depositRange) {
+      return this.travelTo(unit, order, deposit.position);
+    }
+    
+    // Fill up a little each tick; the deposit only starts growing back once it is left alone
+    if (unit.isMoving) this.haltUnit(unit);
+    const balance = this.balance.resources[deposit.type];
+    const taken = Math.min(balance.harvestPerSecond * this.tickDuration, deposit.amount, unit.carryCapacity - carried);
+    deposit.amount -= taken;
+    deposit.regrowTimer = deposit.regrowDelay;
+    unit.cargo = { type: deposit.type, amount: carried + taken };
+    if (deposit.amount <= 0) {
+      this.events.emit({
+        type: GameEventType.RESOURCE_DEPLETED,
+        tick: this.state.tick,
+        resourceId: deposit.id,
+        resourceType: deposit.type,
+        position: { ...deposit.position },
+      });
+    }
+    if (unit.cargo.amount >= unit.carryCapacity || deposit.amount <= 0) {
+      order.isStarted = false;
+    }
+    return false;
+  }
+
+  // One leg of a harvest trip; sets off once, and again if the unit stopped short of where it was going
+  // Returns true when there is no way there
+  private travelTo(unit: Unit, order: UnitOrder, position: Position): boolean {
+    if (order.isStarted && unit.isMoving) return false;
+    
+    order.isStarted = true;
+    return !this.startMove(unit, position);
+  }
+
+  // Nearest deposit of a kind that still has something in it, on ground the player has explored
+  private findDeposit(playerId: string, type: ResourceType, position: Position): Resource | null {
+    const vision = this.vision.get(playerId);
+    let nearest: Resource | null = null;
+    let nearestDistance = Infinity;
+    Object.values(this.state.resources).forEach(resource => {
+      if (resource.type !== type || resource.amount <= 0) return;
+      if (vision && !vision.isExplored(resource.position)) return;
+      const resourceDistance = distance(position, resource.position);
+      if (resourceDistance < nearestDistance) {
+        nearest = resource;
+        nearestDistance = resourceDistance;
+      }
+    });
+    return nearest;
+  }
+
+  // The edge of the base facing a gatherer, where it walks to unload
+  private getDropOffPoint(unit: Unit, basePosition: Position): Position {
+    const angle = Math.atan2(unit.position.y - basePosition.y, unit.position.x - basePosition.x);
+    return {
+      x: basePosition.x + Math.cos(angle) * BASE_CONFIG.spawnRadius,
+      y: basePosition.y + Math.sin(angle) * BASE_CONFIG.spawnRadius,
+    };
+  }
+
+  // Hand a gatherer's load over to its player
+  private unloadCargo(unit: Unit, resourceId: string): void {
+    const cargo = unit.cargo;
+    if (!cargo) return;
+    
+    const player = this.state.players[unit.playerId];
+    const amount = Math.round(cargo.amount);
+    player.resources[cargo.type] += amount;
+    unit.cargo = null;
+    this.events.emit({
+      type: GameEventType.RESOURCE_COLLECTED,
+      tick: this.state.tick,
+      resourceId,
+      resourceType: cargo.type,
+      playerId: player.id,
+      amount,
+      position: { ...unit.position },
+    });
+  }
+
+  // Set a unit walking to a point
+  private startMove(unit: Unit, targetPosition: Position): boolean {
+    // Helicopters fly straight, ground units path around obstacles
+    const path = isAirUnit(unit)
+      ? [{ ...targetPosition }]
+      : findPath(this.state.terrain, unit.position, targetPosition);
+    if (path.length === 0) return false;
+    
+    unit.path = path;
+    unit.isMoving = true;
+    unit.isAttacking = false;
+    unit.targetId = undefined;
     
     return true;
   }
 
-  // Update the game state (called on each frame)
+  // Set a unit on a target; moving to get in range is part of attacking
+  private startAttack(unit: Unit, target: AttackTarget): boolean {
+    if (!this.canEngage(unit, target)) return false;
+    
+    unit.targetId = target.id;
+    unit.isAttacking = true;
+    unit.isMoving = false;
+    unit.path = undefined;
+    
+    return true;
+  }
+
+  // Stop a unit moving and attacking, leaving its orders alone
+  private haltUnit(unit: Unit): void {
+    unit.isMoving = false;
+    unit.isAttacking = false;
+    unit.targetId = undefined;
+    unit.path = undefined;
+  }
+
+  // Whether a unit may go after a target: an enemy of a kind its weapon can hit, in sight of its player
+  // Bases stay where they were last seen, so remembering one is enough
+  private canEngage(unit: Unit, target: AttackTarget): boolean {
+    if (unit.playerId === target.playerId || !this.canUnitAttackTarget(unit, target)) return false;
+    
+    const vision = this.vision.get(unit.playerId);
+    return !!vision && (isBase(target) ? vision.hasSeen(target) : vision.canSee(target));
+  }
+
+  // Queue a player command; it is applied at the start of its tick
+  // Commands stamped for a tick that has already run are applied on the next one
+  public submitCommand(command: GameCommand): void {
+    const tick = Math.max(command.tick, this.state.tick + 1);
+    const queued = { ...command, tick };
+    
+    // Keep the queue ordered by tick, preserving submission order within a tick
+    const index = this.pendingCommands.findIndex(pending => pending.tick > tick);
+    if (index === -1) {
+      this.pendingCommands.push(queued);
+    } else {
+      this.pendingCommands.splice(index, 0, queued);
+    }
+  }
+
+  // Every command applied so far, in order
+  public getCommandLog(): GameCommand[] {
+    return this.commandLog;
+  }
+
+  // Apply the queued commands that are due this tick
+  private applyPendingCommands(): void {
+    while (this.pendingCommands.length > 0 && this.pendingCommands[0].tick <= this.state.tick) {
+      const command = this.pendingCommands.shift()!;
+      this.applyCommand(command);
+      this.commandLog.push(command);
+    }
+  }
+
+  // Carry out a single command for the player who issued it
+  private applyCommand(command: GameCommand): void {
+    const player = this.state.players[command.playerId];
+    if (!player) return;
+    
+    switch (command.type) {
+      case CommandType.MOVE:
+        this.orderUnitsInFormation(
+          this.getOwnedUnitIds(player, command.unitIds), OrderType.MOVE, command.target, command.formation, command.queued
+        );
+        break;
+        
+      case CommandType.ATTACK:
+        this.getOwnedUnitIds(player, command.unitIds).forEach(unitId => {
+          this.orderUnit(unitId, { type: OrderType.ATTACK, targetId: command.targetId }, command.queued);
+        });
+        break;
+        
+      case CommandType.ATTACK_MOVE:
+        this.orderUnitsInFormation(
+          this.getOwnedUnitIds(player, command.unitIds), OrderType.ATTACK_MOVE, command.target, command.formation,
+          command.queued
+        );
+        break;
+        
+      case CommandType.PATROL:
+        this.orderUnitsInFormation(
+          this.getOwnedUnitIds(player, command.unitIds), OrderType.PATROL, command.target, command.formation,
+          command.queued
+        );
+        break;
+        
+      case CommandType.HOLD_POSITION:
+        this.getOwnedUnitIds(player, command.unitIds).forEach(unitId => {
+          this.orderUnit(unitId, { type: OrderType.HOLD_POSITION }, command.queued);
+        });
+        break;
+        
+      case CommandType.GUARD: {
+        const unitIds = this.getOwnedUnitIds(player, command.unitIds);
+        const guardedId = command.guardedId;
+        if (guardedId) {
+          unitIds.forEach(unitId => {
+            this.orderUnit(unitId, { type: OrderType.GUARD, targetId: guardedId }, command.queued);
+          });
+        } else {
+          this.orderUnitsInFormation(unitIds, OrderType.GUARD, command.target, command.formation, command.queued);
+        }
+        break;
+      }
+        
+      case CommandType.HARVEST:
+        this.getOwnedUnitIds(player, command.unitIds).forEach(unitId => {
+          this.orderUnit(unitId, { type: OrderType.HARVEST, targetId: command.resourceId }, command.queued);
+        });
+        break;
+        
+      case CommandType.STOP:
+        this.getOwnedUnitIds(player, command.unitIds).forEach(unitId => {
+          this.stopUnit(unitId);
+        });
+        break;
+        
+      case CommandType.CREATE_UNIT:
+        this.queueUnit(player.id, command.unitType);
+        break;
+        
+      case CommandType.CANCEL_PRODUCTION:
+        this.cancelProduction(player.id, command.itemId);
+        break;
+        
+      case CommandType.SET_RALLY_POINT:
+        this.setRallyPoint(player.id, command.position);
+        break;
+    }
+  }
+
+  // Players may only order their own units around
+  private getOwnedUnitIds(player: Player, unitIds: string[]): string[] {
+    return unitIds.filter(unitId => this.state.units[unitId]?.playerId === player.id);
+  }
+
+  // Send units to a point, lined up in formation around it
+  // Queued orders are laid out from where the units will be once their other orders are done
+  private orderUnitsInFormation(
+    unitIds: string[],
+    type: OrderType,
+    targetPos: Position,
+    formation: FormationSettings,
+    queued: boolean
+  ): void {
+    const units = unitIds.map(unitId => this.state.units[unitId]).filter(unit => unit && !unit.isDead);
+    const members = units.map(unit => ({
+      id: unit.id,
+      type: unit.type,
+      position: (queued && [...unit.orders].reverse().find(order => order.position)?.position) || unit.position,
+    }));
+    const positions = getFormationPositions(members, targetPos, formation.shape, formation.facing);
+    const groupSpeed = formation.keepTogether && units.length > 1
+      ? Math.min(...units.map(unit => unit.speed))
+      : undefined;
+    
+    units.forEach(unit => {
+      this.orderUnit(unit.id, { type, position: positions.get(unit.id), groupSpeed }, queued);
+    });
+  }
+
+  // Update the game state from the clock (called on each frame)
+  // Runs as many fixed steps as the elapsed time covers
   public update(): void {
-    const currentTime = Date.now();
-    const deltaTime = (currentTime - this.lastUpdateTime) / 1000; // Convert to seconds
+    const currentTime = this.clock.now();
+    this.accumulator += (currentTime - this.lastUpdateTime) / 1000; // Convert to seconds
     this.lastUpdateTime = currentTime;
     
-    this.state.gameTime += deltaTime;
+    let steps = 0;
+    while (this.accumulator >= this.tickDuration && steps < MAX_STEPS_PER_UPDATE) {
+      this.accumulator -= this.tickDuration;
+      this.simulateTick();
+      steps++;
+    }
+    
+    // Drop time we could not catch up on instead of spiralling
+    if (steps === MAX_STEPS_PER_UPDATE) {
+      this.accumulator = 0;
+    }
+  }
+
+  // Advance the simulation by an explicit number of fixed steps, ignoring the clock
+  public step(ticks: number = 1): void {
+    for (let i = 0; i < ticks; i++) {
+      this.simulateTick();
+    }
+  }
+
+  // Run a single fixed simulation step
+  // Does nothing once the match has a result
+  private simulateTick(): void {
+    if (this.state.result) return;
+    const deltaTime = this.tickDuration;
+    
+    this.state.tick++;
+    this.state.gameTime = this.state.tick * deltaTime;
+    
+    this.updateVision();
+    this.applyPendingCommands();
     
+    // Let computer players issue their orders
+    this.aiPlayers.forEach(ai => ai.update(deltaTime));
+    
+    this.updateProduction(deltaTime);
     this.updateUnits(deltaTime);
+    this.updateBases();
+    this.updateProjectiles(deltaTime);
+    this.applySeparation();
     this.updateResources(deltaTime);
-    this.collectResources();
+    
+    this.victory.update(this, deltaTime);
+    this.checkGameOver();
+  }
+
+  // Work out what every player can see from where their units stand at the start of the tick
+  private updateVision(): void {
+    this.vision.forEach(vision => vision.update(this.state));
+  }
+
+  // Build the front item of every queue and send finished units to the rally point
+  private updateProduction(deltaTime: number): void {
+    Object.values(this.state.players).forEach(player => {
+      // A destroyed base takes its queue with it; the money comes back
+      if (!this.hasBase(player.id)) {
+        player.productionQueue.forEach(item => {
+          this.addResources(player, item.cost, 1);
+        });
+        player.productionQueue = [];
+        return;
+      }
+      
+      const item = player.productionQueue[0];
+      if (!item) return;
+      item.progress = Math.min(item.buildTime, item.progress + deltaTime);
+      if (item.progress < item.buildTime) return;
+      
+      player.productionQueue.shift();
+      const unitId = this.spawnUnit(player.id, item.unitType, this.getSpawnPosition(player.id)!);
+      if (unitId && player.rallyPoint) {
+        this.moveUnit(unitId, player.rallyPoint);
+      }
+    });
   }
 
   // Update all units (movement, combat, etc.)
   private updateUnits(deltaTime: number): void {
+    const { tick } = this.state;
+    const repairing = tick % Math.round(1 / this.tickDuration) === 0; // Veterans patch themselves up once a second
     Object.values(this.state.units).forEach(unit => {
       if (unit.isDead) return;
       
-      // First check if the unit should auto-acquire a target
-      this.checkForAutoTarget(unit);
+      if (repairing) {
+        this.repairUnit(unit);
+      }
+      
+      // Work through the unit's orders; idle units pick their own fights
+      this.updateOrders(unit);
+      if (unit.orders.length === 0) {
+        this.checkForAutoTarget(unit);
+      }
       
       // Handle movement
       if (unit.isMoving && unit.path && unit.path.length > 0) {
@@ -300,27 +1329,30 @@ export class GameEngine {
         const dy = targetPos.y - unit.position.y;
         const distance = Math.sqrt(dx * dx + dy * dy);
         
-        if (distance < 1) {
-          // Reached destination
+        // Intermediate waypoints only need to be passed close by, so groups don't queue for them
+        const arrivalDistance = unit.path.length > 1 ? getUnitRadius(unit.type) : 1;
+        
+        if (distance < arrivalDistance || this.isDestinationTaken(unit, targetPos, distance)) {
+          // Reached waypoint (or as close as the units already standing there allow)
           unit.path.shift();
           if (unit.path.length === 0) {
             unit.isMoving = false;
           }
         } else {
-          // Move towards destination
-          const moveDistance = unit.speed * deltaTime * 60;
-          const ratio = Math.min(moveDistance / distance, 1);
-          
-          unit.position.x += dx * ratio;
-          unit.position.y += dy * ratio;
+          // Move towards destination, re-planning if we got pushed off the path
+          const movedFreely = this.moveTowards(unit, targetPos, deltaTime, this.getTravelSpeed(unit));
+          if (!movedFreely && !hasLineOfSight(this.state.terrain, unit.position, targetPos)) {
+            unit.path = findPath(this.state.terrain, unit.position, unit.path[unit.path.length - 1]);
+          }
         }
       }
       
       // Handle combat
       if (unit.isAttacking && unit.targetId) {
-        const target = this.state.units[unit.targetId];
+        const target = this.getTarget(unit.targetId);
         
-        if (!target || target.isDead) {
+        // Enemy units that slip out of sight are lost; bases cannot move away
+        if (!target || (!isBase(target) && !this.canSee(unit.playerId, target))) {
           unit.isAttacking = false;
           unit.targetId = undefined;
           return;
@@ -339,83 +1371,453 @@ export class GameEngine {
         const dy = target.position.y - unit.position.y;
         const distance = Math.sqrt(dx * dx + dy * dy);
         
-        if (distance <= unit.range * 20) { // Range in game units
-          // Within attack range, deal damage
-          // Attack every second
-          if (Math.floor(this.state.gameTime) > Math.floor(this.state.gameTime - deltaTime)) {
-            const damage = Math.max(1, unit.attack - target.defense / 2);
-            target.health -= damage;
-            
-            if (target.health <= 0) {
-              target.health = 0;
-              target.isDead = true;
-              
-              // Remove dead unit from player's units array
-              const player = this.state.players[target.playerId];
-              if (player) {
-                player.units = player.units.filter(u => u.id !== target.id);
-              }
-            }
+        if (distance <= unit.range * 20 + getTargetRadius(target)) { // Range in game units, to the edge of a base
+          // Within attack range, fire whenever the weapon has reloaded
+          if (tick >= unit.weaponReadyTick) {
+            const weapon = this.balance.units[unit.type].weapon;
+            this.fireWeapon(unit, target, unit.attack, weapon);
+            unit.weaponReadyTick = tick + this.getCooldownTicks(weapon);
           }
+        } else if (unit.orders[0]?.type === OrderType.HOLD_POSITION) {
+          // Units holding position let targets go rather than chase them
+          unit.isAttacking = false;
+          unit.targetId = undefined;
         } else {
           // Move towards target to get in range
-          const moveDistance = unit.speed * deltaTime * 60;
-          const ratio = Math.min(moveDistance / distance, 1);
-          
-          unit.position.x += dx * ratio;
-          unit.position.y += dy * ratio;
+          this.moveTowards(unit, this.getChaseWaypoint(unit, target), deltaTime);
         }
       }
     });
   }
 
-  // Check if a unit should automatically acquire a target
-  private checkForAutoTarget(unit: Unit): void {
-    // Only look for targets if not already attacking or moving
-    if (unit.isAttacking || unit.isMoving) {
+  // Living unit or standing base with this id
+  private getTarget(targetId: string): AttackTarget | null {
+    const unit = this.state.units[targetId];
+    if (unit) return unit.isDead ? null : unit;
+    const base = this.state.bases[targetId];
+    return base && !base.isDestroyed ? base : null;
+  }
+
+  // Ticks a weapon needs to reload after a shot
+  private getCooldownTicks(weapon: WeaponBalance): number {
+    return Math.max(1, Math.round(weapon.cooldown / this.tickDuration));
+  }
+
+  private getArmorType(target: AttackTarget): ArmorType {
+    return isBase(target) ? ArmorType.STRUCTURE : this.balance.units[target.type].armor;
+  }
+
+  // Shoot at a target: instant weapons hit straight away, others launch a projectile
+  private fireWeapon(source: Unit | Base, target: AttackTarget, attack: number, weapon: WeaponBalance): void {
+    const projectile: Projectile = {
+      id: '',
+      playerId: source.playerId,
+      sourceId: source.id,
+      targetId: target.id,
+      position: { ...source.position },
+      targetPosition: { ...target.position },
+      speed: weapon.projectileSpeed,
+      damage: attack,
+      damageType: weapon.damageType,
+      splashRadius: weapon.splashRadius,
+      hitsAir: !isBase(target) && isAirUnit(target),
+    };
+    if (weapon.projectileSpeed === 0) {
+      // Instant hits never enter the state, so they need no id
+      this.detonate(projectile);
       return;
     }
+    projectile.id = this.generateId();
+    this.state.projectiles[projectile.id] = projectile;
+  }
+
+  // Fly projectiles towards their targets and detonate the ones that arrive
+  private updateProjectiles(deltaTime: number): void {
+    Object.values(this.state.projectiles).forEach(projectile => {
+      // Follow the target while it lives, otherwise land where it was last seen
+      const target = this.getTarget(projectile.targetId);
+      if (target) {
+        projectile.targetPosition = { ...target.position };
+      }
+      
+      const dx = projectile.targetPosition.x - projectile.position.x;
+      const dy = projectile.targetPosition.y - projectile.position.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const step = projectile.speed * deltaTime;
+      if (distance > step) {
+        projectile.position.x += (dx / distance) * step;
+        projectile.position.y += (dy / distance) * step;
+        return;
+      }
+      
+      projectile.position = { ...projectile.targetPosition };
+      delete this.state.projectiles[projectile.id];
+      this.detonate(projectile);
+    });
+  }
+
+  // Deal a projectile's damage to its target, if still there, and splash damage around it
+  private detonate(projectile: Projectile): void {
+    const target = this.getTarget(projectile.targetId);
+    if (target) {
+      this.applyDamage(projectile, target, projectile.damage);
+    }
+    if (projectile.splashRadius <= 0) return;
     
-    let nearestEnemy: Unit | null = null;
-    let nearestDistance: number = Infinity;
+    const splashed = this.unitIndex.queryRadius(projectile.position, projectile.splashRadius, unit =>
+      !unit.isDead &&
+      unit.id !== projectile.targetId &&
+      unit.playerId !== projectile.playerId &&
+      isAirUnit(unit) === projectile.hitsAir
+    );
+    splashed.forEach(unit => {
+      this.applyDamage(projectile, unit, projectile.damage * COMBAT_CONFIG.splashDamageFactor);
+    });
+  }
+
+  // Deal one hit to a unit or base, killing it when its health runs out
+  // Damage is scaled by how well the weapon does against the target's armor, then reduced by defense
+  private applyDamage(hit: Projectile, target: AttackTarget, attack: number): void {
+    const attackerPlayerId = hit.playerId;
+    const multiplier = this.balance.damageMultipliers[hit.damageType][this.getArmorType(target)];
+    const damage = Math.max(1, attack * multiplier - target.defense / 2);
+    const healthBefore = target.health;
+    target.health = Math.max(0, target.health - damage);
     
-    // Find the nearest enemy within detection range
-    Object.values(this.state.units).forEach(otherUnit => {
-      if (
-        otherUnit.isDead || 
-        otherUnit.playerId === unit.playerId
-      ) {
-        return;
+    // The unit that fired learns from every point of health it takes off
+    const source = this.state.units[hit.sourceId];
+    if (source && !source.isDead) {
+      this.awardExperience(source, healthBefore - target.health, target.health === 0 && !isBase(target));
+    }
+    if (!isBase(target)) {
+      this.events.emit({
+        type: GameEventType.UNIT_DAMAGED,
+        tick: this.state.tick,
+        unitId: target.id,
+        playerId: target.playerId,
+        attackerPlayerId,
+        damage,
+        health: target.health,
+      });
+    }
+    if (target.health > 0) return;
+    
+    if (isBase(target)) {
+      // The ruins keep blocking the ground
+      target.isDestroyed = true;
+      if (target.turret) {
+        target.turret.targetId = undefined;
       }
+      return;
+    }
+    
+    target.isDead = true;
+    this.unitIndex.remove(target.id);
+    
+    // Remove dead unit from player's units array
+    const player = this.state.players[target.playerId];
+    if (player) {
+      player.units = player.units.filter(u => u.id !== target.id);
+    }
+    this.events.emit({
+      type: GameEventType.UNIT_KILLED,
+      tick: this.state.tick,
+      unitId: target.id,
+      unitType: target.type,
+      playerId: target.playerId,
+      killerPlayerId: attackerPlayerId,
+      position: { ...target.position },
+    });
+  }
+
+  // Credit a unit for damage dealt and kills, promoting it when it reaches a new rank
+  private awardExperience(unit: Unit, damage: number, killed: boolean): void {
+    const { veterancy } = this.balance;
+    unit.damageDealt += damage;
+    unit.experience += damage * veterancy.experiencePerDamage;
+    if (killed) {
+      unit.kills++;
+      unit.experience += veterancy.experiencePerKill;
+    }
+    
+    const rank = getRankForExperience(this.balance, unit.experience);
+    if (rank === unit.rank) return;
+    unit.rank = rank;
+    
+    // Rank bonuses multiply the stats the unit was built with, keeping its share of health
+    const stats = this.getUnitStats(unit.playerId, unit.type);
+    const bonus = getRankBonus(this.balance, rank);
+    if (stats && bonus) {
+      const healthShare = unit.health / unit.maxHealth;
+      unit.maxHealth = Math.round(stats.maxHealth * bonus.health);
+      unit.health = unit.maxHealth * healthShare;
+      unit.attack = stats.attack * bonus.attack;
+      unit.defense = stats.defense * bonus.defense;
+    }
+    this.events.emit({
+      type: GameEventType.UNIT_PROMOTED,
+      tick: this.state.tick,
+      unitId: unit.id,
+      playerId: unit.playerId,
+      rank,
+    });
+  }
+
+  // Restore a second's worth of health to a ranked unit
+  private repairUnit(unit: Unit): void {
+    const bonus = getRankBonus(this.balance, unit.rank);
+    if (!bonus || unit.health >= unit.maxHealth) return;
+    unit.health = Math.min(unit.maxHealth, unit.health + unit.maxHealth * bonus.repairPerSecond);
+  }
+
+  // Let base turrets shoot the nearest enemy unit in range whenever they have reloaded
+  private updateBases(): void {
+    const weapon = this.balance.base.turret?.weapon;
+    
+    Object.values(this.state.bases).forEach(base => {
+      const turret = base.turret;
+      if (base.isDestroyed || !turret || !weapon) return;
       
-      // Check if this unit can attack the other unit
-      if (!this.canUnitAttackTarget(unit, otherUnit)) {
-        return;
+      // Keep shooting the current target while it stays in range
+      const reach = turret.range * 20 + base.size / 2;
+      const current = turret.targetId ? this.state.units[turret.targetId] : undefined;
+      const inRange = (unit: Unit) =>
+        Math.hypot(unit.position.x - base.position.x, unit.position.y - base.position.y) <= reach;
+      const canTarget = (unit: Unit) =>
+        !unit.isDead && unit.playerId !== base.playerId && this.canSee(base.playerId, unit);
+      const target = current && canTarget(current) && inRange(current)
+        ? current
+        : this.unitIndex.findNearest(base.position, reach, canTarget);
+      
+      turret.targetId = target?.id;
+      if (target && this.state.tick >= turret.readyTick) {
+        this.fireWeapon(base, target, turret.attack, weapon);
+        turret.readyTick = this.state.tick + this.getCooldownTicks(weapon);
+      }
+    });
+  }
+
+  // Step a unit towards a point, steering around units standing in the way
+  // Returns false if terrain blocked part of the step
+  private moveTowards(unit: Unit, targetPos: Position, deltaTime: number, speed: number = unit.speed): boolean {
+    const dx = targetPos.x - unit.position.x;
+    const dy = targetPos.y - unit.position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance === 0) return true;
+    
+    let dirX = dx / distance;
+    let dirY = dy / distance;
+    
+    // Blend in avoidance unless we are about to arrive
+    if (distance > getUnitRadius(unit.type)) {
+      const avoidance = this.getAvoidance(unit, dirX, dirY);
+      dirX += avoidance.x;
+      dirY += avoidance.y;
+      const length = Math.sqrt(dirX * dirX + dirY * dirY);
+      if (length > 0) {
+        dirX /= length;
+        dirY /= length;
       }
+    }
+    
+    const moveDistance = Math.min(speed * deltaTime * 60, distance);
+    return this.displaceUnit(unit, dirX * moveDistance, dirY * moveDistance);
+  }
+
+  // Speed a unit walks its path at; a group sent together keeps to its slowest member
+  private getTravelSpeed(unit: Unit): number {
+    const groupSpeed = unit.orders[0]?.groupSpeed;
+    return groupSpeed === undefined ? unit.speed : Math.min(unit.speed, groupSpeed);
+  }
+
+  // Move a unit by an offset, sliding ground units along obstacles
+  // Returns false if terrain blocked part of the move
+  private displaceUnit(unit: Unit, offsetX: number, offsetY: number): boolean {
+    const movedFreely = this.applyDisplacement(unit, offsetX, offsetY);
+    this.unitIndex.update(unit);
+    return movedFreely;
+  }
+
+  private applyDisplacement(unit: Unit, offsetX: number, offsetY: number): boolean {
+    const nextX = unit.position.x + offsetX;
+    const nextY = unit.position.y + offsetY;
+    
+    // Units that ended up on a blocked tile may always walk off it
+    const terrain = this.state.terrain;
+    if (
+      isAirUnit(unit) ||
+      !isPositionPassable(terrain, unit.position) ||
+      isPositionPassable(terrain, { x: nextX, y: nextY })
+    ) {
+      unit.position.x = nextX;
+      unit.position.y = nextY;
+      return true;
+    }
+    
+    if (isPositionPassable(terrain, { x: nextX, y: unit.position.y })) {
+      unit.position.x = nextX;
+    } else if (isPositionPassable(terrain, { x: unit.position.x, y: nextY })) {
+      unit.position.y = nextY;
+    }
+    return false;
+  }
+
+  // Sideways push away from stationary units ahead of a moving unit
+  private getAvoidance(unit: Unit, dirX: number, dirY: number): Position {
+    const avoidance = { x: 0, y: 0 };
+    const radius = getUnitRadius(unit.type);
+    
+    const lookahead = radius + MAX_UNIT_RADIUS + STEERING_CONFIG.avoidanceLookahead;
+    this.unitIndex.queryRadius(unit.position, lookahead).forEach(other => {
+      if (other === unit || other.isDead || other.isMoving || isAirUnit(other) !== isAirUnit(unit)) return;
       
-      const dx = otherUnit.position.x - unit.position.x;
-      const dy = otherUnit.position.y - unit.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
+      const offsetX = other.position.x - unit.position.x;
+      const offsetY = other.position.y - unit.position.y;
+      const distance = Math.sqrt(offsetX * offsetX + offsetY * offsetY);
+      const range = radius + getUnitRadius(other.type) + STEERING_CONFIG.avoidanceLookahead;
+      if (distance === 0 || distance >= range) return;
       
-      // Auto-detect range is slightly larger than attack range
-      const detectionRange = unit.range * 25;
+      // Only units in front of us are in the way
+      const ahead = (offsetX * dirX + offsetY * dirY) / distance;
+      if (ahead <= 0) return;
       
-      if (distance <= detectionRange && distance < nearestDistance) {
-        nearestEnemy = otherUnit;
-        nearestDistance = distance;
+      // Steer away from the side the obstacle is on (pick one side if it is dead ahead)
+      let awayX = -(offsetX - dirX * ahead * distance);
+      let awayY = -(offsetY - dirY * ahead * distance);
+      const awayLength = Math.sqrt(awayX * awayX + awayY * awayY);
+      if (awayLength < 0.001) {
+        awayX = -dirY;
+        awayY = dirX;
+      } else {
+        awayX /= awayLength;
+        awayY /= awayLength;
       }
+      
+      const weight = (1 - distance / range) * ahead * STEERING_CONFIG.avoidanceStrength;
+      avoidance.x += awayX * weight;
+      avoidance.y += awayY * weight;
     });
     
-    // If found an enemy in range, attack it
-    if (nearestEnemy !== null) {
-      this.attackUnit(unit.id, (nearestEnemy as Unit).id);
+    return avoidance;
+  }
+
+  // Whether a unit close to its final waypoint should stop because other units already stand there
+  private isDestinationTaken(unit: Unit, destination: Position, distance: number): boolean {
+    if (!unit.path || unit.path.length !== 1) return false;
+    
+    const radius = getUnitRadius(unit.type);
+    if (distance > radius * 2) return false;
+    
+    return this.unitIndex.queryRadius(destination, radius + MAX_UNIT_RADIUS).some(other => {
+      if (other === unit || other.isDead || other.isMoving || isAirUnit(other) !== isAirUnit(unit)) return false;
+      const dx = other.position.x - destination.x;
+      const dy = other.position.y - destination.y;
+      return Math.sqrt(dx * dx + dy * dy) < getUnitRadius(other.type) + radius * 0.5;
+    });
+  }
+
+  // Push overlapping units apart a little each tick
+  // Ground and air units live on separate layers and never collide with each other
+  private applySeparation(): void {
+    // Order pairs by their position in state.units so each pair is handled once, deterministically
+    const order = new Map<string, number>();
+    Object.keys(this.state.units).forEach((unitId, index) => order.set(unitId, index));
+    
+    Object.values(this.state.units).forEach(a => {
+      if (a.isDead) return;
+      
+      const neighbours = this.unitIndex.queryRadius(a.position, getUnitRadius(a.type) + MAX_UNIT_RADIUS);
+      neighbours.forEach(b => {
+        if (b.isDead || order.get(b.id)! <= order.get(a.id)! || isAirUnit(a) !== isAirUnit(b)) return;
+        
+        const minDistance = getUnitRadius(a.type) + getUnitRadius(b.type);
+        let dx = b.position.x - a.position.x;
+        let dy = b.position.y - a.position.y;
+        let distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance >= minDistance) return;
+        
+        // Units on the exact same spot get pushed apart along a fixed axis
+        if (distance === 0) {
+          dx = 1;
+          dy = 0;
+          distance = 1;
+        }
+        
+        // Moving units shoulder idle ones aside rather than being stopped by them
+        const shareA = a.isMoving === b.isMoving ? 0.5 : a.isMoving ? 0.2 : 0.8;
+        const push = (minDistance - Math.min(distance, minDistance)) * STEERING_CONFIG.separationStiffness;
+        const pushX = (dx / distance) * push;
+        const pushY = (dy / distance) * push;
+        
+        this.displaceUnit(a, -pushX * shareA, -pushY * shareA);
+        this.displaceUnit(b, pushX * (1 - shareA), pushY * (1 - shareA));
+      });
+    });
+  }
+
+  // Where a unit chasing a target should head next
+  // Ground units without a clear line to the target follow a path around obstacles
+  private getChaseWaypoint(unit: Unit, target: AttackTarget): Position {
+    const terrain = this.state.terrain;
+    if (isAirUnit(unit) || hasLineOfSight(terrain, unit.position, target.position)) {
+      unit.path = undefined;
+      return target.position;
+    }
+    
+    // Re-plan when there is no path yet or the target has moved away from its end
+    // Paths to a base end at its edge, since the footprint itself cannot be walked on
+    const pathEnd = unit.path && unit.path.length > 0 ? unit.path[unit.path.length - 1] : null;
+    const replanDistance = terrain.tileSize * 2 + getTargetRadius(target);
+    if (!pathEnd || Math.hypot(pathEnd.x - target.position.x, pathEnd.y - target.position.y) > replanDistance) {
+      unit.path = findPath(terrain, unit.position, target.position);
+    }
+    
+    const path = unit.path!;
+    while (path.length > 1 && Math.hypot(path[0].x - unit.position.x, path[0].y - unit.position.y) < 2) {
+      path.shift();
+    }
+    return path[0] ?? target.position;
+  }
+
+  // Check if a unit should automatically acquire a target
+  private checkForAutoTarget(unit: Unit): void {
+    // Only look for targets if not already attacking or moving
+    if (unit.isAttacking || unit.isMoving) {
+      return;
+    }
+    
+    // Auto-detect range is slightly larger than attack range
+    const enemy = this.findEnemyNear(unit, unit.position, unit.range * ORDER_CONFIG.detectionRangeFactor);
+    if (enemy) {
+      this.startAttack(unit, enemy);
     }
   }
   
+  // Nearest enemy unit in sight within a radius of a point that a unit can attack
+  // With no enemy units around, an enemy base in the radius will do
+  private findEnemyNear(unit: Unit, position: Position, radius: number): AttackTarget | null {
+    const nearestEnemy = this.unitIndex.findNearest(position, radius, otherUnit =>
+      !otherUnit.isDead &&
+      otherUnit.playerId !== unit.playerId &&
+      this.canUnitAttackTarget(unit, otherUnit) &&
+      this.canSee(unit.playerId, otherUnit)
+    );
+    if (nearestEnemy !== null) return nearestEnemy;
+    
+    if (!unit.canAttackGround) return null;
+    const nearbyBase = Object.values(this.state.bases).find(base =>
+      !base.isDestroyed &&
+      base.playerId !== unit.playerId &&
+      this.canSee(unit.playerId, base) &&
+      distance(base.position, position) <= radius + base.size / 2
+    );
+    return nearbyBase ?? null;
+  }
+  
   // Check if a unit can attack a target based on unit type
-  private canUnitAttackTarget(attacker: Unit, target: Unit): boolean {
-    // Determine if target is air or ground
-    const isTargetAir = target.type === UnitType.HELICOPTER;
+  private canUnitAttackTarget(attacker: Unit, target: AttackTarget): boolean {
+    // Determine if target is air or ground (bases are ground targets)
+    const isTargetAir = !isBase(target) && isAirUnit(target);
     
     if (isTargetAir) {
       return attacker.canAttackAir;
@@ -424,59 +1826,75 @@ export class GameEngine {
     }
   }
 
-  // Update resources (respawn collected resources)
+  // Let deposits that have been left alone grow back towards full
   private updateResources(deltaTime: number): void {
     Object.values(this.state.resources).forEach(resource => {
-      if (resource.isCollected) {
-        resource.respawnTime -= deltaTime;
-        
-        if (resource.respawnTime <= 0) {
-          resource.isCollected = false;
-          resource.amount = RESOURCE_CONFIG.resourceAmount[resource.type];
-          resource.respawnTime = RESOURCE_CONFIG.respawnTime;
+      if (resource.regrowTimer > 0) {
+        resource.regrowTimer = Math.max(0, resource.regrowTimer - deltaTime);
+        return;
+      }
+      if (resource.amount < resource.maxAmount) {
+        const wasDepleted = resource.amount <= 0;
+        const regrowth = resource.regrowPerSecond * deltaTime;
+        resource.amount = Math.min(resource.maxAmount, resource.amount + regrowth);
+        if (wasDepleted && resource.amount > 0) {
+          this.events.emit({
+            type: GameEventType.RESOURCE_RESPAWNED,
+            tick: this.state.tick,
+            resourceId: resource.id,
+            resourceType: resource.type,
+            position: { ...resource.position },
+          });
         }
       }
     });
   }
 
-  // Collect resources when units are near
-  private collectResources(): void {
-    const collectionRange = 30; // Units must be this close to collect
-    
-    Object.values(this.state.resources).forEach(resource => {
-      if (resource.isCollected) return;
-      
-      Object.values(this.state.players).forEach(player => {
-        // Check if any SOLDIER unit is near the resource (only soldiers can collect)
-        const nearbyUnit = player.units.find(unit => {
-          if (unit.isDead) return false;
-          // Only soldiers can collect resources
-          if (unit.type !== UnitType.SOLDIER) return false;
-          
-          const dx = unit.position.x - resource.position.x;
-          const dy = unit.position.y - resource.position.y;
-          const distance = Math.sqrt(dx * dx + dy * dy);
-          
-          return distance < collectionRange;
-        });
-        
-        if (nearbyUnit) {
-          // Collect the resource
-          player.resources[ResourceType.MONEY] += resource.amount;
-          resource.isCollected = true;
-        }
-      });
+  // Knock out defeated players and end the match once the mode has a winner
+  // Every mode also ends when at most one player is left standing
+  private checkGameOver(): void {
+    const players = Object.values(this.state.players);
+    players.forEach(player => {
+      if (player.eliminatedAt === null && this.victory.isEliminated(this, player)) {
+        player.eliminatedAt = this.state.tick;
+        this.events.emit({ type: GameEventType.PLAYER_ELIMINATED, tick: this.state.tick, playerId: player.id });
+      }
     });
+    
+    const remaining = players.filter(player => player.eliminatedAt === null);
+    const lastStanding = players.length > 1 ? remaining.length <= 1 : players.length === 1 && remaining.length === 0;
+    const decision = this.victory.getDecision(this);
+    if (decision) {
+      this.endGame(decision.winnerId, decision.reason);
+    } else if (lastStanding) {
+      this.endGame(remaining[0]?.id ?? null, VictoryReason.LAST_STANDING);
+    }
   }
 
-  // Check if the game should end
-  private checkGameOver(): void {
-    const state = this.getState();
-    const activePlayers = Object.values(state.players).filter(player => 
-      player.units.length > 0 || 
-      player.resources[ResourceType.MONEY] >= 150
-    );
+  // Record the result: the winner first, then players still in by score, then the rest by how long they lasted
+  private endGame(winnerId: string | null, reason: VictoryReason): void {
+    const { scores } = this.state;
+    const ranked = Object.values(this.state.players).sort((a, b) => {
+      if (a.id === winnerId || b.id === winnerId) return a.id === winnerId ? -1 : 1;
+      if ((a.eliminatedAt === null) !== (b.eliminatedAt === null)) return a.eliminatedAt === null ? -1 : 1;
+      if (a.eliminatedAt !== null && b.eliminatedAt !== null && a.eliminatedAt !== b.eliminatedAt) {
+        return b.eliminatedAt - a.eliminatedAt;
+      }
+      return (scores[b.id] ?? 0) - (scores[a.id] ?? 0);
+    });
     
-    // ... existing code ...
+    const placements: Placement[] = ranked.map((player, index) => ({
+      playerId: player.id,
+      place: index + 1,
+      score: scores[player.id] ?? 0,
+    }));
+    this.state.result = {
+      mode: this.state.mode,
+      winnerId,
+      reason,
+      tick: this.state.tick,
+      placements,
+    };
+    this.events.emit({ type: GameEventType.GAME_OVER, tick: this.state.tick, result: this.state.result });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,148 @@
+import { GameResult, Position, ResourceType, UnitType, VeterancyRank } from './types';
+
+export enum GameEventType {
+  UNIT_CREATED = 'UNIT_CREATED',
+  UNIT_DAMAGED = 'UNIT_DAMAGED',
+  UNIT_KILLED = 'UNIT_KILLED',
+  UNIT_PROMOTED = 'UNIT_PROMOTED',
+  RESOURCE_COLLECTED = 'RESOURCE_COLLECTED',
+  RESOURCE_DEPLETED = 'RESOURCE_DEPLETED',
+  RESOURCE_RESPAWNED = 'RESOURCE_RESPAWNED',
+  PLAYER_ELIMINATED = 'PLAYER_ELIMINATED',
+  GAME_OVER = 'GAME_OVER',
+}
+
+// Fields shared by every event
+interface BaseEvent {
+  tick: number; // Simulation step the event happened on
+}
+
+// A unit was put on the map, built or given at the start
+export interface UnitCreatedEvent extends BaseEvent {
+  type: GameEventType.UNIT_CREATED;
+  unitId: string;
+  unitType: UnitType;
+  playerId: string;
+  position: Position;
+}
+
+// A unit was hit and survived, or was hit by the blow that killed it
+export interface UnitDamagedEvent extends BaseEvent {
+  type: GameEventType.UNIT_DAMAGED;
+  unitId: string;
+  playerId: string;
+  attackerPlayerId: string;
+  damage: number;
+  health: number; // Left after the hit, 0 when it died
+}
+
+export interface UnitKilledEvent extends BaseEvent {
+  type: GameEventType.UNIT_KILLED;
+  unitId: string;
+  unitType: UnitType;
+  playerId: string;
+  killerPlayerId: string;
+  position: Position;
+}
+
+// A unit earned enough experience for a new veterancy rank
+export interface UnitPromotedEvent extends BaseEvent {
+  type: GameEventType.UNIT_PROMOTED;
+  unitId: string;
+  playerId: string;
+  rank: VeterancyRank;
+}
+
+// A gatherer unloaded at its base
+export interface ResourceCollectedEvent extends BaseEvent {
+  type: GameEventType.RESOURCE_COLLECTED;
+  resourceId: string;
+  resourceType: ResourceType;
+  playerId: string;
+  amount: number;
+  position: Position; // Where the gatherer unloaded
+}
+
+// A deposit was harvested dry; it grows back once left alone
+export interface ResourceDepletedEvent extends BaseEvent {
+  type: GameEventType.RESOURCE_DEPLETED;
+  resourceId: string;
+  resourceType: ResourceType;
+  position: Position;
+}
+
+// A depleted deposit started growing back and can be harvested again
+export interface ResourceRespawnedEvent extends BaseEvent {
+  type: GameEventType.RESOURCE_RESPAWNED;
+  resourceId: string;
+  resourceType: ResourceType;
+  position: Position;
+}
+
+// A player was knocked out under the rules of the game mode
+export interface PlayerEliminatedEvent extends BaseEvent {
+  type: GameEventType.PLAYER_ELIMINATED;
+  playerId: string;
+}
+
+export interface GameOverEvent extends BaseEvent {
+  type: GameEventType.GAME_OVER;
+  result: GameResult;
+}
+
+// Everything the engine reports while it simulates
+export type GameEvent =
+  | UnitCreatedEvent
+  | UnitDamagedEvent
+  | UnitKilledEvent
+  | UnitPromotedEvent
+  | ResourceCollectedEvent
+  | ResourceDepletedEvent
+  | ResourceRespawnedEvent
+  | PlayerEliminatedEvent
+  | GameOverEvent;
+
+// The event with a given type, e.g. GameEventOf<GameEventType.UNIT_KILLED>
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+export type GameEventListener<T extends GameEventType> = (event: GameEventOf<T>) => void;
+
+// Call to stop listening
+export type Unsubscribe = () => void;
+
+// Typed publish/subscribe for game events
+// Listeners run synchronously in the middle of a simulation step; they may read the state but
+// must not change it, or matches stop being reproducible from their seed and commands
+// The one exception is the engine's own, subscribed first, which keeps the players' stats
+export class GameEventBus {
+  private listeners: Map<GameEventType, Set<(event: GameEvent) => void>> = new Map();
+  private anyListeners: Set<(event: GameEvent) => void> = new Set();
+
+  // Listen for one type of event
+  public on<T extends GameEventType>(type: T, listener: GameEventListener<T>): Unsubscribe {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    const wrapped = listener as (event: GameEvent) => void;
+    listeners.add(wrapped);
+    return () => listeners!.delete(wrapped);
+  }
+
+  // Listen for every event, e.g. to log or record them
+  public onAny(listener: (event: GameEvent) => void): Unsubscribe {
+    this.anyListeners.add(listener);
+    return () => this.anyListeners.delete(listener);
+  }
+
+  public emit(event: GameEvent): void {
+    this.listeners.get(event.type)?.forEach(listener => listener(event));
+    this.anyListeners.forEach(listener => listener(event));
+  }
+
+  public clear(): void {
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+}
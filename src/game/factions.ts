@@ -0,0 +1,29 @@
+import { FactionType, UnitType } from './types';
+
+export interface FactionDefinition {
+  description: string;
+  roster: UnitType[]; // Units the faction can build, in HUD order
+}
+
+// Faction rosters; their unit bonuses live in the balance data
+export const FACTIONS: Record<FactionType, FactionDefinition> = {
+  [FactionType.USA]: {
+    description: 'Fast, expensive air power',
+    roster: [UnitType.SOLDIER, UnitType.TANK, UnitType.HELICOPTER, UnitType.HUMVEE],
+  },
+  [FactionType.CHINA]: {
+    description: 'Tough, slow armor',
+    roster: [UnitType.SOLDIER, UnitType.TANK, UnitType.HELICOPTER, UnitType.OVERLORD],
+  },
+  [FactionType.GLA]: {
+    description: 'Cheap, fragile swarms',
+    roster: [UnitType.SOLDIER, UnitType.TANK, UnitType.HELICOPTER, UnitType.TECHNICAL],
+  },
+};
+
+// Units a faction can build, in HUD order
+export const getFactionRoster = (faction: FactionType): UnitType[] =>
+  FACTIONS[faction].roster;
+
+export const canFactionBuild = (faction: FactionType, unitType: UnitType): boolean =>
+  FACTIONS[faction].roster.includes(unitType);
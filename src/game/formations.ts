@@ -0,0 +1,105 @@
+import { getUnitRadius } from './units';
+import { FormationType, Position, UnitType } from './types';
+
+// Formation layout config
+const FORMATION_CONFIG = {
+  gap: 10, // Pixels left between neighbouring units, on top of their size
+  lineWidth: 8, // Units per rank in a line
+  columnWidth: 2, // Units per rank in a column
+};
+
+// Which ranks each unit type goes in, lowest first: armor leads, infantry follows and aircraft cover the rear
+const FORMATION_RANK_ORDER: Record<UnitType, number> = {
+  [UnitType.TANK]: 0,
+  [UnitType.OVERLORD]: 0,
+  [UnitType.HUMVEE]: 1,
+  [UnitType.TECHNICAL]: 1,
+  [UnitType.SOLDIER]: 2,
+  [UnitType.HELICOPTER]: 3,
+};
+
+// A unit to place in a formation, with where it will set off from
+export interface FormationMember {
+  id: string;
+  type: UnitType;
+  position: Position;
+}
+
+// Number of units in each rank, front rank first
+const getRankSizes = (shape: FormationType, count: number): number[] => {
+  const sizes: number[] = [];
+  for (let rank = 0, remaining = count; remaining > 0; rank++) {
+    let width: number;
+    switch (shape) {
+      case FormationType.LINE:
+        width = FORMATION_CONFIG.lineWidth;
+        break;
+      case FormationType.COLUMN:
+        width = FORMATION_CONFIG.columnWidth;
+        break;
+      case FormationType.WEDGE:
+        width = rank * 2 + 1;
+        break;
+      case FormationType.BOX:
+        width = Math.ceil(Math.sqrt(count));
+        break;
+    }
+    sizes.push(Math.min(width, remaining));
+    remaining -= width;
+  }
+  return sizes;
+};
+
+// Where each member should end up for a group sent to a point, keyed by unit id
+// The formation is centered on the point and faces the given direction, or the way the group travels
+export const getFormationPositions = (
+  members: FormationMember[],
+  target: Position,
+  shape: FormationType,
+  facing: number | null
+): Map<string, Position> => {
+  const positions = new Map<string, Position>();
+  if (members.length === 0) return positions;
+
+  const center = {
+    x: members.reduce((sum, member) => sum + member.position.x, 0) / members.length,
+    y: members.reduce((sum, member) => sum + member.position.y, 0) / members.length,
+  };
+  const travelled = target.x !== center.x || target.y !== center.y;
+  const angle = facing ?? (travelled ? Math.atan2(target.y - center.y, target.x - center.x) : -Math.PI / 2);
+  const forward = { x: Math.cos(angle), y: Math.sin(angle) };
+  const right = { x: -forward.y, y: forward.x };
+  const lateral = (position: Position) => (position.x - center.x) * right.x + (position.y - center.y) * right.y;
+
+  // Room for the biggest unit in the group in every slot
+  const spacing = Math.max(...members.map(member => getUnitRadius(member.type))) * 2 + FORMATION_CONFIG.gap;
+
+  // Slots as (across, back) offsets from the front center, front rank first
+  const rankSizes = getRankSizes(shape, members.length);
+  const slots = rankSizes.map((size, rank) =>
+    Array.from({ length: size }, (_, file) => ({ across: (file - (size - 1) / 2) * spacing, back: rank * spacing }))
+  );
+  const allSlots = slots.flat();
+  const middle = {
+    across: allSlots.reduce((sum, slot) => sum + slot.across, 0) / allSlots.length,
+    back: allSlots.reduce((sum, slot) => sum + slot.back, 0) / allSlots.length,
+  };
+
+  // Fill the ranks in order of unit type; within a rank, units keep their left-to-right order so paths do not cross
+  const ordered = [...members].sort((a, b) => FORMATION_RANK_ORDER[a.type] - FORMATION_RANK_ORDER[b.type]);
+  let next = 0;
+  slots.forEach(rankSlots => {
+    const rankMembers = ordered.slice(next, next + rankSlots.length);
+    next += rankSlots.length;
+    rankMembers.sort((a, b) => lateral(a.position) - lateral(b.position));
+    rankMembers.forEach((member, file) => {
+      const across = rankSlots[file].across - middle.across;
+      const back = rankSlots[file].back - middle.back;
+      positions.set(member.id, {
+        x: target.x + right.x * across - forward.x * back,
+        y: target.y + right.y * across - forward.y * back,
+      });
+    });
+  });
+  return positions;
+};
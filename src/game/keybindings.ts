@@ -0,0 +1,268 @@
+import { PanInput } from './camera';
+
+// Everything the keyboard can do; keys are bound to these rather than handled directly
+export enum InputAction {
+  PAN_LEFT = 'PAN_LEFT',
+  PAN_RIGHT = 'PAN_RIGHT',
+  PAN_UP = 'PAN_UP',
+  PAN_DOWN = 'PAN_DOWN',
+  CENTER_ON_BASE = 'CENTER_ON_BASE',
+  CENTER_ON_SELECTION = 'CENTER_ON_SELECTION',
+  CLEAR_SELECTION = 'CLEAR_SELECTION',
+  ATTACK_MOVE = 'ATTACK_MOVE', // Then click where to go
+  PATROL = 'PATROL', // Then click the far end of the patrol
+  GUARD = 'GUARD', // Then click a friendly unit or a spot
+  HOLD_POSITION = 'HOLD_POSITION',
+  STOP = 'STOP',
+  BUILD_1 = 'BUILD_1', // Units in faction roster order
+  BUILD_2 = 'BUILD_2',
+  BUILD_3 = 'BUILD_3',
+  BUILD_4 = 'BUILD_4',
+  CONTROL_GROUP_1 = 'CONTROL_GROUP_1', // Recall; with Ctrl held, assign
+  CONTROL_GROUP_2 = 'CONTROL_GROUP_2',
+  CONTROL_GROUP_3 = 'CONTROL_GROUP_3',
+  CONTROL_GROUP_4 = 'CONTROL_GROUP_4',
+  CONTROL_GROUP_5 = 'CONTROL_GROUP_5',
+  CONTROL_GROUP_6 = 'CONTROL_GROUP_6',
+  CONTROL_GROUP_7 = 'CONTROL_GROUP_7',
+  CONTROL_GROUP_8 = 'CONTROL_GROUP_8',
+  CONTROL_GROUP_9 = 'CONTROL_GROUP_9',
+  CONTROL_GROUP_0 = 'CONTROL_GROUP_0',
+  SHOW_DEBUG = 'SHOW_DEBUG', // Held
+}
+
+// A key plus the modifiers that must be held with it; the key is a KeyboardEvent.code, so
+// bindings stay on the same physical keys whatever the keyboard layout
+export interface KeyBinding {
+  code: string;
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+}
+
+// The parts of a KeyboardEvent that decide which action it triggers
+export interface KeyPress {
+  code: string;
+  ctrlKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+// Names shown in the key settings, in the order they are listed
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  [InputAction.PAN_LEFT]: 'Scroll left',
+  [InputAction.PAN_RIGHT]: 'Scroll right',
+  [InputAction.PAN_UP]: 'Scroll up',
+  [InputAction.PAN_DOWN]: 'Scroll down',
+  [InputAction.CENTER_ON_BASE]: 'Center on base',
+  [InputAction.CENTER_ON_SELECTION]: 'Center on selection',
+  [InputAction.CLEAR_SELECTION]: 'Clear selection',
+  [InputAction.ATTACK_MOVE]: 'Attack-move',
+  [InputAction.PATROL]: 'Patrol',
+  [InputAction.GUARD]: 'Guard',
+  [InputAction.HOLD_POSITION]: 'Hold position',
+  [InputAction.STOP]: 'Stop',
+  [InputAction.BUILD_1]: 'Build unit 1',
+  [InputAction.BUILD_2]: 'Build unit 2',
+  [InputAction.BUILD_3]: 'Build unit 3',
+  [InputAction.BUILD_4]: 'Build unit 4',
+  [InputAction.CONTROL_GROUP_1]: 'Control group 1',
+  [InputAction.CONTROL_GROUP_2]: 'Control group 2',
+  [InputAction.CONTROL_GROUP_3]: 'Control group 3',
+  [InputAction.CONTROL_GROUP_4]: 'Control group 4',
+  [InputAction.CONTROL_GROUP_5]: 'Control group 5',
+  [InputAction.CONTROL_GROUP_6]: 'Control group 6',
+  [InputAction.CONTROL_GROUP_7]: 'Control group 7',
+  [InputAction.CONTROL_GROUP_8]: 'Control group 8',
+  [InputAction.CONTROL_GROUP_9]: 'Control group 9',
+  [InputAction.CONTROL_GROUP_0]: 'Control group 0',
+  [InputAction.SHOW_DEBUG]: 'Show debug info (hold)',
+};
+
+// Build actions by roster slot
+export const BUILD_ACTIONS: InputAction[] = [
+  InputAction.BUILD_1,
+  InputAction.BUILD_2,
+  InputAction.BUILD_3,
+  InputAction.BUILD_4,
+];
+
+export const CONTROL_GROUP_ACTIONS: InputAction[] = [
+  InputAction.CONTROL_GROUP_1,
+  InputAction.CONTROL_GROUP_2,
+  InputAction.CONTROL_GROUP_3,
+  InputAction.CONTROL_GROUP_4,
+  InputAction.CONTROL_GROUP_5,
+  InputAction.CONTROL_GROUP_6,
+  InputAction.CONTROL_GROUP_7,
+  InputAction.CONTROL_GROUP_8,
+  InputAction.CONTROL_GROUP_9,
+  InputAction.CONTROL_GROUP_0,
+];
+
+// Direction each scroll action pushes the camera in while its key is held
+export const PAN_ACTIONS: Partial<Record<InputAction, PanInput>> = {
+  [InputAction.PAN_LEFT]: { x: -1, y: 0 },
+  [InputAction.PAN_RIGHT]: { x: 1, y: 0 },
+  [InputAction.PAN_UP]: { x: 0, y: -1 },
+  [InputAction.PAN_DOWN]: { x: 0, y: 1 },
+};
+
+const key = (code: string): KeyBinding => ({ code, ctrl: false, shift: false, alt: false });
+
+// Number keys are kept for control groups, so units are built from the row above the home keys
+export const DEFAULT_KEY_BINDINGS: Record<InputAction, KeyBinding | null> = {
+  [InputAction.PAN_LEFT]: key('ArrowLeft'),
+  [InputAction.PAN_RIGHT]: key('ArrowRight'),
+  [InputAction.PAN_UP]: key('ArrowUp'),
+  [InputAction.PAN_DOWN]: key('ArrowDown'),
+  [InputAction.CENTER_ON_BASE]: key('KeyB'),
+  [InputAction.CENTER_ON_SELECTION]: key('Space'),
+  [InputAction.CLEAR_SELECTION]: key('Escape'),
+  [InputAction.ATTACK_MOVE]: key('KeyA'),
+  [InputAction.PATROL]: key('KeyP'),
+  [InputAction.GUARD]: key('KeyG'),
+  [InputAction.HOLD_POSITION]: key('KeyH'),
+  [InputAction.STOP]: key('KeyS'),
+  [InputAction.BUILD_1]: key('KeyQ'),
+  [InputAction.BUILD_2]: key('KeyW'),
+  [InputAction.BUILD_3]: key('KeyE'),
+  [InputAction.BUILD_4]: key('KeyR'),
+  [InputAction.CONTROL_GROUP_1]: key('Digit1'),
+  [InputAction.CONTROL_GROUP_2]: key('Digit2'),
+  [InputAction.CONTROL_GROUP_3]: key('Digit3'),
+  [InputAction.CONTROL_GROUP_4]: key('Digit4'),
+  [InputAction.CONTROL_GROUP_5]: key('Digit5'),
+  [InputAction.CONTROL_GROUP_6]: key('Digit6'),
+  [InputAction.CONTROL_GROUP_7]: key('Digit7'),
+  [InputAction.CONTROL_GROUP_8]: key('Digit8'),
+  [InputAction.CONTROL_GROUP_9]: key('Digit9'),
+  [InputAction.CONTROL_GROUP_0]: key('Digit0'),
+  [InputAction.SHOW_DEBUG]: key('KeyD'),
+};
+
+// Bindings live in localStorage under this key, as a JSON object of action -> binding
+const KEY_BINDINGS_STORAGE_KEY = 'mini_generals:keybindings';
+
+// Keys that only modify others and cannot be bound on their own
+const MODIFIER_CODES = new Set([
+  'ControlLeft', 'ControlRight', 'ShiftLeft', 'ShiftRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight',
+]);
+
+// Short names for keys whose code does not read well
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+// How a binding is shown to the player, e.g. "Shift+Q"
+export const formatKeyBinding = (binding: KeyBinding | null): string => {
+  if (!binding) return 'Unbound';
+  const name = KEY_NAMES[binding.code] ?? binding.code.replace(/^(Key|Digit)/, '');
+  return [binding.ctrl && 'Ctrl', binding.alt && 'Alt', binding.shift && 'Shift', name].filter(Boolean).join('+');
+};
+
+// The binding a key press would make, or null for a modifier pressed on its own
+export const keyBindingFromPress = (press: KeyPress): KeyBinding | null => {
+  if (MODIFIER_CODES.has(press.code)) return null;
+  return { code: press.code, ctrl: press.ctrlKey, shift: press.shiftKey, alt: press.altKey };
+};
+
+const isSameBinding = (a: KeyBinding | null, b: KeyBinding | null): boolean =>
+  !!a && !!b && a.code === b.code && a.ctrl === b.ctrl && a.shift === b.shift && a.alt === b.alt;
+
+const isKeyBinding = (value: unknown): value is KeyBinding => {
+  const binding = value as KeyBinding;
+  return typeof value === 'object' && value !== null &&
+    typeof binding.code === 'string' && typeof binding.ctrl === 'boolean' &&
+    typeof binding.shift === 'boolean' && typeof binding.alt === 'boolean';
+};
+
+// The player's key bindings, kept in the browser between visits
+// Each action has at most one key, and each key triggers at most one action
+export class KeyBindings {
+  private bindings: Record<InputAction, KeyBinding | null>;
+  private storage: Storage;
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+    const stored = this.load();
+    this.bindings = { ...DEFAULT_KEY_BINDINGS, ...stored };
+
+    // Actions added since the bindings were saved go without a key the player already uses
+    Object.values(InputAction).forEach(action => {
+      if (action in stored) return;
+      const taken = Object.values(InputAction).some(other =>
+        other in stored && isSameBinding(stored[other] ?? null, this.bindings[action])
+      );
+      if (taken) {
+        this.bindings[action] = null;
+      }
+    });
+  }
+
+  public getBinding(action: InputAction): KeyBinding | null {
+    return this.bindings[action];
+  }
+
+  // Action bound to exactly this key and modifiers
+  public getAction(press: KeyPress): InputAction | null {
+    const binding = keyBindingFromPress(press);
+    const bound = Object.values(InputAction).find(action => isSameBinding(this.bindings[action], binding));
+    return bound ?? null;
+  }
+
+  // Actions bound to a key with any modifiers, so held actions end even if a modifier was let go first
+  public getActionsForKey(code: string): InputAction[] {
+    return Object.values(InputAction).filter(action => this.bindings[action]?.code === code);
+  }
+
+  // Bind a key to an action; an action that had the key already takes this action's old key instead
+  public setBinding(action: InputAction, binding: KeyBinding | null): void {
+    const previous = this.bindings[action];
+    Object.values(InputAction).forEach(other => {
+      if (other !== action && isSameBinding(this.bindings[other], binding)) {
+        this.bindings[other] = previous;
+      }
+    });
+    this.bindings[action] = binding;
+    this.save();
+  }
+
+  public resetToDefaults(): void {
+    this.bindings = { ...DEFAULT_KEY_BINDINGS };
+    this.save();
+  }
+
+  // Stored bindings over the defaults; anything unreadable is skipped
+  private load(): Partial<Record<InputAction, KeyBinding | null>> {
+    const stored: Partial<Record<InputAction, KeyBinding | null>> = {};
+    let data: unknown;
+    try {
+      data = JSON.parse(this.storage.getItem(KEY_BINDINGS_STORAGE_KEY) ?? '{}');
+    } catch {
+      return stored;
+    }
+    if (typeof data !== 'object' || data === null) return stored;
+
+    Object.values(InputAction).forEach(action => {
+      const value = (data as Record<string, unknown>)[action];
+      if (value === null || isKeyBinding(value)) {
+        stored[action] = value && { code: value.code, ctrl: value.ctrl, shift: value.shift, alt: value.alt };
+      }
+    });
+    return stored;
+  }
+
+  // Losing the bindings to a full or blocked storage is not worth interrupting the game for
+  private save(): void {
+    try {
+      this.storage.setItem(KEY_BINDINGS_STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch {
+      // Keep playing with the bindings in memory
+    }
+  }
+}
@@ -1,5 +1,228 @@
 import { GameController } from './controller';
-import { ResourceType } from './types';
+import { onBalanceReload } from './balance';
+import { ReplayError, parseReplay, serializeReplay } from './replay';
+import { SaveError, deleteSaveSlot, listSaveSlots, parseSave, readSaveSlot, serializeSave, writeSaveSlot } from './save';
+import { NetworkJoinConfig } from './network';
+import { BUILD_ACTIONS, INPUT_ACTION_LABELS, InputAction, formatKeyBinding } from './keybindings';
+import { EditorTool, MapEditor } from './editor';
+import { MAP_SIZE_LIMITS, MapError, createBlankMap, parseMap, serializeMap } from './mapfile';
+import { MapgenError } from './mapgen';
+import { randomSeed } from './random';
+import { AIDifficulty, FactionType, FormationType, GameMode, ResourceType, UnitType } from './types';
+
+// The map is several screens big; the camera scrolls over it
+const MAP_WIDTH = 2700;
+const MAP_HEIGHT = 1800;
+
+// Session storage key for a map handed from the editor's Play button to the game page
+const PLAYTEST_MAP_KEY = 'mini_generals:playtest-map';
+
+// Format seconds of game time as m:ss
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+// Report map file and map generation problems to the player; anything else is a bug
+const withMapErrors = async (action: string, run: () => void | Promise<void>) => {
+  try {
+    await run();
+  } catch (error) {
+    if (!(error instanceof MapError || error instanceof MapgenError)) throw error;
+    alert(`Could not ${action}: ${error.message}`);
+  }
+};
+
+// Map editor page (?editor): the editor panel replaces the match HUD
+const setupMapEditor = (canvas: HTMLCanvasElement) => {
+  const hud = document.querySelector<HTMLElement>('.hud');
+  if (hud) {
+    hud.hidden = true;
+  }
+  const editorPanel = document.getElementById('editor-panel');
+  if (editorPanel) {
+    editorPanel.hidden = false;
+  }
+
+  const editor = new MapEditor(canvas, createBlankMap('New map', MAP_WIDTH, MAP_HEIGHT));
+  const nameInput = document.getElementById('editor-name') as HTMLInputElement | null;
+  const widthInput = document.getElementById('editor-width') as HTMLInputElement | null;
+  const heightInput = document.getElementById('editor-height') as HTMLInputElement | null;
+
+  // Show the map's name and size after it is swapped for another
+  const showMapDetails = () => {
+    const map = editor.getMap();
+    if (nameInput) nameInput.value = map.name;
+    if (widthInput) widthInput.value = map.width.toString();
+    if (heightInput) heightInput.value = map.height.toString();
+  };
+  showMapDetails();
+
+  if (nameInput) {
+    nameInput.addEventListener('input', () => {
+      editor.setName(nameInput.value.trim() || 'Untitled map');
+    });
+  }
+
+  // Tool picker: each tool shows only the settings it uses
+  const toolSelect = document.getElementById('editor-tool') as HTMLSelectElement | null;
+  const brushLabel = document.getElementById('editor-brush-label');
+  const brushInput = document.getElementById('editor-brush') as HTMLInputElement | null;
+  const depositLabel = document.getElementById('editor-deposit-label');
+  const amountInput = document.getElementById('editor-amount') as HTMLInputElement | null;
+  const regrowDelayInput = document.getElementById('editor-regrow-delay') as HTMLInputElement | null;
+  const regrowRateInput = document.getElementById('editor-regrow-rate') as HTMLInputElement | null;
+  const sizeLabel = document.getElementById('editor-size-label');
+  const objectSizeInput = document.getElementById('editor-object-size') as HTMLInputElement | null;
+
+  const showToolSettings = () => {
+    const depositType = editor.getDepositType();
+    const objectType = editor.getObjectType();
+    if (brushLabel) brushLabel.hidden = editor.getPaintType() === null;
+    if (depositLabel) depositLabel.hidden = depositType === null;
+    if (sizeLabel) sizeLabel.hidden = objectType === null;
+
+    if (depositType && amountInput && regrowDelayInput && regrowRateInput) {
+      const settings = editor.getDepositSettings(depositType);
+      amountInput.value = settings.amount.toString();
+      regrowDelayInput.value = settings.regrowDelay.toString();
+      regrowRateInput.value = settings.regrowPerSecond.toString();
+    }
+    if (objectType && objectSizeInput) {
+      objectSizeInput.value = editor.getObjectSize(objectType).toString();
+    }
+  };
+
+  if (toolSelect) {
+    toolSelect.value = editor.getTool();
+    toolSelect.addEventListener('change', () => {
+      const tool = Object.values(EditorTool).find(option => option === toolSelect.value);
+      if (tool) {
+        editor.setTool(tool);
+        showToolSettings();
+      }
+    });
+  }
+  showToolSettings();
+
+  if (brushInput) {
+    brushInput.addEventListener('input', () => {
+      editor.setBrushSize(parseInt(brushInput.value));
+    });
+  }
+
+  // Deposit settings apply to deposits placed from then on; out-of-range values are ignored
+  [amountInput, regrowDelayInput, regrowRateInput].forEach(input => {
+    input?.addEventListener('change', () => {
+      const depositType = editor.getDepositType();
+      if (!depositType || !amountInput || !regrowDelayInput || !regrowRateInput) return;
+      
+      const amount = Number(amountInput.value);
+      const regrowDelay = Number(regrowDelayInput.value);
+      const regrowPerSecond = Number(regrowRateInput.value);
+      if (amount > 0 && regrowDelay >= 0 && regrowPerSecond >= 0) {
+        editor.setDepositSettings(depositType, { amount, regrowDelay, regrowPerSecond });
+      }
+      showToolSettings();
+    });
+  });
+
+  if (objectSizeInput) {
+    objectSizeInput.addEventListener('change', () => {
+      const objectType = editor.getObjectType();
+      const size = Number(objectSizeInput.value);
+      if (objectType && size > 0) {
+        editor.setObjectSize(objectType, size);
+      }
+      showToolSettings();
+    });
+  }
+
+  // New and generated maps take the size from the inputs, kept within what a map file allows
+  const readMapSize = (input: HTMLInputElement | null, fallback: number): number => {
+    const size = Number(input?.value);
+    if (!Number.isFinite(size)) return fallback;
+    return Math.min(MAP_SIZE_LIMITS.max, Math.max(MAP_SIZE_LIMITS.min, Math.round(size)));
+  };
+
+  const newMapBtn = document.getElementById('editor-new-btn');
+  if (newMapBtn) {
+    newMapBtn.addEventListener('click', () => {
+      const name = nameInput?.value.trim() || 'New map';
+      editor.newMap(name, readMapSize(widthInput, MAP_WIDTH), readMapSize(heightInput, MAP_HEIGHT));
+      showMapDetails();
+    });
+  }
+
+  const playersInput = document.getElementById('editor-players') as HTMLInputElement | null;
+  const generateBtn = document.getElementById('editor-generate-btn');
+  if (generateBtn) {
+    generateBtn.addEventListener('click', () => {
+      const name = nameInput?.value.trim() || 'Generated map';
+      const players = Math.min(8, Math.max(1, parseInt(playersInput?.value ?? '') || 2));
+      withMapErrors('generate map', () => {
+        editor.generateMap(name, readMapSize(widthInput, MAP_WIDTH), readMapSize(heightInput, MAP_HEIGHT), players, randomSeed());
+        showMapDetails();
+      });
+    });
+  }
+
+  // Map save: download the map as a JSON file
+  const saveMapBtn = document.getElementById('editor-save-btn');
+  if (saveMapBtn) {
+    saveMapBtn.addEventListener('click', () => {
+      const map = editor.getMap();
+      const fileName = map.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'map';
+      const blob = new Blob([serializeMap(map)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileName}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  }
+
+  // Map load: open a map file to carry on editing it
+  const loadMapInput = document.getElementById('editor-load-input') as HTMLInputElement | null;
+  if (loadMapInput) {
+    loadMapInput.addEventListener('change', async () => {
+      const file = loadMapInput.files?.[0];
+      loadMapInput.value = '';
+      if (!file) return;
+      
+      await withMapErrors('load map', async () => {
+        editor.loadMap(parseMap(await file.text()));
+        showMapDetails();
+      });
+    });
+  }
+
+  // Playtest: hand the map to the game page, which starts a match on it
+  const playMapBtn = document.getElementById('editor-play-btn');
+  if (playMapBtn) {
+    playMapBtn.addEventListener('click', () => {
+      sessionStorage.setItem(PLAYTEST_MAP_KEY, serializeMap(editor.getMap()));
+      window.location.href = window.location.pathname;
+    });
+  }
+
+  // Keep the fairness report up to date while the map is edited
+  const reportElement = document.getElementById('editor-report');
+  setInterval(() => {
+    if (!reportElement) return;
+    const report = editor.getReport();
+    if (report.starts.length < 2) {
+      reportElement.textContent = 'Place two or more starts to check fairness';
+    } else if (report.isFair) {
+      reportElement.textContent = `${report.starts.length} starts, fair`;
+    } else {
+      reportElement.textContent = `${report.starts.length} starts, ${report.warnings.length} warning(s)`;
+    }
+    reportElement.title = report.warnings.join('\n');
+  }, 1000);
+};
 
 // Wait for DOM to be fully loaded
 document.addEventListener('DOMContentLoaded', () => {
@@ -10,36 +233,415 @@ document.addEventListener('DOMContentLoaded', () => {
     return;
   }
 
-  // Set canvas initial size (will be adjusted by renderer)
+  // Canvas size is the camera viewport, not the map size
   canvas.width = 900;
   canvas.height = 600;
 
-  // Initialize game controller with canvas and map dimensions
-  const gameController = new GameController(canvas, 900, 600);
+  // AI difficulty can be picked with ?difficulty=easy|normal|hard
+  const params = new URLSearchParams(window.location.search);
+  const difficultyParam = params.get('difficulty')?.toUpperCase();
+  const aiDifficulty = Object.values(AIDifficulty).find(level => level === difficultyParam) ?? AIDifficulty.NORMAL;
+  
+  // Game mode for local matches: ?mode=annihilation|base_destruction|king_of_the_hill|timed_score
+  const modeParam = params.get('mode')?.toUpperCase();
+  const mode = Object.values(GameMode).find(option => option === modeParam) ?? GameMode.ANNIHILATION;
+
+  // Play on a server with ?server=ws://localhost:8080&room=<name>&name=<player>&faction=usa|china|gla
+  const serverUrl = params.get('server');
+  const factionParam = params.get('faction')?.toUpperCase();
+  const networkConfig: NetworkJoinConfig | null = serverUrl
+    ? {
+      url: serverUrl,
+      roomId: params.get('room') ?? 'lobby',
+      name: params.get('name') ?? 'Player',
+      faction: Object.values(FactionType).find(faction => faction === factionParam) ?? FactionType.USA,
+    }
+    : null;
+
+  // ?editor opens the map editor instead of a match
+  if (params.has('editor')) {
+    setupMapEditor(canvas);
+    return;
+  }
+
+  // Initialize game controller with canvas and map dimensions (a server picks its own map)
+  const gameController = new GameController(canvas, MAP_WIDTH, MAP_HEIGHT, aiDifficulty, mode, networkConfig);
+
+  // Dev server only: saving src/data/balance.json retunes the running match
+  onBalanceReload(balance => gameController.setBalance(balance));
+
+  // A map sent from the editor's Play button is played once; reloading the page starts a normal match
+  const playtestMap = sessionStorage.getItem(PLAYTEST_MAP_KEY);
+  if (playtestMap !== null) {
+    sessionStorage.removeItem(PLAYTEST_MAP_KEY);
+    withMapErrors('play map', () => gameController.playMap(parseMap(playtestMap)));
+  }
+
+  // Unit creation buttons, one per unit in the player's faction roster
+  const unitButtons = document.getElementById('unit-buttons');
+  const keyBindings = gameController.getKeyBindings();
+  let shownRoster: UnitType[] = [];
+
+  const renderUnitButtons = (roster: UnitType[]) => {
+    if (!unitButtons) return;
+    unitButtons.replaceChildren();
+    roster.forEach((unitType, index) => {
+      const name = unitType.toLowerCase();
+      const button = document.createElement('button');
+      button.id = `${name}-btn`;
+      button.className = 'unit-btn';
+      const buildAction = BUILD_ACTIONS[index];
+      button.title = buildAction ? `${unitType} (${formatKeyBinding(keyBindings.getBinding(buildAction))})` : unitType;
+
+      const image = document.createElement('img');
+      image.src = `/mini_generals/assets/images/${name}.svg`;
+      image.alt = unitType;
+
+      const cost = document.createElement('span');
+      cost.className = 'cost';
+      cost.id = `${name}-cost`;
+
+      const supplyCost = document.createElement('span');
+      supplyCost.className = 'supply-cost';
+      supplyCost.id = `${name}-supply-cost`;
+      supplyCost.hidden = true;
 
-  // Set up unit creation buttons
-  const soldierBtn = document.getElementById('soldier-btn');
-  const tankBtn = document.getElementById('tank-btn');
-  const helicopterBtn = document.getElementById('helicopter-btn');
+      button.append(image, cost, supplyCost);
+      button.addEventListener('click', () => {
+        gameController.createUnit(index);
+      });
+      unitButtons.appendChild(button);
+    });
+    shownRoster = roster;
+  };
+  renderUnitButtons(gameController.getRoster());
+
+  // Production queue: one icon per queued unit with a progress bar, click to cancel for a refund
+  const productionQueue = document.getElementById('production-queue');
+  let shownQueue = '';
+
+  const updateProductionQueue = () => {
+    if (!productionQueue) return;
+    const queue = gameController.getProductionQueue();
+
+    // Rebuild only when items come or go, so a click is not lost to a rebuild
+    const ids = queue.map(item => item.id).join();
+    if (ids !== shownQueue) {
+      productionQueue.replaceChildren();
+      queue.forEach(item => {
+        const button = document.createElement('button');
+        button.className = 'queue-item';
+        button.title = `${item.unitType} (click to cancel)`;
+
+        const image = document.createElement('img');
+        image.src = `/mini_generals/assets/images/${item.unitType.toLowerCase()}.svg`;
+        image.alt = item.unitType;
 
-  if (soldierBtn) {
-    soldierBtn.addEventListener('click', () => {
-      gameController.createUnit(0); // 0 = SOLDIER
+        const progress = document.createElement('span');
+        progress.className = 'queue-progress';
+
+        button.append(image, progress);
+        button.addEventListener('click', () => {
+          gameController.cancelProduction(item.id);
+        });
+        productionQueue.appendChild(button);
+      });
+      shownQueue = ids;
+    }
+
+    queue.forEach((item, index) => {
+      const progress = productionQueue.children[index]?.querySelector<HTMLElement>('.queue-progress');
+      if (progress) {
+        progress.style.width = `${(item.progress / item.buildTime) * 100}%`;
+      }
+    });
+  };
+  setInterval(updateProductionQueue, 100);
+
+  // Formation picker and keep-together toggle, used for every group order from then on
+  const formationSelect = document.getElementById('formation-select') as HTMLSelectElement | null;
+  if (formationSelect) {
+    formationSelect.value = gameController.getFormationShape();
+    formationSelect.addEventListener('change', () => {
+      const shape = Object.values(FormationType).find(type => type === formationSelect.value);
+      if (shape) {
+        gameController.setFormationShape(shape);
+      }
+    });
+  }
+
+  const keepTogetherInput = document.getElementById('keep-together-input') as HTMLInputElement | null;
+  if (keepTogetherInput) {
+    keepTogetherInput.checked = gameController.isKeepingTogether();
+    keepTogetherInput.addEventListener('change', () => {
+      gameController.setKeepTogether(keepTogetherInput.checked);
+    });
+  }
+
+  // Key settings: one row per action, click its key and press a new one (Escape cancels)
+  const keyBindingsPanel = document.getElementById('keybindings-panel');
+  const keyBindingsList = document.getElementById('keybindings-list');
+
+  const renderKeyBindings = () => {
+    if (!keyBindingsList) return;
+    keyBindingsList.replaceChildren();
+    Object.values(InputAction).forEach(action => {
+      const label = document.createElement('span');
+      label.textContent = INPUT_ACTION_LABELS[action];
+
+      const button = document.createElement('button');
+      button.className = 'hud-btn';
+      button.textContent = formatKeyBinding(keyBindings.getBinding(action));
+      button.addEventListener('click', () => {
+        button.textContent = 'Press a key';
+        button.classList.add('waiting');
+        gameController.captureKeyBinding(binding => {
+          if (binding) {
+            keyBindings.setBinding(action, binding);
+          }
+          renderKeyBindings();
+          renderUnitButtons(shownRoster);
+        });
+      });
+      keyBindingsList.append(label, button);
+    });
+  };
+
+  const keyBindingsBtn = document.getElementById('keybindings-btn');
+  if (keyBindingsBtn && keyBindingsPanel) {
+    keyBindingsBtn.addEventListener('click', () => {
+      keyBindingsPanel.hidden = !keyBindingsPanel.hidden;
+      renderKeyBindings();
+    });
+  }
+
+  const keyBindingsResetBtn = document.getElementById('keybindings-reset-btn');
+  if (keyBindingsResetBtn) {
+    keyBindingsResetBtn.addEventListener('click', () => {
+      keyBindings.resetToDefaults();
+      renderKeyBindings();
+      renderUnitButtons(shownRoster);
+    });
+  }
+
+  const keyBindingsCloseBtn = document.getElementById('keybindings-close-btn');
+  if (keyBindingsCloseBtn && keyBindingsPanel) {
+    keyBindingsCloseBtn.addEventListener('click', () => {
+      keyBindingsPanel.hidden = true;
+    });
+  }
+
+  // Replays and saves are recorded locally, so they are not offered in online matches
+  const replayButtons = document.querySelector<HTMLElement>('.replay-buttons');
+  if (replayButtons && gameController.isOnline()) {
+    replayButtons.hidden = true;
+  }
+  const saveButtons = document.querySelector<HTMLElement>('.save-buttons');
+  if (saveButtons && gameController.isOnline()) {
+    saveButtons.hidden = true;
+  }
+  const mapButtons = document.querySelector<HTMLElement>('.map-buttons');
+  if (mapButtons && gameController.isOnline()) {
+    mapButtons.hidden = true;
+  }
+
+  // Save slots: fill the list with the browser's saves, newest first
+  const saveName = document.getElementById('save-name') as HTMLInputElement | null;
+  const saveSlots = document.getElementById('save-slots') as HTMLSelectElement | null;
+
+  const renderSaveSlots = (selected?: string) => {
+    if (!saveSlots) return;
+    saveSlots.replaceChildren();
+    listSaveSlots().forEach(slot => {
+      const option = document.createElement('option');
+      option.value = slot.name;
+      option.textContent = slot.savedAt
+        ? `${slot.name} (${formatTime(slot.gameTime)})`
+        : `${slot.name} (unreadable)`;
+      saveSlots.appendChild(option);
+    });
+    if (selected) {
+      saveSlots.value = selected;
+    }
+  };
+  renderSaveSlots();
+
+  // Report save and load problems to the player; anything else is a bug
+  const withSaveErrors = async (action: string, run: () => void | Promise<void>) => {
+    try {
+      await run();
+    } catch (error) {
+      if (!(error instanceof SaveError)) throw error;
+      alert(`Could not ${action}: ${error.message}`);
+    }
+  };
+
+  const saveBtn = document.getElementById('save-btn');
+  if (saveBtn) {
+    saveBtn.addEventListener('click', () => {
+      withSaveErrors('save', () => {
+        const name = saveName?.value.trim() || `Save ${new Date().toLocaleString()}`;
+        writeSaveSlot(gameController.saveGame(name));
+        renderSaveSlots(name);
+      });
+    });
+  }
+
+  const loadBtn = document.getElementById('load-btn');
+  if (loadBtn && saveSlots) {
+    loadBtn.addEventListener('click', () => {
+      if (!saveSlots.value) return;
+      withSaveErrors('load save', () => gameController.loadGame(readSaveSlot(saveSlots.value)));
+    });
+  }
+
+  const deleteSaveBtn = document.getElementById('delete-save-btn');
+  if (deleteSaveBtn && saveSlots) {
+    deleteSaveBtn.addEventListener('click', () => {
+      if (!saveSlots.value || !confirm(`Delete save "${saveSlots.value}"?`)) return;
+      deleteSaveSlot(saveSlots.value);
+      renderSaveSlots();
     });
   }
 
-  if (tankBtn) {
-    tankBtn.addEventListener('click', () => {
-      gameController.createUnit(1); // 1 = TANK
+  // Save export: download the current match as a JSON file
+  const exportSaveBtn = document.getElementById('export-save-btn');
+  if (exportSaveBtn) {
+    exportSaveBtn.addEventListener('click', () => {
+      withSaveErrors('export save', () => {
+        const name = saveName?.value.trim() || 'Exported game';
+        const blob = new Blob([serializeSave(gameController.saveGame(name))], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `mini-generals-save-${Date.now()}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+      });
     });
   }
 
-  if (helicopterBtn) {
-    helicopterBtn.addEventListener('click', () => {
-      gameController.createUnit(2); // 2 = HELICOPTER
+  // Save import: load a file and carry on playing it
+  const importSaveInput = document.getElementById('import-save-input') as HTMLInputElement | null;
+  if (importSaveInput) {
+    importSaveInput.addEventListener('change', async () => {
+      const file = importSaveInput.files?.[0];
+      importSaveInput.value = '';
+      if (!file) return;
+      
+      await withSaveErrors('load save', async () => gameController.loadGame(parseSave(await file.text())));
     });
   }
 
+  // Replay export: download the current match as a JSON file
+  const exportReplayBtn = document.getElementById('export-replay-btn');
+  if (exportReplayBtn) {
+    exportReplayBtn.addEventListener('click', () => {
+      const blob = new Blob([serializeReplay(gameController.exportReplay())], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `mini-generals-replay-${Date.now()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  }
+
+  // Replay import: load a file and switch to playback
+  const importReplayInput = document.getElementById('import-replay-input') as HTMLInputElement | null;
+  if (importReplayInput) {
+    importReplayInput.addEventListener('change', async () => {
+      const file = importReplayInput.files?.[0];
+      importReplayInput.value = '';
+      if (!file) return;
+      
+      try {
+        gameController.loadReplay(parseReplay(await file.text()));
+      } catch (error) {
+        if (!(error instanceof ReplayError)) throw error;
+        alert(`Could not load replay: ${error.message}`);
+      }
+    });
+  }
+
+  // Map import: start a local match on a map file
+  const importMapInput = document.getElementById('import-map-input') as HTMLInputElement | null;
+  if (importMapInput) {
+    importMapInput.addEventListener('change', async () => {
+      const file = importMapInput.files?.[0];
+      importMapInput.value = '';
+      if (!file) return;
+      
+      await withMapErrors('play map', async () => gameController.playMap(parseMap(await file.text())));
+    });
+  }
+
+  // Replay playback controls
+  const replayControls = document.getElementById('replay-controls');
+  const replayPlayBtn = document.getElementById('replay-play-btn');
+  const replaySeek = document.getElementById('replay-seek') as HTMLInputElement | null;
+  const replaySpeed = document.getElementById('replay-speed') as HTMLSelectElement | null;
+  const replayTime = document.getElementById('replay-time');
+  const replayExitBtn = document.getElementById('replay-exit-btn');
+
+  if (replayPlayBtn) {
+    replayPlayBtn.addEventListener('click', () => {
+      const replayPlayer = gameController.getReplayPlayer();
+      if (!replayPlayer) return;
+      replayPlayer.setPaused(!replayPlayer.isPaused());
+    });
+  }
+
+  // Don't move the slider under the user's pointer while they drag it
+  let isSeeking = false;
+  if (replaySeek) {
+    replaySeek.addEventListener('pointerdown', () => {
+      isSeeking = true;
+    });
+    replaySeek.addEventListener('change', () => {
+      isSeeking = false;
+    });
+    replaySeek.addEventListener('input', () => {
+      gameController.getReplayPlayer()?.seek(parseInt(replaySeek.value));
+    });
+  }
+
+  if (replaySpeed) {
+    replaySpeed.addEventListener('change', () => {
+      gameController.getReplayPlayer()?.setSpeed(parseFloat(replaySpeed.value));
+    });
+  }
+
+  if (replayExitBtn) {
+    replayExitBtn.addEventListener('click', () => {
+      gameController.exitReplay();
+    });
+  }
+
+  // Keep the playback controls in sync with the replay
+  setInterval(() => {
+    const replayPlayer = gameController.getReplayPlayer();
+    if (replayControls) {
+      replayControls.hidden = replayPlayer === null;
+    }
+    if (!replayPlayer) return;
+    
+    const tickDuration = replayPlayer.getTickDuration();
+    if (replayPlayBtn) {
+      replayPlayBtn.textContent = replayPlayer.isPaused() ? 'Play' : 'Pause';
+    }
+    if (replaySeek && !isSeeking) {
+      replaySeek.max = replayPlayer.getEndTick().toString();
+      replaySeek.value = replayPlayer.getCurrentTick().toString();
+    }
+    if (replaySpeed) {
+      replaySpeed.value = replayPlayer.getSpeed().toString();
+    }
+    if (replayTime) {
+      replayTime.textContent = `${formatTime(replayPlayer.getCurrentTick() * tickDuration)} / ${formatTime(replayPlayer.getEndTick() * tickDuration)}`;
+    }
+  }, 250);
+
   // Update the resource display
   setInterval(() => {
     const gameState = gameController.getState();
@@ -54,28 +656,29 @@ document.addEventListener('DOMContentLoaded', () => {
       moneyElement.textContent = player.resources[ResourceType.MONEY].toString();
     }
     
-    // Update unit costs based on player's unit count
-    const unitCount = player.units.length;
-    const soldierCostElement = document.getElementById('soldier-cost');
-    const tankCostElement = document.getElementById('tank-cost');
-    const helicopterCostElement = document.getElementById('helicopter-cost');
-    
-    if (soldierCostElement) {
-      const baseCost = 150;
-      const scaledCost = Math.floor(baseCost * (1 + unitCount * 0.05));
-      soldierCostElement.textContent = scaledCost.toString();
+    const suppliesElement = document.getElementById('supplies');
+    if (suppliesElement) {
+      suppliesElement.textContent = player.resources[ResourceType.SUPPLIES].toString();
     }
     
-    if (tankCostElement) {
-      const baseCost = 450;
-      const scaledCost = Math.floor(baseCost * (1 + unitCount * 0.05));
-      tankCostElement.textContent = scaledCost.toString();
+    // The roster changes when a replay shows a player of another faction
+    const roster = gameController.getRoster();
+    if (roster.join() !== shownRoster.join()) {
+      renderUnitButtons(roster);
     }
     
-    if (helicopterCostElement) {
-      const baseCost = 700;
-      const scaledCost = Math.floor(baseCost * (1 + unitCount * 0.05));
-      helicopterCostElement.textContent = scaledCost.toString();
-    }
+    // Update unit costs from the engine
+    roster.forEach(unitType => {
+      const costElement = document.getElementById(`${unitType.toLowerCase()}-cost`);
+      const supplyCostElement = document.getElementById(`${unitType.toLowerCase()}-supply-cost`);
+      const cost = gameController.getUnitCost(unitType);
+      if (costElement && cost !== null) {
+        costElement.textContent = cost[ResourceType.MONEY].toString();
+      }
+      if (supplyCostElement && cost !== null) {
+        supplyCostElement.textContent = cost[ResourceType.SUPPLIES].toString();
+        supplyCostElement.hidden = cost[ResourceType.SUPPLIES] === 0;
+      }
+    });
   }, 1000);
 }); 
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { ResourceBalance } from './balance';
+import { FairnessReport, GeneratedMap, MapSymmetry, analyzeMap } from './mapgen';
+import { TILE_SIZE, createTerrain, fillRect } from './terrain';
+import { Position, ResourceType, TerrainMap, TerrainType } from './types';
+
+// Bump when the file layout changes; older files are rejected with a clear error
+export const MAP_VERSION = 1;
+
+// Smallest and largest map side accepted, in pixels
+export const MAP_SIZE_LIMITS = { min: 400, max: 8000 };
+
+// Letter for each terrain type in the map's tile rows
+const TERRAIN_CODES: Record<TerrainType, string> = {
+  [TerrainType.GRASS]: '.',
+  [TerrainType.WATER]: '~',
+  [TerrainType.CLIFF]: '#',
+  [TerrainType.BUILDING]: 'B',
+};
+
+const TERRAIN_BY_CODE = new Map(Object.entries(TERRAIN_CODES).map(([type, code]) => [code, type as TerrainType]));
+
+// Things on the map that belong to nobody
+export enum MapObjectType {
+  HILL = 'HILL', // Control zone for King of the Hill; the mode uses the middle of the map when there is none
+  BUILDING = 'BUILDING', // Civilian building that blocks ground units
+}
+
+// A deposit as the map places it
+export interface MapResource {
+  type: ResourceType;
+  position: Position;
+  amount: number; // When full
+  regrowDelay: number; // Seconds it must be left alone before it starts growing back
+  regrowPerSecond: number;
+}
+
+export interface MapObject {
+  type: MapObjectType;
+  position: Position;
+  size: number; // Width and height of a building, or radius of a hill's zone, in pixels
+}
+
+// A hand-made or saved map: everything a match needs to lay out the ground before players join
+export interface MapFile {
+  version: number;
+  name: string;
+  width: number;
+  height: number;
+  tileSize: number;
+  terrain: string[]; // One string per row of tiles, top first, one letter per tile (. grass, ~ water, # cliff, B building)
+  starts: Position[]; // Handed to players in turn, each one furthest from the bases already placed
+  resources: MapResource[];
+  objects: MapObject[];
+}
+
+export class MapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapError';
+  }
+}
+
+// Tile rows for a terrain grid
+export const encodeTerrain = (terrain: TerrainMap): string[] =>
+  Array.from({ length: terrain.rows }, (_, row) =>
+    terrain.tiles.slice(row * terrain.columns, (row + 1) * terrain.columns).map(type => TERRAIN_CODES[type]).join('')
+  );
+
+// The map's painted tiles, without its objects
+export const decodeTerrain = (map: MapFile): TerrainMap => {
+  const terrain = createTerrain(map.width, map.height, map.tileSize);
+  terrain.tiles = map.terrain.flatMap(row => [...row].map(code => TERRAIN_BY_CODE.get(code) ?? TerrainType.GRASS));
+  return terrain;
+};
+
+// Put the map's buildings on a terrain grid
+export const placeMapObjects = (terrain: TerrainMap, objects: MapObject[]): void => {
+  objects.forEach(object => {
+    if (object.type === MapObjectType.BUILDING) {
+      fillRect(terrain, object.position, object.size, object.size, TerrainType.BUILDING);
+    }
+  });
+};
+
+// The ground a match is played on: painted tiles with the buildings put on top
+export const createMapTerrain = (map: MapFile): TerrainMap => {
+  const terrain = decodeTerrain(map);
+  placeMapObjects(terrain, map.objects);
+  return terrain;
+};
+
+// An empty field of grass with nothing on it
+export const createBlankMap = (name: string, width: number, height: number): MapFile => ({
+  version: MAP_VERSION,
+  name,
+  width,
+  height,
+  tileSize: TILE_SIZE,
+  terrain: encodeTerrain(createTerrain(width, height)),
+  starts: [],
+  resources: [],
+  objects: [],
+});
+
+// Keep a generated map as a file, with deposits growing back at the balance data's rates
+export const createMapFromGenerated = (
+  name: string,
+  width: number,
+  height: number,
+  generated: GeneratedMap,
+  resources: Record<ResourceType, ResourceBalance>
+): MapFile => ({
+  version: MAP_VERSION,
+  name,
+  width,
+  height,
+  tileSize: generated.terrain.tileSize,
+  terrain: encodeTerrain(generated.terrain),
+  starts: generated.starts.map(start => ({ ...start })),
+  resources: generated.deposits.map(deposit => ({
+    type: deposit.type,
+    position: { ...deposit.position },
+    amount: deposit.amount,
+    regrowDelay: resources[deposit.type].regrowDelay,
+    regrowPerSecond: resources[deposit.type].regrowPerSecond,
+  })),
+  objects: [],
+});
+
+// Fairness report for a map file; hand-made maps have no seed or known symmetry
+export const analyzeMapFile = (map: MapFile): FairnessReport =>
+  analyzeMap(createMapTerrain(map), map.starts, map.resources, null, MapSymmetry.NONE);
+
+export const serializeMap = (map: MapFile): string => JSON.stringify(map, null, 2);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Check data already read from JSON, e.g. a map inside a replay's match config
+export const validateMap = (data: unknown): MapFile => {
+  const map = data as Partial<MapFile>;
+  if (typeof map !== 'object' || map === null || typeof map.version !== 'number') {
+    throw new MapError('Map file has no version');
+  }
+  if (map.version > MAP_VERSION) {
+    throw new MapError(`Map version ${map.version} is newer than this game supports (${MAP_VERSION})`);
+  }
+  if (map.version < MAP_VERSION) {
+    throw new MapError(`Map version ${map.version} is no longer supported`);
+  }
+
+  const errors: string[] = [];
+  const { width, height, tileSize } = map;
+  if (typeof map.name !== 'string') errors.push('name must be a string');
+  [['width', width], ['height', height]].forEach(([label, size]) => {
+    if (!isNumber(size) || size < MAP_SIZE_LIMITS.min || size > MAP_SIZE_LIMITS.max) {
+      errors.push(`${label} must be a number from ${MAP_SIZE_LIMITS.min} to ${MAP_SIZE_LIMITS.max}`);
+    }
+  });
+  if (!isNumber(tileSize) || !Number.isInteger(tileSize) || tileSize < 10 || tileSize > 50) {
+    errors.push('tileSize must be a whole number from 10 to 50');
+  }
+  if (errors.length > 0) {
+    throw new MapError(`Invalid map file:\n  ${errors.join('\n  ')}`);
+  }
+
+  // Tile rows must cover the map exactly, in known letters
+  const columns = Math.ceil(width! / tileSize!);
+  const rows = Math.ceil(height! / tileSize!);
+  if (!Array.isArray(map.terrain) || map.terrain.length !== rows) {
+    errors.push(`terrain must have ${rows} rows`);
+  } else {
+    map.terrain.forEach((row, index) => {
+      if (typeof row !== 'string' || row.length !== columns) {
+        errors.push(`terrain[${index}] must be ${columns} tiles long`);
+      } else if ([...row].some(code => !TERRAIN_BY_CODE.has(code))) {
+        errors.push(`terrain[${index}] has an unknown tile; use ${Object.values(TERRAIN_CODES).join(' ')}`);
+      }
+    });
+  }
+
+  const checkPosition = (position: unknown, path: string): void => {
+    const point = position as Partial<Position> | null;
+    if (!point || !isNumber(point.x) || !isNumber(point.y) ||
+        point.x < 0 || point.y < 0 || point.x > width! || point.y > height!) {
+      errors.push(`${path} must be a position on the map`);
+    }
+  };
+
+  if (!Array.isArray(map.starts)) {
+    errors.push('starts must be a list');
+  } else {
+    map.starts.forEach((start, index) => checkPosition(start, `starts[${index}]`));
+  }
+
+  if (!Array.isArray(map.resources)) {
+    errors.push('resources must be a list');
+  } else {
+    map.resources.forEach((resource, index) => {
+      const path = `resources[${index}]`;
+      if (!Object.values(ResourceType).includes(resource?.type)) {
+        errors.push(`${path}.type must be one of ${Object.values(ResourceType).join(', ')}`);
+      }
+      checkPosition(resource?.position, `${path}.position`);
+      if (!isNumber(resource?.amount) || resource.amount <= 0) errors.push(`${path}.amount must be more than 0`);
+      if (!isNumber(resource?.regrowDelay) || resource.regrowDelay < 0) {
+        errors.push(`${path}.regrowDelay must be 0 or more`);
+      }
+      if (!isNumber(resource?.regrowPerSecond) || resource.regrowPerSecond < 0) {
+        errors.push(`${path}.regrowPerSecond must be 0 or more`);
+      }
+    });
+  }
+
+  if (!Array.isArray(map.objects)) {
+    errors.push('objects must be a list');
+  } else {
+    map.objects.forEach((object, index) => {
+      const path = `objects[${index}]`;
+      if (!Object.values(MapObjectType).includes(object?.type)) {
+        errors.push(`${path}.type must be one of ${Object.values(MapObjectType).join(', ')}`);
+      }
+      checkPosition(object?.position, `${path}.position`);
+      if (!isNumber(object?.size) || object.size <= 0) errors.push(`${path}.size must be more than 0`);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new MapError(`Invalid map file:\n  ${errors.join('\n  ')}`);
+  }
+  return map as MapFile;
+};
+
+// Read a map file, checking that it is one we know how to load
+export const parseMap = (json: string): MapFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new MapError('Map file is not valid JSON');
+  }
+  return validateMap(data);
+};
@@ -0,0 +1,480 @@
+import { ResourceBalance } from './balance';
+import { findPath } from './pathfinding';
+import { SeededRandom } from './random';
+import {
+  fillArea,
+  generateTerrain,
+  getTile,
+  isInsideTerrain,
+  isTilePassable,
+  tileCenter,
+  worldToTile,
+} from './terrain';
+import { Position, ResourceType, TerrainMap, TerrainType } from './types';
+
+// Map generator config; distances are in pixels on a map whose shorter side is at least fullScaleSide
+// Smaller maps shrink every distance by the same share so their starts keep their expansions
+const MAPGEN_CONFIG = {
+  fullScaleSide: 1200,
+  minDistanceScale: 0.5, // Below this share expansions would crowd the bases, so the map is turned down
+  edgeMargin: 120, // Starts keep this far from the map edge
+  resourceMargin: 80, // Deposits keep this far from the map edge
+  minStartDistance: 400, // Starts closer than this to each other are reported as unfair
+  startClearRadius: 120, // Open ground kept around each start
+  depositClearRadius: 25, // Open ground kept around each deposit
+  depositSpacing: 70, // Least distance between two deposits
+  corridorRadius: 30, // Half-width of the passage cut when a start cannot reach the middle
+  middleClearRadius: 40, // Open ground kept in the middle of the map
+  expansionsPerStart: { [ResourceType.MONEY]: 2, [ResourceType.SUPPLIES]: 1 } as Record<ResourceType, number>,
+  expansionDistance: { min: 140, max: 280 }, // From the start the expansion belongs to
+  expansionLead: 40, // An expansion is at least this much closer to its own start than to any other
+  contestedPerStart: { [ResourceType.MONEY]: 1, [ResourceType.SUPPLIES]: 1 } as Record<ResourceType, number>,
+  contestedDistance: { min: 0.1, max: 0.35 }, // From the middle, as a share of the shorter map side
+  placementAttempts: 50,
+  nearbyRadius: 320, // Deposits this close to a start, and closer to it than to any other, count as its own
+  openGroundRadius: 300, // Ground on the map around a start counted for the report
+  fairnessTolerance: 0.1, // Largest spread between the best and worst start still reported as fair
+};
+
+// Thrown when a map is too small to give its starts the same deposits
+export class MapgenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapgenError';
+  }
+}
+
+// How the starts mirror each other
+export enum MapSymmetry {
+  NONE = 'NONE', // A single start
+  ROTATIONAL = 'ROTATIONAL', // Turned about the middle once per start
+  MIRROR = 'MIRROR', // Mirrored left-right and top-bottom, with the four starts in the corners
+}
+
+// A deposit the generator placed, before it is turned into a resource
+export interface DepositSpot {
+  type: ResourceType;
+  position: Position;
+  amount: number; // When full
+  startIndex: number | null; // Start the deposit is an expansion of; null for contested deposits in the middle
+}
+
+// How one start compares with the others
+export interface StartReport {
+  position: Position;
+  nearestEnemyDistance: number | null; // Walking distance in pixels; null when no other start can be reached
+  middleDistance: number | null; // Walking distance to the middle of the map
+  nearbyDeposits: Record<ResourceType, number>;
+  nearbyAmount: Record<ResourceType, number>; // Resources in those deposits when full
+  openGround: number; // Share of the ground around the start that ground units can cross
+}
+
+// Whether a generated map gives every start the same chances
+export interface FairnessReport {
+  seed: number | null; // Seed the map was generated from; null for maps made another way
+  playerCount: number;
+  symmetry: MapSymmetry;
+  starts: StartReport[];
+  contestedDeposits: Record<ResourceType, number>;
+  spread: Record<string, number>; // Per measure, (best - worst) / best across the starts
+  isFair: boolean;
+  warnings: string[];
+}
+
+export interface GeneratedMap {
+  terrain: TerrainMap;
+  starts: Position[];
+  deposits: DepositSpot[];
+  report: FairnessReport;
+}
+
+// Map dimensions and the symmetry that ties the starts together
+interface MapFrame {
+  width: number;
+  height: number;
+  count: number;
+  symmetry: MapSymmetry;
+  angle: number; // Angle of start 0 about the middle
+  // Pixels per unit of the turned coordinates; two starts mirror through the middle and may
+  // stretch to the whole map, more need a true turn to stay equally far apart
+  scale: Position;
+  distanceScale: number; // Share of the config distances this map uses
+}
+
+// Share of the config distances a map of this size uses
+const getDistanceScale = (width: number, height: number): number =>
+  Math.min(1, Math.min(width, height) / MAPGEN_CONFIG.fullScaleSide);
+
+const distance = (a: Position, b: Position): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+const isInside = (frame: MapFrame, position: Position, margin: number): boolean =>
+  position.x >= margin && position.y >= margin &&
+  position.x <= frame.width - margin && position.y <= frame.height - margin;
+
+const chooseSymmetry = (playerCount: number): MapSymmetry => {
+  if (playerCount <= 1) return MapSymmetry.NONE;
+  if (playerCount === 4) return MapSymmetry.MIRROR;
+  return MapSymmetry.ROTATIONAL;
+};
+
+// The copy of a point on start 0's part of the map that belongs to each start, in start order
+const getImages = (frame: MapFrame, position: Position): Position[] => {
+  const { width, height, count } = frame;
+  switch (frame.symmetry) {
+    case MapSymmetry.NONE:
+      return [position];
+    case MapSymmetry.MIRROR:
+      return [
+        position,
+        { x: width - position.x, y: position.y },
+        { x: width - position.x, y: height - position.y },
+        { x: position.x, y: height - position.y },
+      ];
+    case MapSymmetry.ROTATIONAL: {
+      const u = (position.x - width / 2) / frame.scale.x;
+      const v = (position.y - height / 2) / frame.scale.y;
+      return Array.from({ length: count }, (_, index) => {
+        const turn = (index * 2 * Math.PI) / count;
+        return {
+          x: width / 2 + (u * Math.cos(turn) - v * Math.sin(turn)) * frame.scale.x,
+          y: height / 2 + (u * Math.sin(turn) + v * Math.cos(turn)) * frame.scale.y,
+        };
+      });
+    }
+  }
+};
+
+// The point on start 0's part of the map that a position is a copy of
+const getOriginal = (frame: MapFrame, position: Position): Position => {
+  const { width, height, count } = frame;
+  switch (frame.symmetry) {
+    case MapSymmetry.NONE:
+      return position;
+    case MapSymmetry.MIRROR:
+      return { x: Math.min(position.x, width - position.x), y: Math.min(position.y, height - position.y) };
+    case MapSymmetry.ROTATIONAL: {
+      const u = (position.x - width / 2) / frame.scale.x;
+      const v = (position.y - height / 2) / frame.scale.y;
+      const sector = (2 * Math.PI) / count;
+      const offset = Math.atan2(v, u) - frame.angle + sector / 2;
+      const index = Math.floor((((offset % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)) / sector);
+      const turn = -index * sector;
+      return {
+        x: width / 2 + (u * Math.cos(turn) - v * Math.sin(turn)) * frame.scale.x,
+        y: height / 2 + (u * Math.sin(turn) + v * Math.cos(turn)) * frame.scale.y,
+      };
+    }
+  }
+};
+
+// Where start 0 goes: a corner for mirrored maps, otherwise somewhere on a ring inside the map edge
+const chooseFirstStart = (frame: MapFrame, random: SeededRandom): Position => {
+  const { width, height } = frame;
+  const margin = MAPGEN_CONFIG.edgeMargin * frame.distanceScale;
+  if (frame.symmetry === MapSymmetry.MIRROR) {
+    return {
+      x: random.range(margin, Math.max(margin, width * 0.3)),
+      y: random.range(margin, Math.max(margin, height * 0.3)),
+    };
+  }
+  const radiusX = Math.max(0, frame.scale.x - margin);
+  const radiusY = Math.max(0, frame.scale.y - margin);
+  return {
+    x: width / 2 + Math.cos(frame.angle) * radiusX,
+    y: height / 2 + Math.sin(frame.angle) * radiusY,
+  };
+};
+
+// Lay the template's tiles out so every start sees the same ground around it
+const symmetrizeTerrain = (frame: MapFrame, template: TerrainMap): TerrainMap => ({
+  ...template,
+  tiles: template.tiles.map((_, index) => {
+    const center = tileCenter(template, {
+      column: index % template.columns,
+      row: Math.floor(index / template.columns),
+    });
+    const original = getOriginal(frame, center);
+    const tile = worldToTile(template, {
+      x: Math.min(Math.max(original.x, 0), frame.width - 1),
+      y: Math.min(Math.max(original.y, 0), frame.height - 1),
+    });
+    return getTile(template, tile.column, tile.row);
+  }),
+});
+
+// Shares in the report are kept to three decimals
+const roundShare = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Walking distance between two points in whole pixels, or null if one cannot be reached from the other
+const getWalkingDistance = (terrain: TerrainMap, from: Position, to: Position): number | null => {
+  const path = findPath(terrain, from, to);
+  if (path.length === 0 || distance(path[path.length - 1], to) > terrain.tileSize) return null;
+  let length = 0;
+  let current = from;
+  path.forEach(waypoint => {
+    length += distance(current, waypoint);
+    current = waypoint;
+  });
+  return Math.round(length);
+};
+
+// Cut a straight passage of open ground between two points
+const carveCorridor = (terrain: TerrainMap, from: Position, to: Position): void => {
+  const steps = Math.ceil(distance(from, to) / (terrain.tileSize / 2));
+  for (let step = 0; step <= steps; step++) {
+    const t = steps === 0 ? 0 : step / steps;
+    fillArea(
+      terrain,
+      { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t },
+      MAPGEN_CONFIG.corridorRadius,
+      TerrainType.GRASS
+    );
+  }
+};
+
+// Try random spots on start 0's part of the map until one fits everywhere it is copied to
+const placeGroup = (
+  frame: MapFrame,
+  random: SeededRandom,
+  deposits: DepositSpot[],
+  type: ResourceType,
+  amount: number,
+  startIndex: number | null,
+  pickPosition: () => Position,
+  fits: (images: Position[]) => boolean
+): boolean => {
+  const spacing = MAPGEN_CONFIG.depositSpacing * frame.distanceScale;
+  for (let attempt = 0; attempt < MAPGEN_CONFIG.placementAttempts; attempt++) {
+    const images = getImages(frame, pickPosition());
+    if (!images.every(image => isInside(frame, image, MAPGEN_CONFIG.resourceMargin * frame.distanceScale))) continue;
+    const isSpaced = images.every((image, index) =>
+      deposits.every(deposit => distance(deposit.position, image) >= spacing) &&
+      images.slice(0, index).every(other => distance(other, image) >= spacing)
+    );
+    if (!isSpaced || !fits(images)) continue;
+
+    images.forEach((position, index) => {
+      deposits.push({ type, position, amount, startIndex: startIndex === null ? null : index });
+    });
+    return true;
+  }
+  return false;
+};
+
+// Generate terrain, start positions and deposits for a number of players from a random source
+// Each start gets the same expansions nearby and contested deposits sit in the middle
+// Throws a MapgenError when the map is too small for that many starts or for every deposit
+export const generateMap = (
+  width: number,
+  height: number,
+  playerCount: number,
+  random: SeededRandom,
+  resources: Record<ResourceType, ResourceBalance>
+): GeneratedMap => {
+  const count = Math.max(1, Math.floor(playerCount));
+  const symmetry = chooseSymmetry(count);
+  const span = Math.min(width, height) / 2;
+  const frame: MapFrame = {
+    width,
+    height,
+    count,
+    symmetry,
+    angle: random.range(0, 2 * Math.PI),
+    scale: count === 2 ? { x: width / 2, y: height / 2 } : { x: span, y: span },
+    distanceScale: getDistanceScale(width, height),
+  };
+  const { distanceScale } = frame;
+  const tooSmall = `A ${width}x${height} map is too small for ${count} players`;
+  if (distanceScale < MAPGEN_CONFIG.minDistanceScale) {
+    const side = MAPGEN_CONFIG.fullScaleSide * MAPGEN_CONFIG.minDistanceScale;
+    throw new MapgenError(`${tooSmall}: its shorter side must be at least ${side}px`);
+  }
+
+  const starts = getImages(frame, chooseFirstStart(frame, random));
+  const middle = { x: width / 2, y: height / 2 };
+  const closest = Math.min(...starts.map((start, index) =>
+    Math.min(...starts.slice(index + 1).map(other => distance(start, other)))
+  ));
+  if (closest < MAPGEN_CONFIG.minStartDistance * distanceScale) {
+    throw new MapgenError(`${tooSmall}: starts would be only ${Math.round(closest)}px apart`);
+  }
+
+  // Terrain from the usual generator, copied around so every start gets the same surroundings
+  // Corners a turn carries off the map take the nearest template tile, so only the middle is exact
+  const terrain = symmetrizeTerrain(frame, generateTerrain(width, height, random));
+  fillArea(terrain, middle, MAPGEN_CONFIG.middleClearRadius * distanceScale, TerrainType.GRASS);
+  starts.forEach(start => fillArea(terrain, start, MAPGEN_CONFIG.startClearRadius * distanceScale, TerrainType.GRASS));
+  if (starts.some(start => getWalkingDistance(terrain, start, middle) === null)) {
+    starts.forEach(start => carveCorridor(terrain, start, middle));
+  }
+
+  const deposits: DepositSpot[] = [];
+  const expansionDistance = {
+    min: MAPGEN_CONFIG.expansionDistance.min * distanceScale,
+    max: MAPGEN_CONFIG.expansionDistance.max * distanceScale,
+  };
+  const expansionLead = MAPGEN_CONFIG.expansionLead * distanceScale;
+
+  // Expansions: near start 0, closer to it than to any other start, then copied to every start
+  const expansionTypes = Object.values(ResourceType);
+  expansionTypes.forEach(type => {
+    for (let i = 0; i < MAPGEN_CONFIG.expansionsPerStart[type]; i++) {
+      const isPlaced = placeGroup(
+        frame,
+        random,
+        deposits,
+        type,
+        resources[type].amount,
+        0,
+        () => {
+          const angle = random.range(0, 2 * Math.PI);
+          const radius = random.range(expansionDistance.min, expansionDistance.max);
+          return { x: starts[0].x + Math.cos(angle) * radius, y: starts[0].y + Math.sin(angle) * radius };
+        },
+        images => images.every((image, index) => {
+          const own = distance(image, starts[index]);
+          return own >= expansionDistance.min - 1 &&
+            starts.every((start, other) => other === index || distance(image, start) >= own + expansionLead);
+        })
+      );
+      if (!isPlaced) throw new MapgenError(`${tooSmall}: no room for ${type.toLowerCase()} expansion ${i + 1} of each start`);
+    }
+  });
+
+  // Contested deposits: around the middle, away from every start
+  expansionTypes.forEach(type => {
+    for (let i = 0; i < MAPGEN_CONFIG.contestedPerStart[type]; i++) {
+      const isPlaced = placeGroup(
+        frame,
+        random,
+        deposits,
+        type,
+        resources[type].amount,
+        null,
+        () => {
+          const angle = frame.angle + random.range(-Math.PI / count, Math.PI / count);
+          const radius = span * random.range(MAPGEN_CONFIG.contestedDistance.min, MAPGEN_CONFIG.contestedDistance.max);
+          return { x: middle.x + Math.cos(angle) * radius, y: middle.y + Math.sin(angle) * radius };
+        },
+        images => images.every(image => starts.every(start => distance(image, start) >= expansionDistance.min))
+      );
+      if (!isPlaced) throw new MapgenError(`${tooSmall}: no room for contested ${type.toLowerCase()} deposit ${i + 1}`);
+    }
+  });
+  deposits.forEach(deposit => fillArea(terrain, deposit.position, MAPGEN_CONFIG.depositClearRadius, TerrainType.GRASS));
+
+  const report = analyzeMap(terrain, starts, deposits, random.getSeed(), symmetry);
+  return { terrain, starts, deposits, report };
+};
+
+// Measure how evenly a map treats its starts: distances, nearby resources and open ground
+// Works on any map, generated or not
+export const analyzeMap = (
+  terrain: TerrainMap,
+  starts: Position[],
+  deposits: Omit<DepositSpot, 'startIndex'>[],
+  seed: number | null = null,
+  symmetry: MapSymmetry = MapSymmetry.NONE
+): FairnessReport => {
+  const types = Object.values(ResourceType);
+  const countByType = (): Record<ResourceType, number> =>
+    Object.fromEntries(types.map(type => [type, 0])) as Record<ResourceType, number>;
+  const width = terrain.columns * terrain.tileSize;
+  const height = terrain.rows * terrain.tileSize;
+  const middle = { x: width / 2, y: height / 2 };
+  const distanceScale = getDistanceScale(width, height);
+  const warnings: string[] = [];
+
+  const nearestStart = (position: Position): number => {
+    let best = 0;
+    starts.forEach((start, index) => {
+      if (distance(position, start) < distance(position, starts[best])) best = index;
+    });
+    return best;
+  };
+
+  const contestedDeposits = countByType();
+  const reports: StartReport[] = starts.map(position => ({
+    position: { x: Math.round(position.x), y: Math.round(position.y) },
+    nearestEnemyDistance: null,
+    middleDistance: getWalkingDistance(terrain, position, middle),
+    nearbyDeposits: countByType(),
+    nearbyAmount: countByType(),
+    openGround: 0,
+  }));
+
+  deposits.forEach(deposit => {
+    const index = nearestStart(deposit.position);
+    if (starts.length > 0 && distance(deposit.position, starts[index]) <= MAPGEN_CONFIG.nearbyRadius * distanceScale) {
+      reports[index].nearbyDeposits[deposit.type]++;
+      reports[index].nearbyAmount[deposit.type] += deposit.amount;
+    } else {
+      contestedDeposits[deposit.type]++;
+    }
+  });
+
+  starts.forEach((start, index) => {
+    for (let other = index + 1; other < starts.length; other++) {
+      if (distance(start, starts[other]) < MAPGEN_CONFIG.minStartDistance * distanceScale) {
+        warnings.push(`Starts ${index + 1} and ${other + 1} are only ${Math.round(distance(start, starts[other]))}px apart`);
+      }
+      const walk = getWalkingDistance(terrain, start, starts[other]);
+      if (walk === null) {
+        warnings.push(`Start ${index + 1} cannot reach start ${other + 1}`);
+        continue;
+      }
+      [index, other].forEach(side => {
+        const current = reports[side].nearestEnemyDistance;
+        reports[side].nearestEnemyDistance = current === null ? walk : Math.min(current, walk);
+      });
+    }
+    if (reports[index].middleDistance === null) warnings.push(`Start ${index + 1} cannot reach the middle`);
+
+    const center = worldToTile(terrain, start);
+    const tileRadius = Math.ceil((MAPGEN_CONFIG.openGroundRadius * distanceScale) / terrain.tileSize);
+    let open = 0;
+    let total = 0;
+    for (let row = center.row - tileRadius; row <= center.row + tileRadius; row++) {
+      for (let column = center.column - tileRadius; column <= center.column + tileRadius; column++) {
+        const dx = column - center.column;
+        const dy = row - center.row;
+        if (dx * dx + dy * dy > tileRadius * tileRadius || !isInsideTerrain(terrain, column, row)) continue;
+        total++;
+        if (isTilePassable(terrain, column, row)) open++;
+      }
+    }
+    reports[index].openGround = total === 0 ? 0 : roundShare(open / total);
+  });
+
+  // Relative gap between the best and worst start on each measure
+  const measures: Record<string, (report: StartReport) => number | null> = {
+    nearestEnemyDistance: report => report.nearestEnemyDistance,
+    middleDistance: report => report.middleDistance,
+    openGround: report => report.openGround,
+  };
+  types.forEach(type => {
+    measures[`nearby${type.charAt(0)}${type.slice(1).toLowerCase()}`] = report => report.nearbyAmount[type];
+  });
+
+  const spread: Record<string, number> = {};
+  Object.entries(measures).forEach(([name, measure]) => {
+    const values = reports.map(measure).filter((value): value is number => value !== null);
+    if (values.length < 2) return;
+    const best = Math.max(...values);
+    spread[name] = best === 0 ? 0 : roundShare((best - Math.min(...values)) / best);
+    if (spread[name] > MAPGEN_CONFIG.fairnessTolerance) {
+      warnings.push(`Starts differ by ${Math.round(spread[name] * 100)}% in ${name}`);
+    }
+  });
+
+  return {
+    seed,
+    playerCount: starts.length,
+    symmetry,
+    starts: reports,
+    contestedDeposits,
+    spread,
+    isFair: warnings.length === 0,
+    warnings,
+  };
+};
@@ -0,0 +1,48 @@
+import { BalanceData } from './balance';
+import { GameEngine, GameEngineOptions } from './engine';
+import { MapFile } from './mapfile';
+import { AIDifficulty, FactionType, GameMode } from './types';
+
+// One seat in a match
+export interface PlayerConfig {
+  name: string;
+  faction: FactionType;
+  aiDifficulty?: AIDifficulty; // Leave out for a human player
+}
+
+// Everything needed to set up the same match again
+export interface MatchConfig {
+  mapSize: {
+    width: number;
+    height: number;
+  };
+  seed: number;
+  players: PlayerConfig[];
+  mode?: GameMode; // Annihilation when left out
+  balance?: BalanceData; // The shipped balance data when left out
+  map?: MapFile; // A map generated from the seed when left out; its size wins over mapSize
+}
+
+export interface Match {
+  engine: GameEngine;
+  playerIds: string[]; // In the same order as config.players
+}
+
+// Build an engine on the configured map, or one generated for the configured players, and add them to it
+export const createMatch = (config: MatchConfig, options: Omit<GameEngineOptions, 'seed'> = {}): Match => {
+  const { width, height } = config.map ?? config.mapSize;
+  const engine = new GameEngine(width, height, {
+    ...options,
+    seed: config.seed,
+    mode: config.mode,
+    balance: config.balance,
+    startCount: config.players.length,
+    map: config.map,
+  });
+
+  const playerIds = config.players.map(player =>
+    engine.addPlayer(player.name, player.faction, player.aiDifficulty)
+  );
+
+  return { engine, playerIds };
+};
@@ -0,0 +1,335 @@
+import { CommandType, GameCommand } from './commands';
+import {
+  ClientMessage,
+  ClientMessageType,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  ServerMessageType,
+  UnitCostTable,
+  applyDelta,
+  createStateFromSnapshot,
+  linkPlayerUnits,
+} from './protocol';
+import { SpatialGrid } from './spatial';
+import { MAX_UNIT_RADIUS, getUnitRadius } from './units';
+import { findBaseAt } from './bases';
+import { PlayerVision } from './vision';
+import { Base, FactionType, GameState, Position, Unit, UnitCost, UnitType } from './types';
+
+// Client smoothing config
+const NETWORK_CONFIG = {
+  interpolationDelay: 0.1, // Seconds other players' units are shown behind the latest update
+  snapshotBufferSize: 10, // Past updates kept for interpolation
+  maxExtrapolation: 0.25, // Seconds our own units are predicted ahead of the server
+  predictionTimeout: 1, // Seconds before an unconfirmed move prediction is dropped
+  confirmDistance: 100, // A server path ending this close to our target confirms the move
+};
+
+// What the client needs from a socket, so Node bots can plug in another WebSocket implementation
+export interface NetworkSocket {
+  onopen: (() => void) | null;
+  onmessage: ((data: string) => void) | null;
+  onclose: (() => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface NetworkJoinConfig {
+  url: string; // e.g. ws://localhost:8080
+  roomId: string;
+  name: string;
+  faction: FactionType;
+}
+
+export enum ConnectionStatus {
+  CONNECTING = 'CONNECTING',
+  CONNECTED = 'CONNECTED', // Joined a room and received the match
+  CLOSED = 'CLOSED',
+}
+
+// Unit positions at one server tick, for interpolation
+interface PositionSnapshot {
+  tick: number;
+  positions: Map<string, Position>;
+}
+
+// A move we sent that the server has not acted on yet
+interface PendingMove {
+  target: Position;
+  sentAt: number;
+}
+
+const createBrowserSocket = (url: string): NetworkSocket => {
+  const socket = new WebSocket(url);
+  const wrapper: NetworkSocket = {
+    onopen: null,
+    onmessage: null,
+    onclose: null,
+    send: data => socket.send(data),
+    close: () => socket.close(),
+  };
+  socket.onopen = () => wrapper.onopen?.();
+  socket.onmessage = event => wrapper.onmessage?.(String(event.data));
+  socket.onclose = () => wrapper.onclose?.();
+  return wrapper;
+};
+
+// Connection to an authoritative server; presents its match as a smoothed game state
+// Other players' units are interpolated a little in the past, our own are extrapolated
+export class NetworkClient {
+  private socket: NetworkSocket;
+  private status: ConnectionStatus = ConnectionStatus.CONNECTING;
+  private error: string | null = null;
+  private playerId: string | null = null;
+  private tickDuration: number = 1 / 60;
+  private latestState: GameState | null = null; // As last sent by the server
+  private latestReceivedAt: number = 0;
+  private snapshots: PositionSnapshot[] = [];
+  private pendingMoves: Map<string, PendingMove> = new Map();
+  private unitCosts: UnitCostTable = {};
+  private view: GameState | null = null; // Smoothed state for this frame
+  private unitIndex: SpatialGrid | null = null;
+  private vision: PlayerVision | null = null; // Worked out here from the smoothed state
+  private onWelcome: ((playerId: string) => void) | null;
+
+  constructor(
+    config: NetworkJoinConfig,
+    onWelcome: ((playerId: string) => void) | null = null,
+    createSocket: (url: string) => NetworkSocket = createBrowserSocket
+  ) {
+    this.onWelcome = onWelcome;
+    this.socket = createSocket(config.url);
+    this.socket.onopen = () => {
+      this.send({
+        type: ClientMessageType.JOIN,
+        version: PROTOCOL_VERSION,
+        roomId: config.roomId,
+        name: config.name,
+        faction: config.faction,
+      });
+    };
+    this.socket.onmessage = data => {
+      this.handleMessage(JSON.parse(data) as ServerMessage);
+    };
+    this.socket.onclose = () => {
+      this.status = ConnectionStatus.CLOSED;
+      this.error = this.error ?? 'Connection to the server was lost';
+    };
+  }
+
+  public getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  // Last error reported by the server or the connection
+  public getError(): string | null {
+    return this.error;
+  }
+
+  public isReady(): boolean {
+    return this.view !== null;
+  }
+
+  public getPlayerId(): string | null {
+    return this.playerId;
+  }
+
+  // Smoothed state as of the last update() call
+  public getState(): GameState | null {
+    return this.view;
+  }
+
+  // State exactly as the server last sent it
+  public getLatestState(): GameState | null {
+    return this.latestState;
+  }
+
+  public getUnitCost(unitType: UnitType): UnitCost | null {
+    return this.unitCosts[unitType] ?? null;
+  }
+
+  // Best guess at the tick the server will apply a command sent now
+  public getNextTick(): number {
+    return Math.floor(this.estimateServerTick(performance.now())) + 1;
+  }
+
+  public submitCommand(command: GameCommand): void {
+    if (command.type === CommandType.MOVE && !command.queued) {
+      // Start moving straight away instead of waiting a round trip; queued moves wait their turn
+      const sentAt = performance.now();
+      command.unitIds.forEach(unitId => {
+        this.pendingMoves.set(unitId, { target: command.target, sentAt });
+      });
+    }
+    this.send({ type: ClientMessageType.COMMAND, command });
+  }
+
+  public close(): void {
+    this.socket.close();
+  }
+
+  // Build the smoothed state for the current frame
+  public update(now: number = performance.now()): void {
+    if (!this.latestState) return;
+
+    const renderTick = this.estimateServerTick(now) - NETWORK_CONFIG.interpolationDelay / this.tickDuration;
+    const units: GameState['units'] = {};
+    Object.values(this.latestState.units).forEach(unit => {
+      const position = unit.playerId === this.playerId
+        ? this.predictPosition(unit, now)
+        : this.interpolatePosition(unit, renderTick);
+      units[unit.id] = { ...unit, position };
+    });
+
+    const players: GameState['players'] = {};
+    Object.values(this.latestState.players).forEach(player => {
+      players[player.id] = { ...player, units: [] };
+    });
+
+    this.view = { ...this.latestState, players, units };
+    linkPlayerUnits(this.view);
+    this.unitIndex?.rebuild(Object.values(units));
+    this.vision?.update(this.view);
+  }
+
+  // Fog of war of our own player, worked out from our own units; the server only sends enemies in sight,
+  // and enemy bases we have seen, so there is no one else's to show
+  public getVision(playerId: string): PlayerVision | null {
+    return playerId === this.playerId ? this.vision : null;
+  }
+
+  public getUnitsInRect(min: Position, max: Position): Unit[] {
+    return this.unitIndex?.queryRect(min, max, unit => !unit.isDead) ?? [];
+  }
+
+  // Unit whose body covers a position, as drawn this frame
+  public findUnitAt(position: Position, filter?: (unit: Unit) => boolean): Unit | null {
+    if (!this.unitIndex) return null;
+    return this.unitIndex.findNearest(position, MAX_UNIT_RADIUS, unit => {
+      if (unit.isDead || (filter && !filter(unit))) return false;
+      const dx = unit.position.x - position.x;
+      const dy = unit.position.y - position.y;
+      return Math.sqrt(dx * dx + dy * dy) <= getUnitRadius(unit.type);
+    });
+  }
+
+  // Standing base whose footprint covers a position
+  public findBaseAt(position: Position, filter?: (base: Base) => boolean): Base | null {
+    return this.view ? findBaseAt(this.view, position, filter) : null;
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.status === ConnectionStatus.CLOSED) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case ServerMessageType.WELCOME:
+        this.status = ConnectionStatus.CONNECTED;
+        this.playerId = message.playerId;
+        this.tickDuration = 1 / message.tickRate;
+        this.latestState = createStateFromSnapshot(message.snapshot, message.mapSize, message.terrain);
+        this.unitIndex = new SpatialGrid(message.mapSize.width, message.mapSize.height);
+        this.vision = new PlayerVision(message.playerId, message.terrain);
+        this.unitCosts = message.unitCosts;
+        this.recordSnapshot();
+        this.update();
+        this.onWelcome?.(message.playerId);
+        break;
+
+      case ServerMessageType.DELTA:
+        if (!this.latestState) return;
+        applyDelta(this.latestState, message.delta);
+        this.unitCosts = message.unitCosts;
+        this.recordSnapshot();
+        this.confirmPendingMoves();
+        break;
+
+      case ServerMessageType.ERROR:
+        this.error = message.message;
+        break;
+    }
+  }
+
+  // Remember where every unit was at the latest tick
+  private recordSnapshot(): void {
+    if (!this.latestState) return;
+    const positions = new Map<string, Position>();
+    Object.values(this.latestState.units).forEach(unit => {
+      positions.set(unit.id, unit.position);
+    });
+    this.snapshots.push({ tick: this.latestState.tick, positions });
+    if (this.snapshots.length > NETWORK_CONFIG.snapshotBufferSize) {
+      this.snapshots.shift();
+    }
+    this.latestReceivedAt = performance.now();
+  }
+
+  // Drop predictions once the server shows the unit heading for our target, or gives up on it
+  private confirmPendingMoves(): void {
+    const now = performance.now();
+    this.pendingMoves.forEach((move, unitId) => {
+      const unit = this.latestState?.units[unitId];
+      const destination = unit?.path && unit.path.length > 0 ? unit.path[unit.path.length - 1] : null;
+      const confirmed = destination !== null && distance(destination, move.target) <= NETWORK_CONFIG.confirmDistance;
+      if (!unit || confirmed || now - move.sentAt > NETWORK_CONFIG.predictionTimeout * 1000) {
+        this.pendingMoves.delete(unitId);
+      }
+    });
+  }
+
+  // The server keeps running between updates; assume it runs in real time
+  private estimateServerTick(now: number): number {
+    if (!this.latestState) return 0;
+    const elapsed = Math.min((now - this.latestReceivedAt) / 1000, NETWORK_CONFIG.maxExtrapolation);
+    return this.latestState.tick + elapsed / this.tickDuration;
+  }
+
+  // Position between the two buffered updates around the render tick
+  private interpolatePosition(unit: Unit, renderTick: number): Position {
+    for (let i = this.snapshots.length - 1; i > 0; i--) {
+      const newer = this.snapshots[i];
+      const older = this.snapshots[i - 1];
+      if (older.tick > renderTick) continue;
+
+      const from = older.positions.get(unit.id);
+      const to = newer.positions.get(unit.id);
+      if (!from || !to) break;
+      const t = Math.min(1, Math.max(0, (renderTick - older.tick) / Math.max(1, newer.tick - older.tick)));
+      return {
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+      };
+    }
+    return unit.position;
+  }
+
+  // Carry our own unit on from its latest position towards where it is heading
+  private predictPosition(unit: Unit, now: number): Position {
+    const pending = this.pendingMoves.get(unit.id);
+    const waypoint = pending ? pending.target : unit.isMoving && unit.path?.[0];
+    if (!waypoint) return unit.position;
+
+    // A pending move has not started on the server, so count from when it was sent
+    const since = pending ? pending.sentAt : this.latestReceivedAt;
+    const elapsed = Math.min((now - since) / 1000, NETWORK_CONFIG.maxExtrapolation);
+    const dx = waypoint.x - unit.position.x;
+    const dy = waypoint.y - unit.position.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length === 0) return unit.position;
+
+    // Engine speeds are in pixels per 1/60 s
+    const step = Math.min(unit.speed * 60 * elapsed, length);
+    return {
+      x: unit.position.x + (dx / length) * step,
+      y: unit.position.y + (dy / length) * step,
+    };
+  }
+}
+
+const distance = (a: Position, b: Position): number => {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return Math.sqrt(dx * dx + dy * dy);
+};
@@ -0,0 +1,209 @@
+import {
+  TileCoord,
+  findNearestPassableTile,
+  isTilePassable,
+  tileCenter,
+  worldToTile,
+} from './terrain';
+import { Position, TerrainMap } from './types';
+
+// Neighbour offsets with their step cost (straight moves cost 1, diagonals √2)
+const NEIGHBOURS = [
+  { dx: 1, dy: 0, cost: 1 },
+  { dx: -1, dy: 0, cost: 1 },
+  { dx: 0, dy: 1, cost: 1 },
+  { dx: 0, dy: -1, cost: 1 },
+  { dx: 1, dy: 1, cost: Math.SQRT2 },
+  { dx: 1, dy: -1, cost: Math.SQRT2 },
+  { dx: -1, dy: 1, cost: Math.SQRT2 },
+  { dx: -1, dy: -1, cost: Math.SQRT2 },
+];
+
+// Octile distance, the exact cost of an unobstructed 8-way path
+const heuristic = (a: TileCoord, b: TileCoord): number => {
+  const dx = Math.abs(a.column - b.column);
+  const dy = Math.abs(a.row - b.row);
+  return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+};
+
+// Min-heap of tile indices ordered by the f score they were pushed with
+// A tile may be pushed again with a better score; stale entries are skipped by the caller
+class OpenSet {
+  private indices: number[] = [];
+  private scores: number[] = [];
+
+  public get size(): number {
+    return this.indices.length;
+  }
+
+  public push(index: number, score: number): void {
+    this.indices.push(index);
+    this.scores.push(score);
+    let child = this.indices.length - 1;
+    while (child > 0) {
+      const parent = (child - 1) >> 1;
+      if (this.scores[parent] <= this.scores[child]) break;
+      this.swap(parent, child);
+      child = parent;
+    }
+  }
+
+  public pop(): number {
+    const top = this.indices[0];
+    const lastIndex = this.indices.pop()!;
+    const lastScore = this.scores.pop()!;
+    if (this.indices.length > 0) {
+      this.indices[0] = lastIndex;
+      this.scores[0] = lastScore;
+      let parent = 0;
+      for (;;) {
+        const left = parent * 2 + 1;
+        const right = left + 1;
+        let smallest = parent;
+        if (left < this.scores.length && this.scores[left] < this.scores[smallest]) smallest = left;
+        if (right < this.scores.length && this.scores[right] < this.scores[smallest]) smallest = right;
+        if (smallest === parent) break;
+        this.swap(parent, smallest);
+        parent = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.indices[a], this.indices[b]] = [this.indices[b], this.indices[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+// Whether a straight walk between two points only crosses passable tiles
+export const hasLineOfSight = (terrain: TerrainMap, from: Position, to: Position): boolean => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  // Sample at a quarter tile so corners are not cut
+  const steps = Math.ceil(distance / (terrain.tileSize / 4));
+  for (let i = 0; i <= steps; i++) {
+    const t = steps === 0 ? 0 : i / steps;
+    const tile = worldToTile(terrain, { x: from.x + dx * t, y: from.y + dy * t });
+    if (!isTilePassable(terrain, tile.column, tile.row)) return false;
+  }
+  return true;
+};
+
+// Drop waypoints that can be skipped by walking straight to a later one
+const smoothPath = (terrain: TerrainMap, start: Position, path: Position[]): Position[] => {
+  const smoothed: Position[] = [];
+  let current = start;
+  let index = 0;
+  while (index < path.length) {
+    let furthest = index;
+    for (let candidate = path.length - 1; candidate > index; candidate--) {
+      if (hasLineOfSight(terrain, current, path[candidate])) {
+        furthest = candidate;
+        break;
+      }
+    }
+    smoothed.push(path[furthest]);
+    current = path[furthest];
+    index = furthest + 1;
+  }
+  return smoothed;
+};
+
+// Find a ground path with A*, returned as waypoints ending at the goal
+// If the goal is blocked or unreachable the path ends as close to it as possible
+export const findPath = (terrain: TerrainMap, start: Position, goal: Position): Position[] => {
+  const startTile = findNearestPassableTile(terrain, start);
+  const goalTile = findNearestPassableTile(terrain, goal);
+  if (!startTile || !goalTile) return [];
+
+  const requestedTile = worldToTile(terrain, goal);
+  const goalPosition = isTilePassable(terrain, requestedTile.column, requestedTile.row)
+    ? goal
+    : tileCenter(terrain, goalTile);
+
+  // Nothing in the way, walk straight there
+  if (hasLineOfSight(terrain, start, goalPosition)) {
+    return [goalPosition];
+  }
+
+  const tileCount = terrain.columns * terrain.rows;
+  const toIndex = (tile: TileCoord) => tile.row * terrain.columns + tile.column;
+  const gScores = new Float64Array(tileCount).fill(Infinity);
+  const cameFrom = new Int32Array(tileCount).fill(-1);
+  const closed = new Uint8Array(tileCount);
+  const open = new OpenSet();
+
+  const startIndex = toIndex(startTile);
+  const goalIndex = toIndex(goalTile);
+  gScores[startIndex] = 0;
+  open.push(startIndex, heuristic(startTile, goalTile));
+
+  // Track the explored tile closest to the goal in case it cannot be reached
+  let bestIndex = startIndex;
+  let bestHeuristic = heuristic(startTile, goalTile);
+
+  while (open.size > 0) {
+    const currentIndex = open.pop();
+    if (currentIndex === goalIndex) {
+      bestIndex = goalIndex;
+      break;
+    }
+    if (closed[currentIndex]) continue;
+    closed[currentIndex] = 1;
+
+    const current = {
+      column: currentIndex % terrain.columns,
+      row: Math.floor(currentIndex / terrain.columns),
+    };
+    const currentHeuristic = heuristic(current, goalTile);
+    if (currentHeuristic < bestHeuristic) {
+      bestHeuristic = currentHeuristic;
+      bestIndex = currentIndex;
+    }
+
+    NEIGHBOURS.forEach(({ dx, dy, cost }) => {
+      const column = current.column + dx;
+      const row = current.row + dy;
+      if (!isTilePassable(terrain, column, row)) return;
+      // No squeezing diagonally between two blocked tiles
+      if (dx !== 0 && dy !== 0) {
+        if (!isTilePassable(terrain, current.column + dx, current.row) ||
+            !isTilePassable(terrain, current.column, current.row + dy)) {
+          return;
+        }
+      }
+
+      const neighbourIndex = row * terrain.columns + column;
+      if (closed[neighbourIndex]) return;
+
+      const tentative = gScores[currentIndex] + cost;
+      if (tentative < gScores[neighbourIndex]) {
+        gScores[neighbourIndex] = tentative;
+        cameFrom[neighbourIndex] = currentIndex;
+        open.push(neighbourIndex, tentative + heuristic({ column, row }, goalTile));
+      }
+    });
+  }
+
+  // Walk back from the end tile to build the waypoint list
+  const tiles: Position[] = [];
+  for (let index = bestIndex; index !== -1 && index !== startIndex; index = cameFrom[index]) {
+    tiles.push(tileCenter(terrain, {
+      column: index % terrain.columns,
+      row: Math.floor(index / terrain.columns),
+    }));
+  }
+  tiles.reverse();
+
+  if (bestIndex === goalIndex) {
+    if (tiles.length > 0) {
+      tiles[tiles.length - 1] = goalPosition;
+    } else {
+      tiles.push(goalPosition);
+    }
+  }
+
+  return smoothPath(terrain, start, tiles);
+};
@@ -0,0 +1,414 @@
+import { CommandType, GameCommand } from './commands';
+import { BaseGhost, PlayerVision } from './vision';
+import {
+  Base,
+  ControlZone,
+  FactionType,
+  FormationSettings,
+  FormationType,
+  GameMode,
+  GameResult,
+  GameState,
+  Player,
+  Position,
+  Projectile,
+  Resource,
+  ResourceType,
+  TerrainMap,
+  Unit,
+  UnitCost,
+  UnitType,
+} from './types';
+
+// Bump when messages change shape; clients of another version are turned away
+export const PROTOCOL_VERSION = 5;
+
+export const DEFAULT_SERVER_PORT = 8080;
+
+// Player as sent over the wire; their units are only listed once, in the unit table
+export type NetworkPlayer = Omit<Player, 'units'>;
+
+// Everything about a match that changes while it runs, as the receiving player may know it
+export interface NetworkSnapshot {
+  tick: number;
+  gameTime: number;
+  players: NetworkPlayer[];
+  units: Unit[]; // Living units only, enemies only while in sight
+  bases: Base[]; // Enemy bases only once seen, as last seen while out of sight
+  resources: Resource[];
+  projectiles: Projectile[];
+  mode: GameMode;
+  scores: GameState['scores'];
+  zones: ControlZone[];
+  result: GameResult | null;
+}
+
+// Changes since the previous snapshot or delta
+export interface NetworkDelta {
+  tick: number;
+  gameTime: number;
+  players: NetworkPlayer[]; // New or changed
+  units: Unit[]; // New or changed
+  removedUnitIds: string[]; // Died or went out of sight since the last update
+  bases: Base[]; // Changed
+  resources: Resource[]; // Changed
+  projectiles: Projectile[]; // All in flight and in sight; they move every tick, so always sent whole
+  scores: GameState['scores']; // Small enough to always send whole
+  zones: ControlZone[];
+  result: GameResult | null;
+}
+
+// Current cost of each unit the receiving player can build
+export type UnitCostTable = Partial<Record<UnitType, UnitCost>>;
+
+export enum ClientMessageType {
+  JOIN = 'JOIN',
+  COMMAND = 'COMMAND',
+}
+
+export enum ServerMessageType {
+  WELCOME = 'WELCOME',
+  DELTA = 'DELTA',
+  ERROR = 'ERROR',
+}
+
+// First message from a client: take a seat in a room, creating it if needed
+export interface JoinMessage {
+  type: ClientMessageType.JOIN;
+  version: number;
+  roomId: string;
+  name: string;
+  faction: FactionType;
+}
+
+// An order for the client's own units; the server fills in the player and tick
+export interface CommandMessage {
+  type: ClientMessageType.COMMAND;
+  command: GameCommand;
+}
+
+export type ClientMessage = JoinMessage | CommandMessage;
+
+// Reply to a join with the full match so far
+export interface WelcomeMessage {
+  type: ServerMessageType.WELCOME;
+  roomId: string;
+  playerId: string;
+  tickRate: number;
+  mapSize: GameState['mapSize'];
+  terrain: TerrainMap;
+  snapshot: NetworkSnapshot;
+  unitCosts: UnitCostTable;
+}
+
+export interface DeltaMessage {
+  type: ServerMessageType.DELTA;
+  delta: NetworkDelta;
+  unitCosts: UnitCostTable;
+}
+
+export interface ErrorMessage {
+  type: ServerMessageType.ERROR;
+  message: string;
+}
+
+export type ServerMessage = WelcomeMessage | DeltaMessage | ErrorMessage;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// Capture the changing part of a game state
+// Given a player's vision, only what that player may know is kept: their own units, bases and projectiles,
+// enemies in sight, and enemy bases they have seen, as they looked the last time
+export const createSnapshot = (state: GameState, vision: PlayerVision | null = null): NetworkSnapshot => {
+  const ghosts = new Map(vision?.getGhosts().map(ghost => [ghost.baseId, ghost]));
+  const playerId = vision?.getPlayerId();
+  return {
+    tick: state.tick,
+    gameTime: state.gameTime,
+    players: Object.values(state.players).map(player =>
+      !vision || player.id === playerId ? toNetworkPlayer(player) : toOpponentPlayer(player, ghosts)
+    ),
+    units: Object.values(state.units)
+      .filter(unit => !unit.isDead && (!vision || vision.canSee(unit)))
+      .map(unit => (!vision || unit.playerId === playerId ? unit : toOpponentUnit(unit, state, vision))),
+    bases: Object.values(state.bases).flatMap(base => {
+      if (!vision || vision.canSee(base)) return [base];
+      const ghost = ghosts.get(base.id);
+      return ghost ? [toGhostBase(base, ghost)] : [];
+    }),
+    resources: Object.values(state.resources),
+    projectiles: Object.values(state.projectiles).filter(projectile =>
+      !vision || projectile.playerId === playerId || vision.isVisible(projectile.position)
+    ),
+    mode: state.mode,
+    scores: state.scores,
+    zones: state.zones,
+    result: state.result,
+  };
+};
+
+export const toNetworkPlayer = ({ units, ...player }: Player): NetworkPlayer => player;
+
+// Someone else as another player sees them: no money, production, rally point or stats,
+// and their base position only once the base has been seen (off the map until then)
+const toOpponentPlayer = (player: Player, ghosts: Map<string, BaseGhost>): NetworkPlayer => ({
+  ...toNetworkPlayer(player),
+  resources: { [ResourceType.MONEY]: 0, [ResourceType.SUPPLIES]: 0 },
+  basePosition: ghosts.get(player.baseId)?.position ?? { x: -1, y: -1 },
+  productionQueue: [],
+  rallyPoint: null,
+  stats: { unitsBuilt: 0, unitsLost: 0, unitsKilled: 0, moneyCollected: 0, suppliesCollected: 0 },
+});
+
+// An enemy unit in sight, without its orders or path; its target is kept only when that is in sight too,
+// so attack lines can be drawn without giving away what it is shooting at behind the fog
+const toOpponentUnit = (unit: Unit, state: GameState, vision: PlayerVision): Unit => {
+  const { targetId, path, ...rest } = unit;
+  const target = targetId ? state.units[targetId] ?? state.bases[targetId] : undefined;
+  return {
+    ...rest,
+    orders: [],
+    ...(target && vision.canSee(target) ? { targetId } : {}),
+  };
+};
+
+// An enemy base out of sight, as it looked when last seen; its health and turret are not known from a sighting
+const toGhostBase = (base: Base, ghost: BaseGhost): Base => ({
+  ...base,
+  position: { ...ghost.position },
+  size: ghost.size,
+  health: ghost.isDestroyed ? 0 : base.maxHealth,
+  turret: null,
+  isDestroyed: ghost.isDestroyed,
+});
+
+// Rebuild a game state from a snapshot, relinking each player's units
+export const createStateFromSnapshot = (
+  snapshot: NetworkSnapshot,
+  mapSize: GameState['mapSize'],
+  terrain: TerrainMap
+): GameState => {
+  const state: GameState = {
+    players: {},
+    units: {},
+    bases: {},
+    resources: {},
+    projectiles: {},
+    tick: snapshot.tick,
+    gameTime: snapshot.gameTime,
+    mode: snapshot.mode,
+    scores: { ...snapshot.scores },
+    zones: snapshot.zones,
+    result: snapshot.result,
+    mapSize,
+    terrain,
+  };
+  snapshot.players.forEach(player => {
+    state.players[player.id] = { ...player, units: [] };
+  });
+  snapshot.units.forEach(unit => {
+    state.units[unit.id] = unit;
+  });
+  snapshot.bases.forEach(base => {
+    state.bases[base.id] = base;
+  });
+  snapshot.resources.forEach(resource => {
+    state.resources[resource.id] = resource;
+  });
+  snapshot.projectiles.forEach(projectile => {
+    state.projectiles[projectile.id] = projectile;
+  });
+  linkPlayerUnits(state);
+  return state;
+};
+
+// Apply a delta to a state built by createStateFromSnapshot
+export const applyDelta = (state: GameState, delta: NetworkDelta): void => {
+  state.tick = delta.tick;
+  state.gameTime = delta.gameTime;
+  delta.players.forEach(player => {
+    state.players[player.id] = { ...player, units: [] };
+  });
+  delta.units.forEach(unit => {
+    state.units[unit.id] = unit;
+  });
+  delta.removedUnitIds.forEach(unitId => {
+    delete state.units[unitId];
+  });
+  delta.bases.forEach(base => {
+    state.bases[base.id] = base;
+  });
+  delta.resources.forEach(resource => {
+    state.resources[resource.id] = resource;
+  });
+  state.projectiles = {};
+  delta.projectiles.forEach(projectile => {
+    state.projectiles[projectile.id] = projectile;
+  });
+  state.scores = delta.scores;
+  state.zones = delta.zones;
+  state.result = delta.result;
+  linkPlayerUnits(state);
+};
+
+// Fill Player.units from the unit table
+export const linkPlayerUnits = (state: GameState): void => {
+  Object.values(state.players).forEach(player => {
+    player.units = [];
+  });
+  Object.values(state.units).forEach(unit => {
+    if (!unit.isDead) {
+      state.players[unit.playerId]?.units.push(unit);
+    }
+  });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isPosition = (value: unknown): value is Position =>
+  isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+// Unit ids and queue flag shared by every unit order
+const parseOrder = (value: Record<string, unknown>, name: string): { unitIds: string[]; queued: boolean } => {
+  if (!isStringArray(value.unitIds) || typeof value.queued !== 'boolean') {
+    throw new ProtocolError(`${name} command needs unitIds and a queued flag`);
+  }
+  return { unitIds: value.unitIds, queued: value.queued };
+};
+
+const parseFormation = (value: unknown, name: string): FormationSettings => {
+  const shape = isObject(value) ? Object.values(FormationType).find(type => type === value.shape) : undefined;
+  if (
+    !isObject(value) || !shape || typeof value.keepTogether !== 'boolean' ||
+    (value.facing !== null && !isFiniteNumber(value.facing))
+  ) {
+    throw new ProtocolError(`${name} command needs a formation shape, facing and keepTogether flag`);
+  }
+  return { shape, facing: value.facing, keepTogether: value.keepTogether };
+};
+
+// Check a command from an untrusted client or save file before it reaches the engine
+export const parseCommand = (value: unknown): GameCommand => {
+  if (!isObject(value) || !isFiniteNumber(value.tick)) {
+    throw new ProtocolError('Command has no tick');
+  }
+  const base = { tick: value.tick, playerId: typeof value.playerId === 'string' ? value.playerId : '' };
+
+  switch (value.type) {
+    case CommandType.MOVE:
+    case CommandType.ATTACK_MOVE:
+    case CommandType.PATROL: {
+      const name = value.type === CommandType.MOVE ? 'Move' : value.type === CommandType.PATROL ? 'Patrol' : 'Attack-move';
+      const order = parseOrder(value, name);
+      const target = value.target;
+      if (!isPosition(target)) {
+        throw new ProtocolError(`${name} command needs a target position`);
+      }
+      const formation = parseFormation(value.formation, name);
+      return { ...base, ...order, type: value.type, target: { x: target.x, y: target.y }, formation };
+    }
+    case CommandType.ATTACK: {
+      const order = parseOrder(value, 'Attack');
+      if (typeof value.targetId !== 'string') {
+        throw new ProtocolError('Attack command needs a targetId');
+      }
+      return { ...base, ...order, type: CommandType.ATTACK, targetId: value.targetId };
+    }
+    case CommandType.HOLD_POSITION:
+      return { ...base, ...parseOrder(value, 'Hold position'), type: CommandType.HOLD_POSITION };
+    case CommandType.GUARD: {
+      const order = parseOrder(value, 'Guard');
+      const target = value.target;
+      if (!isPosition(target) || (value.guardedId !== null && typeof value.guardedId !== 'string')) {
+        throw new ProtocolError('Guard command needs a target position and a guardedId or null');
+      }
+      const formation = parseFormation(value.formation, 'Guard');
+      return {
+        ...base,
+        ...order,
+        type: CommandType.GUARD,
+        target: { x: target.x, y: target.y },
+        guardedId: value.guardedId,
+        formation,
+      };
+    }
+    case CommandType.HARVEST: {
+      const order = parseOrder(value, 'Harvest');
+      if (typeof value.resourceId !== 'string') {
+        throw new ProtocolError('Harvest command needs a resourceId');
+      }
+      return { ...base, ...order, type: CommandType.HARVEST, resourceId: value.resourceId };
+    }
+    case CommandType.STOP:
+      if (!isStringArray(value.unitIds)) {
+        throw new ProtocolError('Stop command needs unitIds');
+      }
+      return { ...base, type: CommandType.STOP, unitIds: value.unitIds };
+    case CommandType.CREATE_UNIT: {
+      const unitType = Object.values(UnitType).find(type => type === value.unitType);
+      if (!unitType) {
+        throw new ProtocolError('Create unit command has an unknown unit type');
+      }
+      return { ...base, type: CommandType.CREATE_UNIT, unitType };
+    }
+    case CommandType.CANCEL_PRODUCTION:
+      if (typeof value.itemId !== 'string') {
+        throw new ProtocolError('Cancel production command needs an itemId');
+      }
+      return { ...base, type: CommandType.CANCEL_PRODUCTION, itemId: value.itemId };
+    case CommandType.SET_RALLY_POINT: {
+      const position = value.position;
+      if (position === null) {
+        return { ...base, type: CommandType.SET_RALLY_POINT, position: null };
+      }
+      if (!isPosition(position)) {
+        throw new ProtocolError('Rally point command needs a position or null');
+      }
+      return { ...base, type: CommandType.SET_RALLY_POINT, position: { x: position.x, y: position.y } };
+    }
+    default:
+      throw new ProtocolError(`Unknown command type "${value.type}"`);
+  }
+};
+
+// Read a message from a client, rejecting anything malformed
+export const parseClientMessage = (json: string): ClientMessage => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ProtocolError('Message is not valid JSON');
+  }
+  if (!isObject(data)) {
+    throw new ProtocolError('Message is not an object');
+  }
+
+  switch (data.type) {
+    case ClientMessageType.JOIN: {
+      if (data.version !== PROTOCOL_VERSION) {
+        throw new ProtocolError(`Protocol version ${data.version} is not supported (expected ${PROTOCOL_VERSION})`);
+      }
+      const faction = Object.values(FactionType).find(type => type === data.faction);
+      if (typeof data.roomId !== 'string' || data.roomId === '' || typeof data.name !== 'string' || !faction) {
+        throw new ProtocolError('Join message needs a roomId, name and faction');
+      }
+      return { type: ClientMessageType.JOIN, version: data.version, roomId: data.roomId, name: data.name, faction };
+    }
+    case ClientMessageType.COMMAND:
+      return { type: ClientMessageType.COMMAND, command: parseCommand(data.command) };
+    default:
+      throw new ProtocolError(`Unknown message type "${data.type}"`);
+  }
+};
@@ -0,0 +1,57 @@
+// Seeded pseudo-random number generator (mulberry32)
+// Every random decision that affects the simulation must go through this so
+// that the same seed always produces the same match.
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Seed the generator was created with
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  // Internal state, for saving and restoring the sequence
+  public getState(): number {
+    return this.state;
+  }
+
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  // Float in [0, 1)
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Float in [min, max)
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [min, max]
+  public int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  // Random bytes, used to build deterministic UUIDs
+  public bytes(count: number): Uint8Array {
+    const result = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+      result[i] = Math.floor(this.next() * 256);
+    }
+    return result;
+  }
+}
+
+// Pick a seed when the caller does not care which one
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
@@ -1,27 +1,96 @@
-import { GameState, Unit, Resource, UnitType, ResourceType, Position } from './types';
+import { GameState, Player, Unit, Resource, UnitType, ResourceType, Position, TerrainType, GameMode, VictoryReason, DamageType, VeterancyRank, OrderType, UnitOrder } from './types';
+import { UNIT_SIZE } from './units';
+import { Camera } from './camera';
+import { VICTORY_CONFIG } from './victory';
+import { isBase } from './bases';
+import { PlayerVision } from './vision';
 
-// Unit sprite dimensions
-const UNIT_SIZE = {
-  [UnitType.SOLDIER]: { width: 20, height: 20 },
-  [UnitType.TANK]: { width: 30, height: 30 },
-  [UnitType.HELICOPTER]: { width: 25, height: 25 },
+// Colors for terrain tiles (grass is the background, bases draw their own sprite over their building tiles,
+// so only neutral buildings show in this color)
+const TERRAIN_COLORS: Partial<Record<TerrainType, string>> = {
+  [TerrainType.WATER]: '#2f6f9f',
+  [TerrainType.CLIFF]: '#6b5a48',
+  [TerrainType.BUILDING]: '#8c8778',
 };
 
+// Shown around the map when the view is larger than the world
+const OUT_OF_BOUNDS_COLOR = '#222';
+
+// Headline of the game over screen for each way a match can end
+const VICTORY_REASON_TEXT: Record<VictoryReason, string> = {
+  [VictoryReason.LAST_STANDING]: 'Last player standing',
+  [VictoryReason.ZONE_CONTROL]: 'Held the hill',
+  [VictoryReason.TIME_LIMIT]: 'Time is up',
+};
+
+// Width and height of the base sprite, a little larger than its footprint
+const BASE_SPRITE_SIZE = 80;
+
+// Look of shells and missiles in flight
+const PROJECTILE_STYLE: Record<DamageType, { color: string; radius: number }> = {
+  [DamageType.SMALL_ARMS]: { color: '#ffff66', radius: 1.5 },
+  [DamageType.CANNON]: { color: '#ffaa33', radius: 3 },
+  [DamageType.ROCKET]: { color: '#ff5533', radius: 2.5 },
+};
+
+// Chevrons drawn over the health bar of ranked units
+const RANK_CHEVRONS: Record<VeterancyRank, { count: number; color: string }> = {
+  [VeterancyRank.ROOKIE]: { count: 0, color: '' },
+  [VeterancyRank.VETERAN]: { count: 1, color: '#dddddd' },
+  [VeterancyRank.ELITE]: { count: 2, color: '#dddddd' },
+  [VeterancyRank.HEROIC]: { count: 3, color: '#ffcc33' },
+};
+
+// Colour of the waypoint line and marker for each kind of queued order
+const ORDER_COLORS: Record<OrderType, string> = {
+  [OrderType.MOVE]: '#66ff66',
+  [OrderType.ATTACK]: '#ff4444',
+  [OrderType.ATTACK_MOVE]: '#ffaa33',
+  [OrderType.PATROL]: '#66ccff',
+  [OrderType.HOLD_POSITION]: '#ffff66',
+  [OrderType.GUARD]: '#cc88ff',
+  [OrderType.HARVEST]: '#ffffff',
+};
+
+// Opacity of the fog over tiles never explored and tiles explored but out of sight (0-255)
+const FOG_ALPHA = {
+  unexplored: 235,
+  explored: 120,
+};
+
+// Burst drawn where a unit died; times are in milliseconds
+const EXPLOSION_STYLE = { duration: 600, radius: 18 };
+
+// How long a notice stays on screen in milliseconds, and how many show at once
+const NOTICE_STYLE = { duration: 4000, maxShown: 3 };
+
 // Resource sprite dimensions
 const RESOURCE_SIZE = {
   [ResourceType.MONEY]: { width: 20, height: 20 },
+  [ResourceType.SUPPLIES]: { width: 20, height: 20 },
+};
+
+// Colour of a deposit's fill bar and of the load a gatherer carries
+const RESOURCE_COLORS: Record<ResourceType, string> = {
+  [ResourceType.MONEY]: '#ffd700',
+  [ResourceType.SUPPLIES]: '#8fbc5a',
 };
 
 export class GameRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
+  private camera: Camera;
   private unitImages: Map<UnitType, HTMLImageElement> = new Map();
   private resourceImages: Map<ResourceType, HTMLImageElement> = new Map();
   private baseImage: HTMLImageElement;
   private debugMode: boolean = false;
+  private fogCanvas: HTMLCanvasElement; // One pixel per terrain tile, stretched over the map
+  private explosions: { position: Position; startedAt: number }[] = [];
+  private notices: { message: string; shownAt: number }[] = [];
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, camera: Camera) {
     this.canvas = canvas;
+    this.camera = camera;
     const ctx = canvas.getContext('2d');
     if (!ctx) {
       throw new Error('Failed to get canvas context');
@@ -37,6 +106,8 @@ export class GameRenderer {
     // Load base image
     this.baseImage = new Image();
     this.baseImage.src = '/mini_generals/assets/images/base.svg';
+    
+    this.fogCanvas = document.createElement('canvas');
   }
 
   // Load unit images
@@ -50,10 +121,22 @@ export class GameRenderer {
 
   // Load resource images
   private loadResourceImages(): void {
-    // Only load MONEY image since SUPPLIES has been removed
-    const img = new Image();
-    img.src = `/mini_generals/assets/images/${ResourceType.MONEY.toLowerCase()}.svg`;
-    this.resourceImages.set(ResourceType.MONEY, img);
+    Object.values(ResourceType).forEach(resourceType => {
+      const img = new Image();
+      img.src = `/mini_generals/assets/images/${resourceType.toLowerCase()}.svg`;
+      this.resourceImages.set(resourceType, img);
+    });
+  }
+
+  // Show a burst where a unit died; it only draws while the spot is in sight
+  public addExplosion(position: Position): void {
+    this.explosions.push({ position: { ...position }, startedAt: performance.now() });
+  }
+
+  // Show a line of text at the top of the screen for a few seconds, e.g. a promotion
+  public addNotice(message: string): void {
+    this.notices.push({ message, shownAt: performance.now() });
+    if (this.notices.length > NOTICE_STYLE.maxShown) this.notices.shift();
   }
 
   // Set debug mode
@@ -61,26 +144,52 @@ export class GameRenderer {
     this.debugMode = enabled;
   }
 
-  // Render the game state
-  public render(state: GameState): void {
+  // Render the game state as seen through the camera
+  // With a vision, enemies outside it are hidden and the map is fogged; without one everything shows
+  public render(state: GameState, vision: PlayerVision | null = null): void {
     // Clear canvas
-    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-    
-    // Set canvas to match map dimensions
-    this.canvas.width = state.mapSize.width;
-    this.canvas.height = state.mapSize.height;
-    
-    // Draw background
-    this.drawBackground(state);
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.fillStyle = OUT_OF_BOUNDS_COLOR;
+    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
     
-    // Draw resources
-    this.drawResources(state);
+    this.withCamera(() => {
+      // Draw background
+      this.drawBackground(state);
+      
+      // Draw control zones under everything standing on them
+      this.drawZones(state);
+      
+      // Draw resources
+      this.drawResources(state, vision);
+      
+      // Draw player bases, and what is remembered of enemy bases out of sight
+      this.drawBases(state, vision);
+      if (vision) {
+        this.drawBaseGhosts(state, vision);
+      }
+      
+      // Draw units
+      this.drawUnits(state, vision);
+      
+      // Shells and missiles fly over everything on the ground
+      this.drawProjectiles(state, vision);
+      this.drawExplosions(vision);
+      
+      if (this.debugMode) {
+        this.drawDebugPaths(state, vision);
+      }
+      
+      if (vision) {
+        this.drawFog(state, vision);
+      }
+    });
     
-    // Draw player bases
-    this.drawBases(state);
+    // Scores for modes that are won on points
+    if (state.mode === GameMode.KING_OF_THE_HILL || state.mode === GameMode.TIMED_SCORE) {
+      this.drawScoreboard(state);
+    }
     
-    // Draw units
-    this.drawUnits(state);
+    this.drawNotices();
     
     // Draw debug info if enabled
     if (this.debugMode) {
@@ -88,6 +197,14 @@ export class GameRenderer {
     }
   }
 
+  // Run drawing code in world coordinates, leaving the context in screen coordinates
+  private withCamera(draw: () => void): void {
+    this.ctx.save();
+    this.camera.applyTransform(this.ctx);
+    draw();
+    this.ctx.restore();
+  }
+
   // Draw the background
   private drawBackground(state: GameState): void {
     // Draw grass background
@@ -107,12 +224,78 @@ export class GameRenderer {
       this.ctx.arc(x, y, size, 0, Math.PI * 2);
       this.ctx.fill();
     }
+    
+    // Draw obstacles on top of the grass
+    this.drawTerrain(state);
+  }
+
+  // Draw impassable terrain tiles that are on screen
+  private drawTerrain(state: GameState): void {
+    const { tileSize, columns, rows, tiles } = state.terrain;
+    const { min, max } = this.camera.getVisibleBounds();
+    const firstColumn = Math.max(0, Math.floor(min.x / tileSize));
+    const lastColumn = Math.min(columns - 1, Math.floor(max.x / tileSize));
+    const firstRow = Math.max(0, Math.floor(min.y / tileSize));
+    const lastRow = Math.min(rows - 1, Math.floor(max.y / tileSize));
+    
+    // A base's footprint is left to its sprite, which is not drawn while the base is out of sight
+    const bases = Object.values(state.bases);
+    const isUnderBase = (column: number, row: number) => bases.some(base =>
+      Math.abs((column + 0.5) * tileSize - base.position.x) < base.size / 2 &&
+      Math.abs((row + 0.5) * tileSize - base.position.y) < base.size / 2
+    );
+    
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const type = tiles[row * columns + column];
+        const color = TERRAIN_COLORS[type];
+        if (!color || (type === TerrainType.BUILDING && isUnderBase(column, row))) continue;
+        
+        this.ctx.fillStyle = color;
+        this.ctx.fillRect(column * tileSize, row * tileSize, tileSize, tileSize);
+      }
+    }
   }
 
-  // Draw all resources
-  private drawResources(state: GameState): void {
+  // Draw control zones in their owner's color, with an arc for a capture in progress
+  private drawZones(state: GameState): void {
+    state.zones.forEach(zone => {
+      const owner = zone.ownerId ? state.players[zone.ownerId] : null;
+      this.ctx.beginPath();
+      this.ctx.arc(zone.position.x, zone.position.y, zone.radius, 0, Math.PI * 2);
+      this.ctx.fillStyle = owner ? `${owner.color}33` : 'rgba(255, 255, 255, 0.1)';
+      this.ctx.fill();
+      this.ctx.strokeStyle = owner?.color ?? 'white';
+      this.ctx.lineWidth = 2;
+      this.ctx.setLineDash([8, 6]);
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+      
+      const capturer = zone.capturingId ? state.players[zone.capturingId] : null;
+      if (capturer && zone.captureProgress > 0) {
+        this.ctx.beginPath();
+        this.ctx.arc(
+          zone.position.x,
+          zone.position.y,
+          zone.radius + 6,
+          -Math.PI / 2,
+          -Math.PI / 2 + zone.captureProgress * Math.PI * 2
+        );
+        this.ctx.strokeStyle = capturer.color;
+        this.ctx.lineWidth = 4;
+        this.ctx.stroke();
+      }
+      this.ctx.lineWidth = 1;
+    });
+  }
+
+  // Draw all deposits on explored ground, with a bar showing how full they are; dry ones are faded out
+  private drawResources(state: GameState, vision: PlayerVision | null): void {
+    const { terrain } = state;
     Object.values(state.resources).forEach(resource => {
-      if (resource.isCollected) return; // Don't draw collected resources
+      const column = Math.floor(resource.position.x / terrain.tileSize);
+      const row = Math.floor(resource.position.y / terrain.tileSize);
+      if (vision && !vision.isTileExplored(column, row)) return;
       
       const img = this.resourceImages.get(resource.type);
       if (!img) return;
@@ -120,6 +303,7 @@ export class GameRenderer {
       const size = RESOURCE_SIZE[resource.type];
       
       // Draw resource icon
+      this.ctx.globalAlpha = resource.amount > 0 ? 1 : 0.3;
       this.ctx.drawImage(
         img,
         resource.position.x - size.width / 2,
@@ -127,6 +311,19 @@ export class GameRenderer {
         size.width,
         size.height
       );
+      this.ctx.globalAlpha = 1;
+      
+      // Draw fill bar
+      const barTop = resource.position.y + size.height / 2 + 2;
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      this.ctx.fillRect(resource.position.x - size.width / 2, barTop, size.width, 3);
+      this.ctx.fillStyle = RESOURCE_COLORS[resource.type];
+      this.ctx.fillRect(
+        resource.position.x - size.width / 2,
+        barTop,
+        size.width * (resource.amount / resource.maxAmount),
+        3
+      );
       
       // Draw resource type indicator
       this.ctx.font = '10px Arial';
@@ -140,45 +337,173 @@ export class GameRenderer {
     });
   }
 
-  // Draw player bases
-  private drawBases(state: GameState): void {
-    Object.values(state.players).forEach(player => {
-      // Draw base
-      this.ctx.drawImage(
-        this.baseImage,
-        player.basePosition.x - 40,
-        player.basePosition.y - 40,
-        80,
-        80
-      );
+  // Draw projectiles, with a short trail pointing back the way they came
+  private drawProjectiles(state: GameState, vision: PlayerVision | null): void {
+    Object.values(state.projectiles).forEach(projectile => {
+      if (vision && !vision.isVisible(projectile.position)) return;
+      const style = PROJECTILE_STYLE[projectile.damageType];
+      const dx = projectile.targetPosition.x - projectile.position.x;
+      const dy = projectile.targetPosition.y - projectile.position.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
       
-      // Draw player name
-      this.ctx.font = '12px Arial';
-      this.ctx.fillStyle = player.color;
-      this.ctx.textAlign = 'center';
-      this.ctx.fillText(
-        player.name,
-        player.basePosition.x,
-        player.basePosition.y - 50
-      );
+      this.ctx.beginPath();
+      this.ctx.moveTo(projectile.position.x, projectile.position.y);
+      this.ctx.lineTo(projectile.position.x - (dx / distance) * 8, projectile.position.y - (dy / distance) * 8);
+      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+      this.ctx.lineWidth = 1;
+      this.ctx.stroke();
       
-      // Draw faction
-      this.ctx.font = '10px Arial';
-      this.ctx.fillText(
-        player.faction,
-        player.basePosition.x,
-        player.basePosition.y - 35
-      );
+      this.ctx.beginPath();
+      this.ctx.arc(projectile.position.x, projectile.position.y, style.radius, 0, Math.PI * 2);
+      this.ctx.fillStyle = style.color;
+      this.ctx.fill();
+    });
+  }
+
+  // Draw the bursts of units that died lately, growing and fading out
+  private drawExplosions(vision: PlayerVision | null): void {
+    const now = performance.now();
+    this.explosions = this.explosions.filter(explosion => now - explosion.startedAt < EXPLOSION_STYLE.duration);
+    this.explosions.forEach(explosion => {
+      if (vision && !vision.isVisible(explosion.position)) return;
+      const progress = (now - explosion.startedAt) / EXPLOSION_STYLE.duration;
+      
+      this.ctx.beginPath();
+      this.ctx.arc(explosion.position.x, explosion.position.y, EXPLOSION_STYLE.radius * (0.3 + progress * 0.7), 0, Math.PI * 2);
+      this.ctx.fillStyle = `rgba(255, 140, 0, ${0.8 * (1 - progress)})`;
+      this.ctx.fill();
+    });
+  }
+
+  // Draw the notices still showing, newest at the bottom
+  private drawNotices(): void {
+    const now = performance.now();
+    this.notices = this.notices.filter(notice => now - notice.shownAt < NOTICE_STYLE.duration);
+    this.ctx.font = '14px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillStyle = 'white';
+    this.notices.forEach((notice, index) => {
+      this.ctx.fillText(notice.message, this.canvas.width / 2, 24 + index * 18);
+    });
+  }
+
+  // Draw player bases with their health and turret fire
+  private drawBases(state: GameState, vision: PlayerVision | null): void {
+    Object.values(state.bases).forEach(base => {
+      const player = state.players[base.playerId];
+      if (!player || (vision && !vision.canSee(base))) return;
+      
+      // Knocked out players' bases and ruins are faded
+      const alpha = player.eliminatedAt === null && !base.isDestroyed ? 1 : 0.4;
+      this.drawBaseSprite(base.position, player, base.isDestroyed, alpha);
+      if (base.isDestroyed) return;
+      
+      // Draw health bar under the building
+      const healthBarY = base.position.y + BASE_SPRITE_SIZE / 2 + 4;
+      const healthPercent = base.health / base.maxHealth;
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      this.ctx.fillRect(base.position.x - BASE_SPRITE_SIZE / 2, healthBarY, BASE_SPRITE_SIZE, 5);
+      this.ctx.fillStyle = healthPercent > 0.5 ? 'green' : healthPercent > 0.25 ? 'yellow' : 'red';
+      this.ctx.fillRect(base.position.x - BASE_SPRITE_SIZE / 2, healthBarY, BASE_SPRITE_SIZE * healthPercent, 5);
+      
+      // Draw turret fire
+      const target = base.turret?.targetId ? state.units[base.turret.targetId] : undefined;
+      if (target && !target.isDead && (!vision || vision.canSee(target))) {
+        this.ctx.beginPath();
+        this.ctx.moveTo(base.position.x, base.position.y);
+        this.ctx.lineTo(target.position.x, target.position.y);
+        this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+        this.ctx.lineWidth = 2;
+        this.ctx.stroke();
+        this.ctx.lineWidth = 1;
+      }
     });
   }
 
   // Draw all units
-  private drawUnits(state: GameState): void {
+  // Base building with its owner's name, and its faction or that it was destroyed
+  private drawBaseSprite(position: Position, player: Player, isDestroyed: boolean, alpha: number): void {
+    this.ctx.globalAlpha = alpha;
+    this.ctx.drawImage(
+      this.baseImage,
+      position.x - BASE_SPRITE_SIZE / 2,
+      position.y - BASE_SPRITE_SIZE / 2,
+      BASE_SPRITE_SIZE,
+      BASE_SPRITE_SIZE
+    );
+    
+    // Draw player name
+    this.ctx.font = '12px Arial';
+    this.ctx.fillStyle = player.color;
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(player.name, position.x, position.y - 50);
+    
+    // Draw faction
+    this.ctx.font = '10px Arial';
+    this.ctx.fillText(isDestroyed ? 'DESTROYED' : player.faction, position.x, position.y - 35);
+    this.ctx.globalAlpha = 1;
+  }
+
+  // Enemy bases out of sight, drawn faded where and as they were last seen
+  private drawBaseGhosts(state: GameState, vision: PlayerVision): void {
+    vision.getGhosts().forEach(ghost => {
+      const base = state.bases[ghost.baseId];
+      const player = state.players[ghost.playerId];
+      if (!player || (base && vision.canSee(base))) return;
+      this.drawBaseSprite(ghost.position, player, ghost.isDestroyed, 0.4);
+    });
+  }
+
+  // Darken the map outside the player's sight: fully where they have never been, partly where they have
+  private drawFog(state: GameState, vision: PlayerVision): void {
+    const { columns, rows, tileSize } = state.terrain;
+    if (this.fogCanvas.width !== columns || this.fogCanvas.height !== rows) {
+      this.fogCanvas.width = columns;
+      this.fogCanvas.height = rows;
+    }
+    const fogCtx = this.fogCanvas.getContext('2d');
+    if (!fogCtx) return;
+    
+    const image = fogCtx.createImageData(columns, rows);
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const alpha = vision.isTileVisible(column, row)
+          ? 0
+          : vision.isTileExplored(column, row) ? FOG_ALPHA.explored : FOG_ALPHA.unexplored;
+        image.data[(row * columns + column) * 4 + 3] = alpha;
+      }
+    }
+    fogCtx.putImageData(image, 0, 0);
+    
+    // Smoothing the stretched image gives the edge of sight a soft falloff
+    this.ctx.imageSmoothingEnabled = true;
+    this.ctx.drawImage(this.fogCanvas, 0, 0, columns * tileSize, rows * tileSize);
+  }
+
+  // Stack of chevrons above a unit, one per rank earned
+  private drawRankChevrons(unit: Unit, bottom: number): void {
+    const { count, color } = RANK_CHEVRONS[unit.rank];
+    if (count === 0) return;
+    
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = 1.5;
+    for (let i = 0; i < count; i++) {
+      const y = bottom - i * 3;
+      this.ctx.beginPath();
+      this.ctx.moveTo(unit.position.x - 4, y - 3);
+      this.ctx.lineTo(unit.position.x, y);
+      this.ctx.lineTo(unit.position.x + 4, y - 3);
+      this.ctx.stroke();
+    }
+  }
+
+  private drawUnits(state: GameState, vision: PlayerVision | null): void {
     // First draw attack lines
-    this.drawAttackLines(state);
+    this.drawAttackLines(state, vision);
     
     Object.values(state.units).forEach(unit => {
       if (unit.isDead) return; // Don't draw dead units
+      if (vision && !vision.canSee(unit)) return;
       
       const player = state.players[unit.playerId];
       if (!player) return;
@@ -204,7 +529,7 @@ export class GameRenderer {
         this.ctx.rotate(angle);
         this.ctx.translate(-unit.position.x, -unit.position.y);
       } else if (unit.isAttacking && unit.targetId) {
-        const target = state.units[unit.targetId];
+        const target = state.units[unit.targetId] ?? state.bases[unit.targetId];
         if (target) {
           const angle = Math.atan2(
             target.position.y - unit.position.y,
@@ -252,6 +577,14 @@ export class GameRenderer {
         healthBarHeight
       );
       
+      this.drawRankChevrons(unit, unit.position.y - size.height / 2 - 10);
+      
+      // Draw the load a gatherer is carrying home
+      if (unit.cargo) {
+        this.ctx.fillStyle = RESOURCE_COLORS[unit.cargo.type];
+        this.ctx.fillRect(unit.position.x - size.width / 2 - 3, unit.position.y + size.height / 2 - 3, 6, 6);
+      }
+      
       // Draw player color indicator
       this.ctx.strokeStyle = player.color;
       this.ctx.lineWidth = 2;
@@ -293,12 +626,14 @@ export class GameRenderer {
   }
 
   // Draw attack lines between units and their targets
-  private drawAttackLines(state: GameState): void {
+  // Lines are only drawn when both ends are in sight, so they give nothing hidden away
+  private drawAttackLines(state: GameState, vision: PlayerVision | null): void {
     Object.values(state.units).forEach(unit => {
       if (unit.isDead || !unit.isAttacking || !unit.targetId) return;
       
-      const target = state.units[unit.targetId];
-      if (!target || target.isDead) return;
+      const target = state.units[unit.targetId] ?? state.bases[unit.targetId];
+      if (!target || (isBase(target) ? target.isDestroyed : target.isDead)) return;
+      if (vision && (!vision.canSee(unit) || !vision.canSee(target))) return;
       
       // Draw attack line
       this.ctx.beginPath();
@@ -315,6 +650,12 @@ export class GameRenderer {
       } else if (unit.type === UnitType.HELICOPTER) {
         this.ctx.strokeStyle = 'rgba(0, 255, 255, 0.5)'; // Cyan for helicopters
         this.ctx.lineWidth = 1.5;
+      } else if (unit.type === UnitType.OVERLORD) {
+        this.ctx.strokeStyle = 'rgba(255, 0, 0, 0.6)'; // Heavy red for overlords
+        this.ctx.lineWidth = 3;
+      } else {
+        this.ctx.strokeStyle = 'rgba(255, 160, 0, 0.5)'; // Orange for light vehicles
+        this.ctx.lineWidth = 1.5;
       }
       
       this.ctx.stroke();
@@ -329,7 +670,22 @@ export class GameRenderer {
     });
   }
 
-  // Draw debug information
+  // Draw the remaining path of every moving unit
+  private drawDebugPaths(state: GameState, vision: PlayerVision | null): void {
+    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    this.ctx.lineWidth = 1;
+    Object.values(state.units).forEach(unit => {
+      if (unit.isDead || !unit.path || unit.path.length === 0) return;
+      if (vision && !vision.canSee(unit)) return;
+      
+      this.ctx.beginPath();
+      this.ctx.moveTo(unit.position.x, unit.position.y);
+      unit.path.forEach(waypoint => this.ctx.lineTo(waypoint.x, waypoint.y));
+      this.ctx.stroke();
+    });
+  }
+
+  // Draw debug information in screen space
   private drawDebugInfo(state: GameState): void {
     // Draw FPS and game time
     this.ctx.font = '12px Arial';
@@ -368,72 +724,283 @@ export class GameRenderer {
         20,
         y
       );
+      y += 15;
+      this.ctx.fillText(
+        `  Supplies: ${player.resources[ResourceType.SUPPLIES]}`,
+        20,
+        y
+      );
       y += 25;
     });
   }
 
-  // Draw selection box
+  // Draw each player's score in the top right corner, with the time left in timed matches
+  private drawScoreboard(state: GameState): void {
+    const x = this.canvas.width - 10;
+    let y = 20;
+    this.ctx.font = '12px Arial';
+    this.ctx.textAlign = 'right';
+    
+    if (state.mode === GameMode.TIMED_SCORE) {
+      const remaining = Math.max(0, VICTORY_CONFIG.timeLimit - state.gameTime);
+      const minutes = Math.floor(remaining / 60);
+      const seconds = Math.floor(remaining % 60).toString().padStart(2, '0');
+      this.ctx.fillStyle = 'white';
+      this.ctx.fillText(`Time left: ${minutes}:${seconds}`, x, y);
+      y += 18;
+    }
+    
+    Object.values(state.players)
+      .sort((a, b) => (state.scores[b.id] ?? 0) - (state.scores[a.id] ?? 0))
+      .forEach(player => {
+        const score = Math.floor(state.scores[player.id] ?? 0);
+        const text = state.mode === GameMode.KING_OF_THE_HILL
+          ? `${player.name}: ${score}/${VICTORY_CONFIG.holdTimeToWin}s`
+          : `${player.name}: ${score}`;
+        this.ctx.fillStyle = player.color;
+        this.ctx.fillText(player.eliminatedAt === null ? text : `${text} (out)`, x, y);
+        y += 15;
+      });
+  }
+
+  // Draw a flag at a player's rally point, joined to their base
+  public drawRallyPoint(player: Player): void {
+    const rallyPoint = player.rallyPoint;
+    if (!rallyPoint) return;
+    
+    this.withCamera(() => {
+      this.ctx.strokeStyle = player.color;
+      this.ctx.lineWidth = 1;
+      this.ctx.setLineDash([4, 4]);
+      this.ctx.beginPath();
+      this.ctx.moveTo(player.basePosition.x, player.basePosition.y);
+      this.ctx.lineTo(rallyPoint.x, rallyPoint.y);
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+      
+      // Flag pole and pennant
+      this.ctx.lineWidth = 2;
+      this.ctx.beginPath();
+      this.ctx.moveTo(rallyPoint.x, rallyPoint.y);
+      this.ctx.lineTo(rallyPoint.x, rallyPoint.y - 18);
+      this.ctx.stroke();
+      this.ctx.fillStyle = player.color;
+      this.ctx.beginPath();
+      this.ctx.moveTo(rallyPoint.x, rallyPoint.y - 18);
+      this.ctx.lineTo(rallyPoint.x + 10, rallyPoint.y - 14);
+      this.ctx.lineTo(rallyPoint.x, rallyPoint.y - 10);
+      this.ctx.fill();
+      this.ctx.lineWidth = 1;
+    });
+  }
+
+  // Mark where bases will go on a map being edited, numbered in the order players are handed them
+  public drawStartMarkers(starts: Position[]): void {
+    this.withCamera(() => {
+      this.ctx.font = 'bold 16px Arial';
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'middle';
+      starts.forEach((start, index) => {
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+        this.ctx.fillRect(start.x - BASE_SPRITE_SIZE / 2, start.y - BASE_SPRITE_SIZE / 2, BASE_SPRITE_SIZE, BASE_SPRITE_SIZE);
+        this.ctx.strokeStyle = 'white';
+        this.ctx.strokeRect(start.x - BASE_SPRITE_SIZE / 2, start.y - BASE_SPRITE_SIZE / 2, BASE_SPRITE_SIZE, BASE_SPRITE_SIZE);
+        this.ctx.fillStyle = 'white';
+        this.ctx.fillText(`${index + 1}`, start.x, start.y);
+      });
+      this.ctx.textBaseline = 'alphabetic';
+    });
+  }
+
+  // Outline of the area a map editor tool will change
+  public drawBrush(position: Position, radius: number): void {
+    this.withCamera(() => {
+      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+      this.ctx.setLineDash([4, 4]);
+      this.ctx.beginPath();
+      this.ctx.arc(position.x, position.y, radius, 0, Math.PI * 2);
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+    });
+  }
+
+  // Draw an arrow from where a group is sent in the direction it will face
+  public drawFacingArrow(from: Position, to: Position): void {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    this.withCamera(() => {
+      this.ctx.strokeStyle = 'white';
+      this.ctx.lineWidth = 2;
+      this.ctx.beginPath();
+      this.ctx.moveTo(from.x, from.y);
+      this.ctx.lineTo(to.x, to.y);
+      this.ctx.moveTo(to.x + Math.cos(angle + Math.PI * 0.8) * 10, to.y + Math.sin(angle + Math.PI * 0.8) * 10);
+      this.ctx.lineTo(to.x, to.y);
+      this.ctx.lineTo(to.x + Math.cos(angle - Math.PI * 0.8) * 10, to.y + Math.sin(angle - Math.PI * 0.8) * 10);
+      this.ctx.stroke();
+      this.ctx.lineWidth = 1;
+    });
+  }
+
+  // Draw selection box between two world positions
   public drawSelectionBox(startPos: Position, endPos: Position): void {
-    const width = endPos.x - startPos.x;
-    const height = endPos.y - startPos.y;
+    const start = this.camera.worldToScreen(startPos);
+    const end = this.camera.worldToScreen(endPos);
     
     this.ctx.strokeStyle = 'white';
     this.ctx.lineWidth = 1;
     this.ctx.setLineDash([5, 3]);
-    this.ctx.strokeRect(startPos.x, startPos.y, width, height);
+    this.ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
     this.ctx.setLineDash([]);
   }
 
   // Highlight selected units
   public highlightSelectedUnits(units: Unit[]): void {
-    units.forEach(unit => {
-      if (unit.isDead) return;
+    this.withCamera(() => {
+      units.forEach(unit => {
+        if (unit.isDead) return;
+        
+        const size = UNIT_SIZE[unit.type];
+        
+        // Draw selection circle
+        this.ctx.strokeStyle = 'white';
+        this.ctx.lineWidth = 2;
+        this.ctx.setLineDash([3, 2]);
+        this.ctx.beginPath();
+        this.ctx.arc(
+          unit.position.x,
+          unit.position.y,
+          size.width / 2 + 5,
+          0,
+          Math.PI * 2
+        );
+        this.ctx.stroke();
+        this.ctx.setLineDash([]);
+      });
+    });
+  }
+
+  // Draw the order queues of the given units as a chain of waypoints leading on from each unit
+  // Enemy targets the player cannot see are left out
+  public drawUnitOrders(state: GameState, units: Unit[], vision: PlayerVision | null = null): void {
+    this.withCamera(() => {
+      this.ctx.lineWidth = 1;
+      this.ctx.setLineDash([4, 4]);
       
-      const size = UNIT_SIZE[unit.type];
+      units.forEach(unit => {
+        if (unit.isDead) return;
+        
+        let from = unit.position;
+        unit.orders.forEach(order => {
+          this.ctx.strokeStyle = ORDER_COLORS[order.type];
+          this.ctx.fillStyle = ORDER_COLORS[order.type];
+          
+          // Holding units stay where the previous order left them
+          if (order.type === OrderType.HOLD_POSITION) {
+            this.ctx.strokeRect(from.x - 6, from.y - 6, 12, 12);
+            return;
+          }
+          
+          const to = this.getOrderPoint(state, order, vision);
+          if (!to) return;
+          this.drawWaypoint(from, to);
+          from = to;
+        });
+        
+        // Patrols loop back round to their first point
+        const patrol = unit.orders.filter(order => order.type === OrderType.PATROL && order.position);
+        if (patrol.length > 1) {
+          this.ctx.strokeStyle = ORDER_COLORS[OrderType.PATROL];
+          this.ctx.beginPath();
+          this.ctx.moveTo(from.x, from.y);
+          this.ctx.lineTo(patrol[0].position!.x, patrol[0].position!.y);
+          this.ctx.stroke();
+        }
+      });
       
-      // Draw selection circle
-      this.ctx.strokeStyle = 'white';
-      this.ctx.lineWidth = 2;
-      this.ctx.setLineDash([3, 2]);
-      this.ctx.beginPath();
-      this.ctx.arc(
-        unit.position.x,
-        unit.position.y,
-        size.width / 2 + 5,
-        0,
-        Math.PI * 2
-      );
-      this.ctx.stroke();
       this.ctx.setLineDash([]);
     });
   }
 
-  // Draw game over screen
-  public drawGameOver(winner: string): void {
+  // Where an order leads on the map, or null when it is somewhere the player cannot see
+  private getOrderPoint(state: GameState, order: UnitOrder, vision: PlayerVision | null): Position | null {
+    if (!order.targetId) return order.position ?? null;
+    
+    // Deposits never move, so the explored map shows where they are
+    const deposit = state.resources[order.targetId];
+    if (deposit) return deposit.position;
+    
+    const target = state.units[order.targetId] ?? state.bases[order.targetId];
+    if (!target) return null;
+    if (vision && !(isBase(target) ? vision.hasSeen(target) : vision.canSee(target))) return null;
+    return target.position;
+  }
+
+  // Dashed line to a waypoint with a dot on it, in the current colours
+  private drawWaypoint(from: Position, to: Position): void {
+    this.ctx.beginPath();
+    this.ctx.moveTo(from.x, from.y);
+    this.ctx.lineTo(to.x, to.y);
+    this.ctx.stroke();
+    
+    this.ctx.beginPath();
+    this.ctx.arc(to.x, to.y, 3, 0, Math.PI * 2);
+    this.ctx.fill();
+  }
+
+  // Draw a banner across the middle of the screen, e.g. while connecting
+  public drawStatusMessage(message: string): void {
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    this.ctx.fillRect(0, this.canvas.height / 2 - 30, this.canvas.width, 60);
+    
+    this.ctx.font = '20px Arial';
+    this.ctx.fillStyle = 'white';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(message, this.canvas.width / 2, this.canvas.height / 2);
+    this.ctx.textBaseline = 'alphabetic';
+  }
+
+  // Draw game over screen with the final placings
+  public drawGameOver(state: GameState, canRestart: boolean): void {
+    const { result } = state;
+    if (!result) return;
+    
     // Darken the screen
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
     this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
     
     // Draw game over text
+    const centerX = this.canvas.width / 2;
+    let y = this.canvas.height / 2 - 40 - result.placements.length * 10;
     this.ctx.font = 'bold 36px Arial';
     this.ctx.fillStyle = 'white';
     this.ctx.textAlign = 'center';
-    this.ctx.fillText('Game Over', this.canvas.width / 2, this.canvas.height / 2 - 40);
+    this.ctx.fillText('Game Over', centerX, y);
     
     // Draw winner text
+    const winner = result.winnerId ? state.players[result.winnerId] : null;
+    y += 40;
     this.ctx.font = '24px Arial';
-    this.ctx.fillText(
-      `${winner} wins!`,
-      this.canvas.width / 2,
-      this.canvas.height / 2
-    );
+    this.ctx.fillText(winner ? `${winner.name} wins!` : 'Draw', centerX, y);
+    y += 24;
+    this.ctx.font = '16px Arial';
+    this.ctx.fillText(VICTORY_REASON_TEXT[result.reason], centerX, y);
+    
+    // Draw placings
+    y += 10;
+    result.placements.forEach(placement => {
+      const player = state.players[placement.playerId];
+      if (!player) return;
+      y += 20;
+      this.ctx.fillStyle = player.color;
+      this.ctx.fillText(`${placement.place}. ${player.name} (${Math.floor(placement.score)})`, centerX, y);
+    });
     
     // Draw restart instructions
-    this.ctx.font = '18px Arial';
-    this.ctx.fillText(
-      'Click to play again',
-      this.canvas.width / 2,
-      this.canvas.height / 2 + 40
-    );
+    if (canRestart) {
+      this.ctx.font = '18px Arial';
+      this.ctx.fillStyle = 'white';
+      this.ctx.fillText('Click to play again', centerX, y + 40);
+    }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,172 @@
+import { BalanceError, parseBalance } from './balance';
+import { GameEngine } from './engine';
+import { GameCommand } from './commands';
+import { MapError, validateMap } from './mapfile';
+import { MatchConfig, createMatch } from './match';
+import { GameState } from './types';
+
+// Bump when the file layout or the meaning of its commands changes; older files are rejected with a clear error
+export const REPLAY_VERSION = 3;
+
+// A recorded match: replaying the commands on the same config reproduces it exactly
+export interface ReplayFile {
+  version: number;
+  config: MatchConfig;
+  endTick: number; // Last simulation step that was recorded
+  commands: GameCommand[];
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+// Capture a running match as a replay
+export const createReplay = (config: MatchConfig, engine: GameEngine): ReplayFile => ({
+  version: REPLAY_VERSION,
+  config,
+  endTick: engine.getState().tick,
+  commands: engine.getCommandLog().map(command => ({ ...command })),
+});
+
+export const serializeReplay = (replay: ReplayFile): string => JSON.stringify(replay);
+
+// Read a replay file, checking that it is one we know how to play
+export const parseReplay = (json: string): ReplayFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ReplayError('Replay file is not valid JSON');
+  }
+
+  const replay = data as Partial<ReplayFile>;
+  if (typeof replay !== 'object' || replay === null || typeof replay.version !== 'number') {
+    throw new ReplayError('Replay file has no version');
+  }
+  if (replay.version > REPLAY_VERSION) {
+    throw new ReplayError(`Replay version ${replay.version} is newer than this game supports (${REPLAY_VERSION})`);
+  }
+  if (replay.version < REPLAY_VERSION) {
+    throw new ReplayError(`Replay version ${replay.version} is no longer supported`);
+  }
+  if (!replay.config || !Array.isArray(replay.config.players) || typeof replay.config.seed !== 'number') {
+    throw new ReplayError('Replay file has no valid match config');
+  }
+  if (typeof replay.endTick !== 'number' || !Array.isArray(replay.commands)) {
+    throw new ReplayError('Replay file has no command stream');
+  }
+  if (replay.config.balance !== undefined) {
+    try {
+      parseBalance(replay.config.balance);
+    } catch (error) {
+      if (!(error instanceof BalanceError)) throw error;
+      throw new ReplayError(`Replay file has invalid balance data: ${error.message}`);
+    }
+  }
+  if (replay.config.map !== undefined) {
+    try {
+      validateMap(replay.config.map);
+    } catch (error) {
+      if (!(error instanceof MapError)) throw error;
+      throw new ReplayError(`Replay file has an invalid map: ${error.message}`);
+    }
+  }
+
+  return replay as ReplayFile;
+};
+
+// Plays a replay back with pause, seek and speed controls
+export class ReplayPlayer {
+  private replay: ReplayFile;
+  private engine!: GameEngine;
+  private playerIds: string[] = [];
+  private speed: number = 1;
+  private paused: boolean = false;
+  private accumulator: number = 0;
+
+  constructor(replay: ReplayFile) {
+    this.replay = replay;
+    this.restart();
+  }
+
+  public getState(): GameState {
+    return this.engine.getState();
+  }
+
+  // Engine being replayed; read-only use, commands would break the replay
+  public getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  // Player ids in the same order as replay.config.players
+  public getPlayerIds(): string[] {
+    return this.playerIds;
+  }
+
+  public getCurrentTick(): number {
+    return this.engine.getState().tick;
+  }
+
+  public getTickDuration(): number {
+    return this.engine.getTickDuration();
+  }
+
+  public getEndTick(): number {
+    return this.replay.endTick;
+  }
+
+  public isFinished(): boolean {
+    return this.getCurrentTick() >= this.replay.endTick;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  public setSpeed(speed: number): void {
+    this.speed = Math.max(0, speed);
+  }
+
+  // Advance playback by real elapsed time, scaled by the playback speed
+  public update(elapsedSeconds: number): void {
+    if (this.paused || this.isFinished()) return;
+
+    this.accumulator += elapsedSeconds * this.speed;
+    const tickDuration = this.engine.getTickDuration();
+    const ticks = Math.min(
+      Math.floor(this.accumulator / tickDuration),
+      this.replay.endTick - this.getCurrentTick()
+    );
+    this.accumulator -= ticks * tickDuration;
+    this.engine.step(ticks);
+  }
+
+  // Jump to any tick; going backwards re-simulates from the start
+  public seek(tick: number): void {
+    const targetTick = Math.max(0, Math.min(tick, this.replay.endTick));
+    if (targetTick < this.getCurrentTick()) {
+      this.restart();
+    }
+    this.engine.step(targetTick - this.getCurrentTick());
+    this.accumulator = 0;
+  }
+
+  // Rebuild the match from its config and queue the whole command stream
+  private restart(): void {
+    const match = createMatch(this.replay.config);
+    this.engine = match.engine;
+    this.playerIds = match.playerIds;
+    this.replay.commands.forEach(command => this.engine.submitCommand(command));
+  }
+}
@@ -0,0 +1,534 @@
+import { AI_ROLES } from './ai';
+import { BalanceError, parseBalance } from './balance';
+import { EngineSaveData, GameEngine } from './engine';
+import { GameClock } from './clock';
+import { MapError, validateMap } from './mapfile';
+import { MapSymmetry } from './mapgen';
+import { MatchConfig } from './match';
+import { ProtocolError, parseCommand } from './protocol';
+import { Schema, isObject, validateSchema } from './schema';
+import {
+  AIDifficulty,
+  DamageType,
+  FactionType,
+  GameMode,
+  GameState,
+  OrderType,
+  Player,
+  ResourceType,
+  TerrainType,
+  UnitType,
+  VeterancyRank,
+  VictoryReason,
+} from './types';
+
+// Bump when the file layout changes; older files are rejected with a clear error
+export const SAVE_VERSION = 1;
+
+// Local save slots live in localStorage under this prefix plus the slot name
+const SAVE_SLOT_PREFIX = 'mini_generals:save:';
+
+// Most named slots kept in the browser; export to a file to keep more
+export const MAX_SAVE_SLOTS = 10;
+
+// Longest slot name kept; anything after is cut off
+const MAX_SLOT_NAME_LENGTH = 32;
+
+// A player as stored in a save: units are listed by id instead of repeating the unit objects
+export type SavedPlayer = Omit<Player, 'units'> & { unitIds: string[] };
+
+export type SavedGameState = Omit<GameState, 'players'> & { players: Record<string, SavedPlayer> };
+
+// A saved match: the engine's full data plus the setup it started from
+export interface SaveFile {
+  version: number;
+  name: string;
+  savedAt: number; // Unix time in milliseconds
+  config: MatchConfig; // Match the save was taken from, so replays still work after loading
+  playerIds: string[]; // In the same order as config.players
+  engine: Omit<EngineSaveData, 'state'> & { state: SavedGameState };
+}
+
+// What a slot list shows without loading the whole match
+export interface SaveSlotInfo {
+  name: string;
+  savedAt: number;
+  gameTime: number;
+}
+
+export class SaveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveError';
+  }
+}
+
+const NUMBER: Schema = { kind: 'number' };
+const COUNT: Schema = { kind: 'number', min: 0, integer: true };
+const STRING: Schema = { kind: 'string' };
+const BOOLEAN: Schema = { kind: 'boolean' };
+const ID_LIST: Schema = { kind: 'array', items: STRING };
+const POSITION: Schema = { kind: 'object', fields: { x: NUMBER, y: NUMBER } };
+const RESOURCE_AMOUNTS: Schema = { kind: 'record', keys: Object.values(ResourceType), value: NUMBER };
+
+const enumOf = (values: string[]): Schema => ({ kind: 'enum', values });
+const nullable = (schema: Schema): Schema => ({ kind: 'nullable', schema });
+const optional = (schema: Schema): Schema => ({ kind: 'optional', schema });
+
+// Problems found by another module's own check, reported at the path they were found
+const checkWith = (check: (value: unknown) => void): Schema => ({
+  kind: 'check',
+  check: value => {
+    try {
+      check(value);
+      return null;
+    } catch (error) {
+      if (!(error instanceof BalanceError || error instanceof MapError || error instanceof ProtocolError)) throw error;
+      return error.message;
+    }
+  },
+});
+
+const COMMAND_SCHEMA = checkWith(parseCommand);
+
+const PLAYER_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id: STRING,
+    name: STRING,
+    faction: enumOf(Object.values(FactionType)),
+    resources: RESOURCE_AMOUNTS,
+    unitIds: ID_LIST,
+    baseId: STRING,
+    basePosition: POSITION,
+    productionQueue: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          id: STRING,
+          unitType: enumOf(Object.values(UnitType)),
+          cost: RESOURCE_AMOUNTS,
+          buildTime: NUMBER,
+          progress: NUMBER,
+        },
+      },
+    },
+    rallyPoint: nullable(POSITION),
+    color: STRING,
+    aiDifficulty: optional(enumOf(Object.values(AIDifficulty))),
+    stats: {
+      kind: 'object',
+      fields: { unitsBuilt: COUNT, unitsLost: COUNT, unitsKilled: COUNT, moneyCollected: NUMBER, suppliesCollected: NUMBER },
+    },
+    eliminatedAt: nullable(COUNT),
+  },
+};
+
+const UNIT_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id: STRING,
+    type: enumOf(Object.values(UnitType)),
+    position: POSITION,
+    health: NUMBER,
+    maxHealth: NUMBER,
+    attack: NUMBER,
+    defense: NUMBER,
+    range: NUMBER,
+    sight: NUMBER,
+    speed: NUMBER,
+    carryCapacity: NUMBER,
+    cargo: nullable({ kind: 'object', fields: { type: enumOf(Object.values(ResourceType)), amount: NUMBER } }),
+    playerId: STRING,
+    targetId: optional(STRING),
+    path: optional({ kind: 'array', items: POSITION }),
+    orders: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          type: enumOf(Object.values(OrderType)),
+          position: optional(POSITION),
+          targetId: optional(STRING),
+          groupSpeed: optional(NUMBER),
+          isStarted: BOOLEAN,
+        },
+      },
+    },
+    isDead: BOOLEAN,
+    isMoving: BOOLEAN,
+    isAttacking: BOOLEAN,
+    canAttackAir: BOOLEAN,
+    canAttackGround: BOOLEAN,
+    weaponReadyTick: COUNT,
+    damageDealt: NUMBER,
+    kills: COUNT,
+    experience: NUMBER,
+    rank: enumOf(Object.values(VeterancyRank)),
+  },
+};
+
+const BASE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id: STRING,
+    playerId: STRING,
+    position: POSITION,
+    health: NUMBER,
+    maxHealth: NUMBER,
+    defense: NUMBER,
+    size: NUMBER,
+    sight: NUMBER,
+    turret: nullable({
+      kind: 'object',
+      fields: { attack: NUMBER, range: NUMBER, targetId: optional(STRING), readyTick: COUNT },
+    }),
+    isDestroyed: BOOLEAN,
+  },
+};
+
+const PROJECTILE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id: STRING,
+    playerId: STRING,
+    sourceId: STRING,
+    targetId: STRING,
+    position: POSITION,
+    targetPosition: POSITION,
+    speed: NUMBER,
+    damage: NUMBER,
+    damageType: enumOf(Object.values(DamageType)),
+    splashRadius: NUMBER,
+    hitsAir: BOOLEAN,
+  },
+};
+
+const RESOURCE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id: STRING,
+    type: enumOf(Object.values(ResourceType)),
+    position: POSITION,
+    amount: NUMBER,
+    maxAmount: NUMBER,
+    regrowDelay: NUMBER,
+    regrowPerSecond: NUMBER,
+    regrowTimer: NUMBER,
+  },
+};
+
+const STATE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    players: { kind: 'map', value: PLAYER_SCHEMA },
+    units: { kind: 'map', value: UNIT_SCHEMA },
+    bases: { kind: 'map', value: BASE_SCHEMA },
+    resources: { kind: 'map', value: RESOURCE_SCHEMA },
+    projectiles: { kind: 'map', value: PROJECTILE_SCHEMA },
+    tick: COUNT,
+    gameTime: NUMBER,
+    mode: enumOf(Object.values(GameMode)),
+    scores: { kind: 'map', value: NUMBER },
+    zones: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          id: STRING,
+          position: POSITION,
+          radius: NUMBER,
+          ownerId: nullable(STRING),
+          capturingId: nullable(STRING),
+          captureProgress: NUMBER,
+        },
+      },
+    },
+    result: nullable({
+      kind: 'object',
+      fields: {
+        mode: enumOf(Object.values(GameMode)),
+        winnerId: nullable(STRING),
+        reason: enumOf(Object.values(VictoryReason)),
+        tick: COUNT,
+        placements: {
+          kind: 'array',
+          items: { kind: 'object', fields: { playerId: STRING, place: COUNT, score: NUMBER } },
+        },
+      },
+    }),
+    mapSize: { kind: 'object', fields: { width: NUMBER, height: NUMBER } },
+    terrain: {
+      kind: 'object',
+      fields: {
+        tileSize: COUNT,
+        columns: COUNT,
+        rows: COUNT,
+        tiles: { kind: 'array', items: enumOf(Object.values(TerrainType)) },
+      },
+    },
+  },
+};
+
+const MAP_REPORT_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    seed: nullable(NUMBER),
+    playerCount: COUNT,
+    symmetry: enumOf(Object.values(MapSymmetry)),
+    starts: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          position: POSITION,
+          nearestEnemyDistance: nullable(NUMBER),
+          middleDistance: nullable(NUMBER),
+          nearbyDeposits: RESOURCE_AMOUNTS,
+          nearbyAmount: RESOURCE_AMOUNTS,
+          openGround: NUMBER,
+        },
+      },
+    },
+    contestedDeposits: RESOURCE_AMOUNTS,
+    spread: { kind: 'map', value: NUMBER },
+    isFair: BOOLEAN,
+    warnings: { kind: 'array', items: STRING },
+  },
+};
+
+const ENGINE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    state: STATE_SCHEMA,
+    tickRate: { kind: 'number', min: 1 },
+    randomSeed: NUMBER,
+    randomState: NUMBER,
+    balance: checkWith(parseBalance),
+    resourceSpots: { kind: 'array', items: POSITION },
+    startPositions: { kind: 'array', items: POSITION },
+    mapReport: nullable(MAP_REPORT_SCHEMA),
+    unitOrder: ID_LIST,
+    ai: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          playerId: STRING,
+          thinkTimer: NUMBER,
+          roles: { kind: 'array', items: { kind: 'tuple', items: [STRING, enumOf([...AI_ROLES])] } },
+          gathererClaims: { kind: 'array', items: { kind: 'tuple', items: [STRING, STRING] } },
+          sectorVisits: { kind: 'array', items: nullable(NUMBER) },
+          knownEnemyBases: { kind: 'array', items: { kind: 'tuple', items: [STRING, POSITION] } },
+          attackTarget: nullable(STRING),
+        },
+      },
+    },
+    vision: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          playerId: STRING,
+          explored: { kind: 'array', items: COUNT },
+          ghosts: {
+            kind: 'array',
+            items: {
+              kind: 'object',
+              fields: { baseId: STRING, playerId: STRING, position: POSITION, size: NUMBER, isDestroyed: BOOLEAN },
+            },
+          },
+        },
+      },
+    },
+    pendingCommands: { kind: 'array', items: COMMAND_SCHEMA },
+    commandLog: { kind: 'array', items: COMMAND_SCHEMA },
+  },
+};
+
+// Everything a save file must hold, down to each unit's fields
+const SAVE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    version: NUMBER,
+    name: STRING,
+    savedAt: NUMBER,
+    config: {
+      kind: 'object',
+      fields: {
+        mapSize: { kind: 'object', fields: { width: NUMBER, height: NUMBER } },
+        seed: NUMBER,
+        players: {
+          kind: 'array',
+          items: {
+            kind: 'object',
+            fields: {
+              name: STRING,
+              faction: enumOf(Object.values(FactionType)),
+              aiDifficulty: optional(enumOf(Object.values(AIDifficulty))),
+            },
+          },
+        },
+        mode: optional(enumOf(Object.values(GameMode))),
+        balance: optional(checkWith(parseBalance)),
+        map: optional(checkWith(validateMap)),
+      },
+    },
+    playerIds: ID_LIST,
+    engine: ENGINE_SCHEMA,
+  },
+};
+
+// Most problems listed when a save is rejected; a damaged file can break every unit in it
+const MAX_LISTED_ERRORS = 10;
+
+// Copy of a value with no objects shared with the original
+const cloneJson = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Capture a running match as a save
+export const createSave = (name: string, config: MatchConfig, playerIds: string[], engine: GameEngine): SaveFile => {
+  const { state, ...engineData } = engine.getSaveData();
+  const players: Record<string, SavedPlayer> = {};
+  Object.values(state.players).forEach(({ units, ...player }) => {
+    players[player.id] = { ...player, unitIds: units.map(unit => unit.id) };
+  });
+
+  return {
+    version: SAVE_VERSION,
+    name,
+    savedAt: Date.now(),
+    config: cloneJson(config),
+    playerIds: [...playerIds],
+    engine: cloneJson({ ...engineData, state: { ...state, players } }),
+  };
+};
+
+// Rebuild a running engine from a save; the save itself is left untouched and can be loaded again
+export const restoreSave = (save: SaveFile, clock?: GameClock): GameEngine => {
+  const { state: savedState, ...engineData } = cloneJson(save.engine);
+  const players: Record<string, Player> = {};
+  Object.values(savedState.players).forEach(({ unitIds, ...player }) => {
+    players[player.id] = { ...player, units: unitIds.map(unitId => savedState.units[unitId]) };
+  });
+
+  return GameEngine.fromSaveData({ ...engineData, state: { ...savedState, players } }, clock);
+};
+
+export const serializeSave = (save: SaveFile): string => JSON.stringify(save);
+
+// Check that every reference inside a save points at something that is there
+const checkSave = (save: SaveFile): void => {
+  const { state } = save.engine;
+  if (state.terrain.tiles.length !== state.terrain.columns * state.terrain.rows) {
+    throw new SaveError('Save file has terrain that does not cover its grid');
+  }
+  if (save.playerIds.length !== save.config.players.length) {
+    throw new SaveError('Save file has a different number of players than its match config');
+  }
+  if (save.playerIds.some(playerId => !state.players[playerId])) {
+    throw new SaveError('Save file lists a player that is not in the game');
+  }
+
+  Object.values(state.players).forEach(player => {
+    if (player.unitIds.some(unitId => !state.units[unitId])) {
+      throw new SaveError(`Save file is missing units of player ${player.name}`);
+    }
+    if (!state.bases[player.baseId]) {
+      throw new SaveError(`Save file is missing the base of player ${player.name}`);
+    }
+  });
+  if (Object.values(state.units).some(unit => !state.players[unit.playerId])) {
+    throw new SaveError('Save file has a unit of a player that is not in the game');
+  }
+  if (save.engine.unitOrder.some(unitId => !state.units[unitId])) {
+    throw new SaveError('Save file indexes a unit that is not in the game');
+  }
+  if (save.engine.ai.some(ai => !state.players[ai.playerId]?.aiDifficulty)) {
+    throw new SaveError('Save file has an AI for a player that is not computer controlled');
+  }
+  if (save.engine.vision.some(vision => !state.players[vision.playerId])) {
+    throw new SaveError('Save file has fog of war for a player that is not in the game');
+  }
+};
+
+// Read a save file, checking its shape field by field and that it is one we know how to load
+export const parseSave = (json: string): SaveFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SaveError('Save file is not valid JSON');
+  }
+
+  if (!isObject(data) || typeof data.version !== 'number') {
+    throw new SaveError('Save file has no version');
+  }
+  if (data.version > SAVE_VERSION) {
+    throw new SaveError(`Save version ${data.version} is newer than this game supports (${SAVE_VERSION})`);
+  }
+  if (data.version < SAVE_VERSION) {
+    throw new SaveError(`Save version ${data.version} is no longer supported`);
+  }
+
+  const errors: string[] = [];
+  validateSchema(data, SAVE_SCHEMA, 'save', errors);
+  if (errors.length > 0) {
+    const listed = errors.slice(0, MAX_LISTED_ERRORS);
+    if (errors.length > listed.length) listed.push(`and ${errors.length - listed.length} more`);
+    throw new SaveError(`Invalid save file:\n  ${listed.join('\n  ')}`);
+  }
+
+  const save = data as unknown as SaveFile;
+  checkSave(save);
+  return save;
+};
+
+// Named saves stored in the browser, newest first
+export const listSaveSlots = (storage: Storage = localStorage): SaveSlotInfo[] => {
+  const slots: SaveSlotInfo[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (!key?.startsWith(SAVE_SLOT_PREFIX)) continue;
+    try {
+      const save = parseSave(storage.getItem(key) ?? '');
+      slots.push({ name: save.name, savedAt: save.savedAt, gameTime: save.engine.state.gameTime });
+    } catch (error) {
+      // Unreadable slots are still listed so they can be deleted
+      if (!(error instanceof SaveError)) throw error;
+      slots.push({ name: key.slice(SAVE_SLOT_PREFIX.length), savedAt: 0, gameTime: 0 });
+    }
+  }
+  return slots.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+// Store a save under its name, replacing any older save with that name
+export const writeSaveSlot = (save: SaveFile, storage: Storage = localStorage): void => {
+  const name = save.name.trim().slice(0, MAX_SLOT_NAME_LENGTH);
+  if (!name) {
+    throw new SaveError('Give the save a name');
+  }
+  const key = SAVE_SLOT_PREFIX + name;
+  const isNewSlot = storage.getItem(key) === null;
+  if (isNewSlot && listSaveSlots(storage).length >= MAX_SAVE_SLOTS) {
+    throw new SaveError(`All ${MAX_SAVE_SLOTS} save slots are full; delete one or overwrite an existing save`);
+  }
+
+  try {
+    storage.setItem(key, serializeSave({ ...save, name }));
+  } catch {
+    throw new SaveError('Browser storage is full; delete a save or export this one to a file');
+  }
+};
+
+export const readSaveSlot = (name: string, storage: Storage = localStorage): SaveFile => {
+  const json = storage.getItem(SAVE_SLOT_PREFIX + name);
+  if (json === null) {
+    throw new SaveError(`There is no save named "${name}"`);
+  }
+  return parseSave(json);
+};
+
+export const deleteSaveSlot = (name: string, storage: Storage = localStorage): void => {
+  storage.removeItem(SAVE_SLOT_PREFIX + name);
+};
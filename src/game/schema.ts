@@ -0,0 +1,108 @@
+// Shape a JSON file must have; checked field by field so errors can name the exact path
+export type Schema =
+  | { kind: 'number'; min?: number; integer?: boolean }
+  | { kind: 'string' }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; values: string[] }
+  | { kind: 'object'; fields: Record<string, Schema> }
+  | { kind: 'record'; keys: string[]; value: Schema; partial?: boolean } // Object keyed by an enum
+  | { kind: 'map'; value: Schema } // Object keyed by ids
+  | { kind: 'array'; items: Schema }
+  | { kind: 'tuple'; items: Schema[] }
+  | { kind: 'nullable'; schema: Schema }
+  | { kind: 'optional'; schema: Schema } // Object field that may be left out
+  | { kind: 'check'; check: (value: unknown) => string | null }; // Checked elsewhere; returns what is wrong
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Collect every way a value breaks a schema, each prefixed with where it happened
+export const validateSchema = (value: unknown, schema: Schema, path: string, errors: string[]): void => {
+  switch (schema.kind) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${path} must be a number`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        errors.push(`${path} must be ${schema.min === Number.MIN_VALUE ? 'greater than 0' : `at least ${schema.min}`}`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        errors.push(`${path} must be a whole number`);
+      }
+      break;
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${path} must be a string`);
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path} must be true or false`);
+      }
+      break;
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        errors.push(`${path} must be one of ${schema.values.join(', ')}`);
+      }
+      break;
+    case 'nullable':
+      if (value !== null) {
+        validateSchema(value, schema.schema, path, errors);
+      }
+      break;
+    case 'optional':
+      if (value !== undefined) {
+        validateSchema(value, schema.schema, path, errors);
+      }
+      break;
+    case 'check': {
+      const error = schema.check(value);
+      if (error) {
+        errors.push(`${path}: ${error}`);
+      }
+      break;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be a list`);
+        break;
+      }
+      value.forEach((item, index) => validateSchema(item, schema.items, `${path}[${index}]`, errors));
+      break;
+    case 'tuple':
+      if (!Array.isArray(value) || value.length !== schema.items.length) {
+        errors.push(`${path} must be a list of ${schema.items.length}`);
+        break;
+      }
+      schema.items.forEach((item, index) => validateSchema(value[index], item, `${path}[${index}]`, errors));
+      break;
+    case 'map':
+      if (!isObject(value)) {
+        errors.push(`${path} must be an object`);
+        break;
+      }
+      Object.entries(value).forEach(([key, item]) => validateSchema(item, schema.value, `${path}.${key}`, errors));
+      break;
+    case 'object':
+    case 'record': {
+      if (!isObject(value)) {
+        errors.push(`${path} must be an object`);
+        break;
+      }
+      const keys = schema.kind === 'object' ? Object.keys(schema.fields) : schema.keys;
+      const getFieldSchema = (key: string): Schema => schema.kind === 'object' ? schema.fields[key] : schema.value;
+      const required = schema.kind === 'object' || !schema.partial;
+      Object.keys(value).forEach(key => {
+        if (!keys.includes(key)) {
+          errors.push(`${path}.${key} is not a known field (expected one of ${keys.join(', ')})`);
+        }
+      });
+      keys.forEach(key => {
+        if (key in value) {
+          validateSchema(value[key], getFieldSchema(key), `${path}.${key}`, errors);
+        } else if (required && getFieldSchema(key).kind !== 'optional') {
+          errors.push(`${path}.${key} is missing`);
+        }
+      });
+      break;
+    }
+  }
+};
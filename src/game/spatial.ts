@@ -0,0 +1,165 @@
+import { Position, Unit } from './types';
+
+// Width and height of a grid cell in pixels; about the size of a typical query radius
+export const DEFAULT_CELL_SIZE = 64;
+
+// Uniform grid of units for range, nearest-neighbour and hit-test queries
+// The engine keeps it in sync as units are created, move and die
+export class SpatialGrid {
+  private cellSize: number;
+  private columns: number;
+  private rows: number;
+  private cells: Unit[][];
+  private unitCells: Map<string, number> = new Map(); // unit id -> cell index
+
+  constructor(width: number, height: number, cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+    this.columns = Math.max(1, Math.ceil(width / cellSize));
+    this.rows = Math.max(1, Math.ceil(height / cellSize));
+    this.cells = Array.from({ length: this.columns * this.rows }, () => []);
+  }
+
+  // Number of units in the index
+  public get size(): number {
+    return this.unitCells.size;
+  }
+
+  public insert(unit: Unit): void {
+    if (this.unitCells.has(unit.id)) {
+      this.update(unit);
+      return;
+    }
+    const cell = this.cellIndexAt(unit.position);
+    this.cells[cell].push(unit);
+    this.unitCells.set(unit.id, cell);
+  }
+
+  public remove(unitId: string): void {
+    const cell = this.unitCells.get(unitId);
+    if (cell === undefined) return;
+    const units = this.cells[cell];
+    const index = units.findIndex(unit => unit.id === unitId);
+    if (index !== -1) units.splice(index, 1);
+    this.unitCells.delete(unitId);
+  }
+
+  // Move a unit to the cell matching its current position
+  public update(unit: Unit): void {
+    const oldCell = this.unitCells.get(unit.id);
+    const newCell = this.cellIndexAt(unit.position);
+    if (oldCell === newCell) return;
+    if (oldCell !== undefined) this.remove(unit.id);
+    this.cells[newCell].push(unit);
+    this.unitCells.set(unit.id, newCell);
+  }
+
+  // Replace the contents with a new set of units
+  public rebuild(units: Unit[]): void {
+    this.cells.forEach(cell => {
+      cell.length = 0;
+    });
+    this.unitCells.clear();
+    units.forEach(unit => this.insert(unit));
+  }
+
+  // Ids of every indexed unit, cell by cell in the order queries visit them
+  // Rebuilding from units in this order reproduces the index exactly
+  public getUnitIds(): string[] {
+    return this.cells.flatMap(cell => cell.map(unit => unit.id));
+  }
+
+  // Units whose position is within a radius of a point
+  public queryRadius(position: Position, radius: number, filter?: (unit: Unit) => boolean): Unit[] {
+    const result: Unit[] = [];
+    const radiusSquared = radius * radius;
+    this.forEachCellInRect(position.x - radius, position.y - radius, position.x + radius, position.y + radius, units => {
+      units.forEach(unit => {
+        const dx = unit.position.x - position.x;
+        const dy = unit.position.y - position.y;
+        if (dx * dx + dy * dy <= radiusSquared && (!filter || filter(unit))) {
+          result.push(unit);
+        }
+      });
+    });
+    return result;
+  }
+
+  // Units whose position is inside an axis-aligned rectangle
+  public queryRect(min: Position, max: Position, filter?: (unit: Unit) => boolean): Unit[] {
+    const result: Unit[] = [];
+    this.forEachCellInRect(min.x, min.y, max.x, max.y, units => {
+      units.forEach(unit => {
+        if (
+          unit.position.x >= min.x &&
+          unit.position.x <= max.x &&
+          unit.position.y >= min.y &&
+          unit.position.y <= max.y &&
+          (!filter || filter(unit))
+        ) {
+          result.push(unit);
+        }
+      });
+    });
+    return result;
+  }
+
+  // Closest unit within a radius that passes the filter
+  // Searches rings of cells outwards and stops once no closer unit can exist
+  public findNearest(position: Position, maxRadius: number, filter?: (unit: Unit) => boolean): Unit | null {
+    const center = this.cellCoords(position);
+    const maxRing = Math.ceil(maxRadius / this.cellSize) + 1;
+    let nearest: Unit | null = null;
+    let nearestSquared = maxRadius * maxRadius;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Everything in this ring is at least (ring - 1) cells away
+      const ringDistance = Math.max(0, ring - 1) * this.cellSize;
+      if (nearest !== null && ringDistance * ringDistance > nearestSquared) break;
+
+      for (let row = center.row - ring; row <= center.row + ring; row++) {
+        if (row < 0 || row >= this.rows) continue;
+        for (let column = center.column - ring; column <= center.column + ring; column++) {
+          if (column < 0 || column >= this.columns) continue;
+          if (Math.abs(row - center.row) !== ring && Math.abs(column - center.column) !== ring) continue;
+
+          this.cells[row * this.columns + column].forEach(unit => {
+            const dx = unit.position.x - position.x;
+            const dy = unit.position.y - position.y;
+            const distanceSquared = dx * dx + dy * dy;
+            if (distanceSquared <= nearestSquared && (!filter || filter(unit))) {
+              if (nearest === null || distanceSquared < nearestSquared) {
+                nearest = unit;
+                nearestSquared = distanceSquared;
+              }
+            }
+          });
+        }
+      }
+    }
+
+    return nearest;
+  }
+
+  private forEachCellInRect(minX: number, minY: number, maxX: number, maxY: number, callback: (units: Unit[]) => void): void {
+    const min = this.cellCoords({ x: minX, y: minY });
+    const max = this.cellCoords({ x: maxX, y: maxY });
+    for (let row = min.row; row <= max.row; row++) {
+      for (let column = min.column; column <= max.column; column++) {
+        callback(this.cells[row * this.columns + column]);
+      }
+    }
+  }
+
+  // Cell coordinates of a position, clamped to the grid so off-map units still get a cell
+  private cellCoords(position: Position): { column: number; row: number } {
+    return {
+      column: Math.min(this.columns - 1, Math.max(0, Math.floor(position.x / this.cellSize))),
+      row: Math.min(this.rows - 1, Math.max(0, Math.floor(position.y / this.cellSize))),
+    };
+  }
+
+  private cellIndexAt(position: Position): number {
+    const { column, row } = this.cellCoords(position);
+    return row * this.columns + column;
+  }
+}
@@ -0,0 +1,183 @@
+import { SeededRandom } from './random';
+import { Position, TerrainMap, TerrainType } from './types';
+
+// Width and height of a terrain tile in pixels
+export const TILE_SIZE = 20;
+
+// Terrain generation config
+const TERRAIN_CONFIG = {
+  lakesPerMillionPixels: 4, // Water blobs, scaled by map area
+  ridgesPerMillionPixels: 4, // Cliff lines, scaled by map area
+  lakeRadius: { min: 2, max: 4 }, // In tiles
+  ridgeLength: { min: 6, max: 14 }, // In tiles
+  edgeMargin: 3, // Tiles along the map edge that stay clear
+};
+
+export interface TileCoord {
+  column: number;
+  row: number;
+}
+
+// Ground units cannot enter these tiles
+export const isPassableTerrain = (type: TerrainType): boolean =>
+  type === TerrainType.GRASS;
+
+// Create a map of plain grass
+export const createTerrain = (width: number, height: number, tileSize: number = TILE_SIZE): TerrainMap => {
+  const columns = Math.ceil(width / tileSize);
+  const rows = Math.ceil(height / tileSize);
+  return {
+    tileSize,
+    columns,
+    rows,
+    tiles: new Array(columns * rows).fill(TerrainType.GRASS),
+  };
+};
+
+export const isInsideTerrain = (terrain: TerrainMap, column: number, row: number): boolean =>
+  column >= 0 && row >= 0 && column < terrain.columns && row < terrain.rows;
+
+// Terrain type of a tile; everything outside the map counts as cliff
+export const getTile = (terrain: TerrainMap, column: number, row: number): TerrainType => {
+  if (!isInsideTerrain(terrain, column, row)) return TerrainType.CLIFF;
+  return terrain.tiles[row * terrain.columns + column];
+};
+
+export const setTile = (terrain: TerrainMap, column: number, row: number, type: TerrainType): void => {
+  if (!isInsideTerrain(terrain, column, row)) return;
+  terrain.tiles[row * terrain.columns + column] = type;
+};
+
+export const worldToTile = (terrain: TerrainMap, position: Position): TileCoord => ({
+  column: Math.floor(position.x / terrain.tileSize),
+  row: Math.floor(position.y / terrain.tileSize),
+});
+
+export const tileCenter = (terrain: TerrainMap, tile: TileCoord): Position => ({
+  x: (tile.column + 0.5) * terrain.tileSize,
+  y: (tile.row + 0.5) * terrain.tileSize,
+});
+
+export const isTilePassable = (terrain: TerrainMap, column: number, row: number): boolean =>
+  isPassableTerrain(getTile(terrain, column, row));
+
+// Whether a ground unit may stand at a world position
+export const isPositionPassable = (terrain: TerrainMap, position: Position): boolean => {
+  const tile = worldToTile(terrain, position);
+  return isTilePassable(terrain, tile.column, tile.row);
+};
+
+// Whether every tile within a radius of a position is passable
+export const isAreaPassable = (terrain: TerrainMap, position: Position, radius: number): boolean => {
+  const tileRadius = Math.ceil(radius / terrain.tileSize);
+  const center = worldToTile(terrain, position);
+  for (let row = center.row - tileRadius; row <= center.row + tileRadius; row++) {
+    for (let column = center.column - tileRadius; column <= center.column + tileRadius; column++) {
+      if (!isTilePassable(terrain, column, row)) return false;
+    }
+  }
+  return true;
+};
+
+// Paint every tile within a radius of a position
+export const fillArea = (terrain: TerrainMap, position: Position, radius: number, type: TerrainType): void => {
+  const tileRadius = Math.ceil(radius / terrain.tileSize);
+  const center = worldToTile(terrain, position);
+  for (let row = center.row - tileRadius; row <= center.row + tileRadius; row++) {
+    for (let column = center.column - tileRadius; column <= center.column + tileRadius; column++) {
+      const dx = column - center.column;
+      const dy = row - center.row;
+      if (dx * dx + dy * dy <= tileRadius * tileRadius) {
+        setTile(terrain, column, row, type);
+      }
+    }
+  }
+};
+
+// Paint a rectangle of tiles centered on a position
+export const fillRect = (
+  terrain: TerrainMap,
+  position: Position,
+  width: number,
+  height: number,
+  type: TerrainType
+): void => {
+  const topLeft = worldToTile(terrain, { x: position.x - width / 2, y: position.y - height / 2 });
+  const bottomRight = worldToTile(terrain, { x: position.x + width / 2 - 1, y: position.y + height / 2 - 1 });
+  for (let row = topLeft.row; row <= bottomRight.row; row++) {
+    for (let column = topLeft.column; column <= bottomRight.column; column++) {
+      setTile(terrain, column, row, type);
+    }
+  }
+};
+
+// Closest passable tile to a position, searching outwards ring by ring
+export const findNearestPassableTile = (terrain: TerrainMap, position: Position): TileCoord | null => {
+  const start = worldToTile(terrain, position);
+  const maxRadius = Math.max(terrain.columns, terrain.rows);
+
+  for (let radius = 0; radius <= maxRadius; radius++) {
+    let best: TileCoord | null = null;
+    let bestDistance = Infinity;
+    for (let row = start.row - radius; row <= start.row + radius; row++) {
+      for (let column = start.column - radius; column <= start.column + radius; column++) {
+        // Only look at the outer ring of this radius
+        if (Math.abs(row - start.row) !== radius && Math.abs(column - start.column) !== radius) continue;
+        if (!isTilePassable(terrain, column, row)) continue;
+
+        const center = tileCenter(terrain, { column, row });
+        const dx = center.x - position.x;
+        const dy = center.y - position.y;
+        const distance = dx * dx + dy * dy;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = { column, row };
+        }
+      }
+    }
+    if (best) return best;
+  }
+
+  return null;
+};
+
+// Scatter lakes and cliff ridges over a grass map
+export const generateTerrain = (width: number, height: number, random: SeededRandom): TerrainMap => {
+  const terrain = createTerrain(width, height);
+  const area = (width * height) / 1000000;
+  const margin = TERRAIN_CONFIG.edgeMargin;
+
+  const randomTile = (): TileCoord => ({
+    column: random.int(margin, Math.max(margin, terrain.columns - margin - 1)),
+    row: random.int(margin, Math.max(margin, terrain.rows - margin - 1)),
+  });
+
+  // Lakes: round blobs of water
+  const lakeCount = Math.round(TERRAIN_CONFIG.lakesPerMillionPixels * area);
+  for (let i = 0; i < lakeCount; i++) {
+    const center = randomTile();
+    const radius = random.int(TERRAIN_CONFIG.lakeRadius.min, TERRAIN_CONFIG.lakeRadius.max);
+    fillArea(terrain, tileCenter(terrain, center), radius * terrain.tileSize, TerrainType.WATER);
+  }
+
+  // Ridges: wandering lines of cliff, two tiles thick
+  const ridgeCount = Math.round(TERRAIN_CONFIG.ridgesPerMillionPixels * area);
+  for (let i = 0; i < ridgeCount; i++) {
+    let { column, row } = randomTile();
+    const length = random.int(TERRAIN_CONFIG.ridgeLength.min, TERRAIN_CONFIG.ridgeLength.max);
+    const horizontal = random.next() < 0.5;
+    for (let step = 0; step < length; step++) {
+      setTile(terrain, column, row, TerrainType.CLIFF);
+      setTile(terrain, column + (horizontal ? 0 : 1), row + (horizontal ? 1 : 0), TerrainType.CLIFF);
+      if (horizontal) {
+        column++;
+        row += random.int(-1, 1);
+      } else {
+        row++;
+        column += random.int(-1, 1);
+      }
+    }
+  }
+
+  return terrain;
+};
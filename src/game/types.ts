@@ -2,6 +2,9 @@ export enum UnitType {
   SOLDIER = 'SOLDIER',
   TANK = 'TANK',
   HELICOPTER = 'HELICOPTER',
+  HUMVEE = 'HUMVEE', // USA only
+  OVERLORD = 'OVERLORD', // CHINA only
+  TECHNICAL = 'TECHNICAL', // GLA only
 }
 
 export enum FactionType {
@@ -10,8 +13,64 @@ export enum FactionType {
   GLA = 'GLA',
 }
 
+export enum AIDifficulty {
+  EASY = 'EASY',
+  NORMAL = 'NORMAL',
+  HARD = 'HARD',
+}
+
 export enum ResourceType {
   MONEY = 'MONEY',
+  SUPPLIES = 'SUPPLIES',
+}
+
+// What a unit or building is protected by; weapons deal more or less damage to each
+export enum ArmorType {
+  INFANTRY = 'INFANTRY',
+  VEHICLE = 'VEHICLE',
+  AIRCRAFT = 'AIRCRAFT',
+  STRUCTURE = 'STRUCTURE',
+}
+
+// Kind of damage a weapon deals
+export enum DamageType {
+  SMALL_ARMS = 'SMALL_ARMS', // Rifles and machine guns
+  CANNON = 'CANNON', // Tank shells
+  ROCKET = 'ROCKET', // Guided missiles, good against armor and aircraft
+}
+
+// Ranks a unit earns with experience, lowest first
+export enum VeterancyRank {
+  ROOKIE = 'ROOKIE',
+  VETERAN = 'VETERAN',
+  ELITE = 'ELITE',
+  HEROIC = 'HEROIC',
+}
+
+// Kinds of order a unit carries out, one after another
+export enum OrderType {
+  MOVE = 'MOVE', // Go to a point, ignoring enemies on the way
+  ATTACK = 'ATTACK', // Chase and destroy one target
+  ATTACK_MOVE = 'ATTACK_MOVE', // Go to a point, fighting anything met on the way
+  PATROL = 'PATROL', // Attack-move to a point, then on to the next patrol point, round and round
+  HOLD_POSITION = 'HOLD_POSITION', // Stay put and shoot whatever comes into weapon range
+  GUARD = 'GUARD', // Stay near a friendly unit or a spot and fight off enemies that come close
+  HARVEST = 'HARVEST', // Carry loads from a deposit to the base, moving on to the nearest like it once it runs dry
+}
+
+// Shapes a group of units lines up in when sent somewhere together
+export enum FormationType {
+  LINE = 'LINE', // Wide ranks across the direction of travel
+  COLUMN = 'COLUMN', // Two abreast, one pair behind the other
+  WEDGE = 'WEDGE', // Arrowhead with its point forward
+  BOX = 'BOX', // As many ranks as files
+}
+
+export enum TerrainType {
+  GRASS = 'GRASS',
+  WATER = 'WATER',
+  CLIFF = 'CLIFF',
+  BUILDING = 'BUILDING',
 }
 
 export interface Position {
@@ -25,10 +84,25 @@ export interface Player {
   faction: FactionType;
   resources: {
     [ResourceType.MONEY]: number;
+    [ResourceType.SUPPLIES]: number;
   };
   units: Unit[];
+  baseId: string;
   basePosition: Position;
+  productionQueue: ProductionItem[]; // Front item is the one being built
+  rallyPoint: Position | null; // Where new units head once built
   color: string;
+  aiDifficulty?: AIDifficulty; // Set for computer-controlled players
+  stats: PlayerStats;
+  eliminatedAt: number | null; // Tick the player was knocked out on
+}
+
+export interface PlayerStats {
+  unitsBuilt: number;
+  unitsLost: number;
+  unitsKilled: number;
+  moneyCollected: number; // Delivered to the base by gatherers
+  suppliesCollected: number;
 }
 
 export interface Unit {
@@ -40,37 +114,183 @@ export interface Unit {
   attack: number;
   defense: number;
   range: number;
+  sight: number; // How far the unit sees through the fog, same scale as range
   speed: number;
+  carryCapacity: number; // Most a gatherer carries back in one trip; 0 for units that cannot harvest
+  cargo: Cargo | null; // Load on its way back to the base, lost if the unit dies
   playerId: string;
   targetId?: string;
   path?: Position[];
+  orders: UnitOrder[]; // Front order is being carried out; empty when idle
   isDead: boolean;
   isMoving: boolean;
   isAttacking: boolean;
   canAttackAir: boolean;
   canAttackGround: boolean;
+  weaponReadyTick: number; // First tick the unit can fire again
+  damageDealt: number;
+  kills: number;
+  experience: number;
+  rank: VeterancyRank;
+}
+
+// What a gatherer is carrying
+export interface Cargo {
+  type: ResourceType;
+  amount: number;
+}
+
+// One entry in a unit's order queue
+export interface UnitOrder {
+  type: OrderType;
+  position?: Position; // Destination, patrol point or spot to guard
+  targetId?: string; // Enemy to attack, friendly unit to guard or deposit to harvest
+  groupSpeed?: number; // Top speed while on the way, so a group keeps to its slowest member
+  isStarted: boolean; // Set once the unit has been sent on its way; cleared to send it again
+}
+
+// How a group sent to a point lines up there and gets there
+export interface FormationSettings {
+  shape: FormationType;
+  facing: number | null; // Direction the group faces in radians; null to face the way it travels
+  keepTogether: boolean; // Move at the speed of the slowest unit so the group arrives together
+}
+
+// A unit paid for and waiting its turn at the player's base
+export interface ProductionItem {
+  id: string;
+  unitType: UnitType;
+  cost: UnitCost; // Paid up front, refunded if the item is cancelled
+  buildTime: number; // Seconds
+  progress: number; // Seconds built so far
+}
+
+// Defensive gun on top of a base; fires at the nearest enemy unit in range
+export interface BaseTurret {
+  attack: number;
+  range: number; // Same scale as Unit.range
+  targetId?: string; // Unit it is shooting at
+  readyTick: number; // First tick the turret can fire again
 }
 
+// A player's headquarters: units are built here, and it can be attacked like a unit
+export interface Base {
+  id: string;
+  playerId: string;
+  position: Position;
+  health: number;
+  maxHealth: number;
+  defense: number;
+  size: number; // Width and height of the footprint that blocks ground units
+  sight: number; // Same scale as Unit.sight
+  turret: BaseTurret | null;
+  isDestroyed: boolean;
+}
+
+// Anything a unit can be ordered to attack
+export type AttackTarget = Unit | Base;
+
+// Fixed properties of a unit type, before it is placed on the map
+export type UnitStats = Omit<
+  Unit,
+  | 'id' | 'position' | 'cargo' | 'playerId' | 'targetId' | 'path' | 'orders' | 'isDead' | 'isMoving' | 'isAttacking'
+  | 'weaponReadyTick' | 'damageDealt' | 'kills' | 'experience' | 'rank'
+>;
+
+// A shell or missile in flight; it deals its damage when it reaches the target
+export interface Projectile {
+  id: string;
+  playerId: string; // Owner of the weapon that fired it
+  sourceId: string; // Unit or base that fired it, credited with the damage
+  targetId: string;
+  position: Position;
+  targetPosition: Position; // Where it lands; follows the target while the target lives
+  speed: number; // Pixels per second
+  damage: number;
+  damageType: DamageType;
+  splashRadius: number; // Also hurts other enemies this close to where it lands
+  hitsAir: boolean; // Splash only reaches units at the same height as the target
+}
+
+// A deposit gatherers take loads from; it runs dry and slowly grows back once left alone
 export interface Resource {
   id: string;
   type: ResourceType;
   position: Position;
-  amount: number;
-  respawnTime: number;
-  isCollected: boolean;
+  amount: number; // Left to harvest
+  maxAmount: number; // What it grows back to
+  regrowDelay: number; // Seconds it must be left alone before it starts growing back
+  regrowPerSecond: number;
+  regrowTimer: number; // Seconds left before it starts growing back, reset by every harvest
+}
+
+// Grid of terrain tiles covering the map, stored row by row
+export interface TerrainMap {
+  tileSize: number; // Width and height of a tile in pixels
+  columns: number;
+  rows: number;
+  tiles: TerrainType[];
+}
+
+// How a match is won
+export enum GameMode {
+  ANNIHILATION = 'ANNIHILATION', // Last player with an army or money to build one wins
+  BASE_DESTRUCTION = 'BASE_DESTRUCTION', // Losing your base knocks you out
+  KING_OF_THE_HILL = 'KING_OF_THE_HILL', // Hold the control zones long enough
+  TIMED_SCORE = 'TIMED_SCORE', // Highest score when time runs out
+}
+
+export enum VictoryReason {
+  LAST_STANDING = 'LAST_STANDING',
+  ZONE_CONTROL = 'ZONE_CONTROL',
+  TIME_LIMIT = 'TIME_LIMIT',
+}
+
+// Area on the map that players capture by standing in it unopposed
+export interface ControlZone {
+  id: string;
+  position: Position;
+  radius: number;
+  ownerId: string | null;
+  capturingId: string | null; // Player currently taking the zone
+  captureProgress: number; // 0..1 towards capturingId owning it
+}
+
+export interface Placement {
+  playerId: string;
+  place: number; // 1 for the winner
+  score: number;
+}
+
+// Final outcome of a match; once set the simulation stops
+export interface GameResult {
+  mode: GameMode;
+  winnerId: string | null; // Null for a draw
+  reason: VictoryReason;
+  tick: number;
+  placements: Placement[]; // Best first
 }
 
 export interface GameState {
   players: { [id: string]: Player };
   units: { [id: string]: Unit };
+  bases: { [id: string]: Base };
   resources: { [id: string]: Resource };
+  projectiles: { [id: string]: Projectile };
+  tick: number; // Number of fixed simulation steps run so far
   gameTime: number;
+  mode: GameMode;
+  scores: { [playerId: string]: number }; // Meaning depends on the mode
+  zones: ControlZone[];
+  result: GameResult | null; // Set when the match is over
   mapSize: {
     width: number;
     height: number;
   };
+  terrain: TerrainMap;
 }
 
 export interface UnitCost {
   [ResourceType.MONEY]: number;
+  [ResourceType.SUPPLIES]: number;
 } 
\ No newline at end of file
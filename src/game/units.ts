@@ -0,0 +1,22 @@
+import { Unit, UnitType } from './types';
+
+// Unit sprite dimensions, also used for collision
+export const UNIT_SIZE: Record<UnitType, { width: number; height: number }> = {
+  [UnitType.SOLDIER]: { width: 20, height: 20 },
+  [UnitType.TANK]: { width: 30, height: 30 },
+  [UnitType.HELICOPTER]: { width: 25, height: 25 },
+  [UnitType.HUMVEE]: { width: 26, height: 26 },
+  [UnitType.OVERLORD]: { width: 36, height: 36 },
+  [UnitType.TECHNICAL]: { width: 24, height: 24 },
+};
+
+// Collision radius of a unit, from its sprite size
+export const getUnitRadius = (unitType: UnitType): number =>
+  Math.max(UNIT_SIZE[unitType].width, UNIT_SIZE[unitType].height) / 2;
+
+// Helicopters fly over terrain, ignore ground units and are targeted as air units
+export const isAirUnit = (unit: Unit): boolean =>
+  unit.type === UnitType.HELICOPTER;
+
+// Largest collision radius of any unit type, for padding spatial queries
+export const MAX_UNIT_RADIUS = Math.max(...Object.values(UnitType).map(getUnitRadius));
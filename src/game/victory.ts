@@ -0,0 +1,205 @@
+import { GameEngine } from './engine';
+import { getFactionRoster } from './factions';
+import { fillArea } from './terrain';
+import { GameMode, Player, TerrainType, VictoryReason } from './types';
+
+// Win condition tuning
+export const VICTORY_CONFIG = {
+  zoneRadius: 90,
+  captureTime: 8, // Seconds to take a zone from neutral
+  holdTimeToWin: 180, // Seconds of zone ownership, summed over zones, that win the match
+  timeLimit: 600, // Seconds of game time in a timed match
+  pointsPerKill: 100,
+  pointsPerResource: 1, // Per unit of money or supplies delivered
+};
+
+// A mode's own verdict, separate from the last-player-standing rule every mode shares
+export interface VictoryDecision {
+  winnerId: string | null; // Null for a draw
+  reason: VictoryReason;
+}
+
+// Rules for one game mode; the engine asks these every tick and ends the match on a decision
+export interface VictoryCondition {
+  readonly mode: GameMode;
+  // Prepare the map, e.g. place control zones
+  setup(engine: GameEngine): void;
+  // Advance timers and recompute state.scores
+  update(engine: GameEngine, deltaTime: number): void;
+  isEliminated(engine: GameEngine, player: Player): boolean;
+  getDecision(engine: GameEngine): VictoryDecision | null;
+}
+
+// Out of the fight: no units left or on the way, and no base or not enough money to build any
+const isDefeated = (engine: GameEngine, player: Player): boolean => {
+  if (player.units.length > 0 || player.productionQueue.length > 0) return false;
+  if (!engine.hasBase(player.id)) return true;
+
+  return !getFactionRoster(player.faction).some(unitType => {
+    const cost = engine.getUnitCost(player.id, unitType);
+    return cost !== null && engine.canAfford(player.id, cost);
+  });
+};
+
+// Points for economy and combat, used to rank players
+const getCombatScore = (player: Player): number =>
+  (player.stats.moneyCollected + player.stats.suppliesCollected) * VICTORY_CONFIG.pointsPerResource +
+  player.stats.unitsKilled * VICTORY_CONFIG.pointsPerKill;
+
+const updateCombatScores = (engine: GameEngine): void => {
+  const state = engine.getState();
+  Object.values(state.players).forEach(player => {
+    state.scores[player.id] = getCombatScore(player);
+  });
+};
+
+// Destroy every enemy army and economy
+class AnnihilationCondition implements VictoryCondition {
+  public readonly mode = GameMode.ANNIHILATION;
+
+  public setup(): void {}
+
+  public update(engine: GameEngine): void {
+    updateCombatScores(engine);
+  }
+
+  public isEliminated(engine: GameEngine, player: Player): boolean {
+    return isDefeated(engine, player);
+  }
+
+  public getDecision(): VictoryDecision | null {
+    return null;
+  }
+}
+
+// Lose your base and you are out, whatever army you have left
+class BaseDestructionCondition implements VictoryCondition {
+  public readonly mode = GameMode.BASE_DESTRUCTION;
+
+  public setup(): void {}
+
+  public update(engine: GameEngine): void {
+    updateCombatScores(engine);
+  }
+
+  public isEliminated(engine: GameEngine, player: Player): boolean {
+    return !engine.hasBase(player.id);
+  }
+
+  public getDecision(): VictoryDecision | null {
+    return null;
+  }
+}
+
+// Capture the zones in the middle of the map and hold them
+class KingOfTheHillCondition implements VictoryCondition {
+  public readonly mode = GameMode.KING_OF_THE_HILL;
+
+  // A zone on every hill the map has, or one in the center, cleared so ground units can reach them
+  public setup(engine: GameEngine): void {
+    const state = engine.getState();
+    const hills = engine.getMapHills();
+    const sites = hills.length > 0
+      ? hills
+      : [{ position: { x: state.mapSize.width / 2, y: state.mapSize.height / 2 }, radius: VICTORY_CONFIG.zoneRadius }];
+    sites.forEach(({ position, radius }, index) => {
+      fillArea(state.terrain, position, radius, TerrainType.GRASS);
+      state.zones.push({
+        id: `zone-${index + 1}`,
+        position: { ...position },
+        radius,
+        ownerId: null,
+        capturingId: null,
+        captureProgress: 0,
+      });
+    });
+  }
+
+  public update(engine: GameEngine, deltaTime: number): void {
+    const state = engine.getState();
+    const step = deltaTime / VICTORY_CONFIG.captureTime;
+
+    state.zones.forEach(zone => {
+      const present = new Set(engine.getUnitsInRadius(zone.position, zone.radius).map(unit => unit.playerId));
+
+      if (present.size === 1) {
+        const [playerId] = present;
+        if (zone.ownerId === playerId) {
+          // The owner pushes back any capture in progress
+          zone.captureProgress = Math.max(0, zone.captureProgress - step);
+        } else if (zone.capturingId === playerId) {
+          zone.captureProgress += step;
+          if (zone.captureProgress >= 1) {
+            zone.ownerId = playerId;
+            zone.capturingId = null;
+            zone.captureProgress = 0;
+          }
+        } else {
+          zone.capturingId = playerId;
+          zone.captureProgress = step;
+        }
+      } else if (present.size === 0) {
+        // Abandoned captures slowly reset
+        zone.captureProgress = Math.max(0, zone.captureProgress - step);
+      }
+      if (zone.captureProgress === 0) {
+        zone.capturingId = null;
+      }
+
+      if (zone.ownerId !== null) {
+        state.scores[zone.ownerId] = (state.scores[zone.ownerId] ?? 0) + deltaTime;
+      }
+    });
+  }
+
+  public isEliminated(engine: GameEngine, player: Player): boolean {
+    return isDefeated(engine, player);
+  }
+
+  public getDecision(engine: GameEngine): VictoryDecision | null {
+    const scores = engine.getState().scores;
+    const winnerId = Object.keys(scores).find(playerId => scores[playerId] >= VICTORY_CONFIG.holdTimeToWin);
+    return winnerId ? { winnerId, reason: VictoryReason.ZONE_CONTROL } : null;
+  }
+}
+
+// Score as many points as possible before the clock runs out
+class TimedScoreCondition implements VictoryCondition {
+  public readonly mode = GameMode.TIMED_SCORE;
+
+  public setup(): void {}
+
+  public update(engine: GameEngine): void {
+    updateCombatScores(engine);
+  }
+
+  public isEliminated(engine: GameEngine, player: Player): boolean {
+    return isDefeated(engine, player);
+  }
+
+  public getDecision(engine: GameEngine): VictoryDecision | null {
+    const state = engine.getState();
+    if (state.gameTime < VICTORY_CONFIG.timeLimit) return null;
+
+    // Highest score among players still in the match; a tie is a draw
+    const contenders = Object.values(state.players)
+      .filter(player => player.eliminatedAt === null)
+      .sort((a, b) => state.scores[b.id] - state.scores[a.id]);
+    const best = contenders[0];
+    const tied = contenders.length > 1 && state.scores[contenders[1].id] === state.scores[best.id];
+    return { winnerId: best && !tied ? best.id : null, reason: VictoryReason.TIME_LIMIT };
+  }
+}
+
+export const createVictoryCondition = (mode: GameMode): VictoryCondition => {
+  switch (mode) {
+    case GameMode.ANNIHILATION:
+      return new AnnihilationCondition();
+    case GameMode.BASE_DESTRUCTION:
+      return new BaseDestructionCondition();
+    case GameMode.KING_OF_THE_HILL:
+      return new KingOfTheHillCondition();
+    case GameMode.TIMED_SCORE:
+      return new TimedScoreCondition();
+  }
+};
@@ -0,0 +1,153 @@
+import { isBase } from './bases';
+import { isInsideTerrain, worldToTile } from './terrain';
+import { AttackTarget, Base, GameState, Position, TerrainMap } from './types';
+
+// Pixels per point of sight, the same scale weapon range uses
+export const SIGHT_SCALE = 20;
+
+// An enemy structure as it looked the last time a player saw it
+export interface BaseGhost {
+  baseId: string;
+  playerId: string;
+  position: Position;
+  size: number;
+  isDestroyed: boolean;
+}
+
+// What a player has explored and remembers, in plain JSON for save files
+export interface VisionSaveData {
+  playerId: string;
+  explored: number[]; // Run lengths over the tiles, alternating unexplored and explored, unexplored first
+  ghosts: BaseGhost[];
+}
+
+// Fog of war for one player, on the terrain's tile grid
+// Visible tiles are in sight of the player's units or base right now; explored tiles have been at some point
+export class PlayerVision {
+  private playerId: string;
+  private terrain: TerrainMap; // Only its grid is used
+  private visible: Uint8Array;
+  private explored: Uint8Array;
+  private ghosts: Map<string, BaseGhost> = new Map(); // base id -> last sighting
+
+  constructor(playerId: string, terrain: TerrainMap) {
+    this.playerId = playerId;
+    this.terrain = terrain;
+    this.visible = new Uint8Array(terrain.columns * terrain.rows);
+    this.explored = new Uint8Array(terrain.columns * terrain.rows);
+  }
+
+  public getPlayerId(): string {
+    return this.playerId;
+  }
+
+  // Recompute what is in sight from the player's units and base, and remember the enemy bases seen
+  public update(state: GameState): void {
+    this.visible.fill(0);
+    Object.values(state.units).forEach(unit => {
+      if (unit.isDead || unit.playerId !== this.playerId) return;
+      this.reveal(unit.position, unit.sight * SIGHT_SCALE);
+    });
+    Object.values(state.bases).forEach(base => {
+      if (base.isDestroyed || base.playerId !== this.playerId) return;
+      this.reveal(base.position, base.sight * SIGHT_SCALE + base.size / 2);
+    });
+
+    Object.values(state.bases).forEach(base => {
+      if (base.playerId === this.playerId || !this.canSee(base)) return;
+      this.ghosts.set(base.id, {
+        baseId: base.id,
+        playerId: base.playerId,
+        position: { ...base.position },
+        size: base.size,
+        isDestroyed: base.isDestroyed,
+      });
+    });
+  }
+
+  public isTileVisible(column: number, row: number): boolean {
+    return isInsideTerrain(this.terrain, column, row) && this.visible[row * this.terrain.columns + column] === 1;
+  }
+
+  public isTileExplored(column: number, row: number): boolean {
+    return isInsideTerrain(this.terrain, column, row) && this.explored[row * this.terrain.columns + column] === 1;
+  }
+
+  public isVisible(position: Position): boolean {
+    const tile = worldToTile(this.terrain, position);
+    return this.isTileVisible(tile.column, tile.row);
+  }
+
+  public isExplored(position: Position): boolean {
+    const tile = worldToTile(this.terrain, position);
+    return this.isTileExplored(tile.column, tile.row);
+  }
+
+  // Whether the player can see a unit or base right now; their own are always in view
+  // A base counts as seen when any part of its footprint is
+  public canSee(target: AttackTarget): boolean {
+    if (target.playerId === this.playerId) return true;
+    if (!isBase(target)) return this.isVisible(target.position);
+
+    const half = target.size / 2;
+    const min = worldToTile(this.terrain, { x: target.position.x - half, y: target.position.y - half });
+    const max = worldToTile(this.terrain, { x: target.position.x + half, y: target.position.y + half });
+    for (let row = min.row; row <= max.row; row++) {
+      for (let column = min.column; column <= max.column; column++) {
+        if (this.isTileVisible(column, row)) return true;
+      }
+    }
+    return false;
+  }
+
+  // Whether the player has ever seen a base, so it can be targeted from memory
+  public hasSeen(base: Base): boolean {
+    return base.playerId === this.playerId || this.ghosts.has(base.id);
+  }
+
+  // Last sightings of enemy bases, including ones in view now
+  public getGhosts(): BaseGhost[] {
+    return [...this.ghosts.values()];
+  }
+
+  public getSaveData(): VisionSaveData {
+    const explored: number[] = [];
+    let value = 0;
+    let run = 0;
+    this.explored.forEach(tile => {
+      if (tile !== value) {
+        explored.push(run);
+        value = tile;
+        run = 0;
+      }
+      run++;
+    });
+    explored.push(run);
+    return { playerId: this.playerId, explored, ghosts: this.getGhosts().map(ghost => ({ ...ghost })) };
+  }
+
+  public restoreSaveData(data: VisionSaveData): void {
+    let index = 0;
+    data.explored.forEach((run, runIndex) => {
+      this.explored.fill(runIndex % 2, index, index + run);
+      index += run;
+    });
+    this.ghosts = new Map(data.ghosts.map(ghost => [ghost.baseId, { ...ghost }]));
+  }
+
+  // Mark every tile whose center is within a radius of a point as visible and explored
+  private reveal(position: Position, radius: number): void {
+    const center = worldToTile(this.terrain, position);
+    const tileRadius = Math.ceil(radius / this.terrain.tileSize);
+    for (let row = center.row - tileRadius; row <= center.row + tileRadius; row++) {
+      for (let column = center.column - tileRadius; column <= center.column + tileRadius; column++) {
+        if (!isInsideTerrain(this.terrain, column, row)) continue;
+        const dx = (column + 0.5) * this.terrain.tileSize - position.x;
+        const dy = (row + 0.5) * this.terrain.tileSize - position.y;
+        if (dx * dx + dy * dy > radius * radius) continue;
+        this.visible[row * this.terrain.columns + column] = 1;
+        this.explored[row * this.terrain.columns + column] = 1;
+      }
+    }
+  }
+}
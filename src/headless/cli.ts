@@ -0,0 +1,127 @@
+import { readFileSync } from 'fs';
+import { DEFAULT_MAX_DURATION, HeadlessMatchConfig, runBatch, runMatch } from './runner';
+import { BalanceData, parseBalance } from '../game/balance';
+import { parseMap } from '../game/mapfile';
+import { PlayerConfig } from '../game/match';
+import { randomSeed } from '../game/random';
+import { AIDifficulty, FactionType, GameMode } from '../game/types';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Runs AI-only matches without a browser and prints a JSON summary.
+
+Options:
+  --config <file>         Match config JSON (mapSize, seed, players, mode, balance, maxDuration)
+  --players <list>        Comma-separated FACTION:DIFFICULTY seats (default USA:NORMAL,CHINA:NORMAL,GLA:NORMAL)
+  --map <width>x<height>  Map size in pixels (default 2700x1800)
+  --map-file <file>       Map JSON to play on, made in the map editor (default generated from the seed)
+  --seed <number>         Seed of the first match (default random)
+  --mode <mode>           ${Object.values(GameMode).join(', ')} (default ${GameMode.ANNIHILATION})
+  --balance <file>        Balance data JSON to play with (default src/data/balance.json)
+  --matches <number>      Number of matches to run with consecutive seeds (default 1)
+  --max-duration <secs>   Game time before a match is called a draw (default ${DEFAULT_MAX_DURATION})
+  --help                  Show this message
+`;
+
+const parseEnum = <T extends string>(values: Record<string, T>, value: string, label: string): T => {
+  const match = Object.values(values).find(option => option === value.toUpperCase());
+  if (!match) {
+    throw new Error(`Unknown ${label} "${value}", expected one of ${Object.values(values).join(', ')}`);
+  }
+  return match;
+};
+
+const parseNumber = (value: string, label: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${label} must be a number, got "${value}"`);
+  }
+  return parsed;
+};
+
+// Turn "USA:HARD,CHINA:EASY" into player seats
+const parsePlayers = (value: string): PlayerConfig[] =>
+  value.split(',').map((seat, index) => {
+    const [faction, difficulty = AIDifficulty.NORMAL] = seat.split(':');
+    const config: PlayerConfig = {
+      name: '',
+      faction: parseEnum(FactionType, faction, 'faction'),
+      aiDifficulty: parseEnum(AIDifficulty, difficulty, 'difficulty'),
+    };
+    config.name = `AI ${index + 1} (${config.faction} ${config.aiDifficulty})`;
+    return config;
+  });
+
+const parseArgs = (args: string[]): { config: HeadlessMatchConfig; matches: number } => {
+  let config: HeadlessMatchConfig = {
+    mapSize: { width: 2700, height: 1800 },
+    seed: randomSeed(),
+    players: parsePlayers('USA:NORMAL,CHINA:NORMAL,GLA:NORMAL'),
+  };
+  let matches = 1;
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (flag === '--help') {
+      process.stdout.write(USAGE);
+      process.exit(0);
+    }
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    i++;
+
+    switch (flag) {
+      case '--config':
+        config = { ...config, ...JSON.parse(readFileSync(value, 'utf8')) };
+        break;
+      case '--players':
+        config.players = parsePlayers(value);
+        break;
+      case '--map': {
+        const [width, height] = value.split('x');
+        config.mapSize = {
+          width: parseNumber(width, 'Map width'),
+          height: parseNumber(height, 'Map height'),
+        };
+        break;
+      }
+      case '--map-file':
+        config.map = parseMap(readFileSync(value, 'utf8'));
+        break;
+      case '--seed':
+        config.seed = parseNumber(value, 'Seed');
+        break;
+      case '--mode':
+        config.mode = parseEnum(GameMode, value, 'mode');
+        break;
+      case '--balance':
+        config.balance = JSON.parse(readFileSync(value, 'utf8')) as BalanceData;
+        break;
+      case '--matches':
+        matches = parseNumber(value, 'Match count');
+        break;
+      case '--max-duration':
+        config.maxDuration = parseNumber(value, 'Max duration');
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}\n\n${USAGE}`);
+    }
+  }
+
+  // Balance from --balance or --config is checked before any match starts
+  if (config.balance) {
+    config.balance = parseBalance(config.balance);
+  }
+  return { config, matches };
+};
+
+try {
+  const { config, matches } = parseArgs(process.argv.slice(2));
+  const summary = matches === 1 ? runMatch(config) : runBatch(config, matches);
+  process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+}
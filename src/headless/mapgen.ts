@@ -0,0 +1,99 @@
+import { readFileSync } from 'fs';
+import { BalanceData, DEFAULT_BALANCE, parseBalance } from '../game/balance';
+import { FairnessReport, generateMap } from '../game/mapgen';
+import { SeededRandom, randomSeed } from '../game/random';
+
+const USAGE = `Usage: npm run mapgen -- [options]
+
+Generates maps the way a match does and prints their fairness reports as JSON.
+A match with the same seed, map size, player count and balance plays on the same map.
+
+Options:
+  --map <width>x<height>  Map size in pixels (default 2700x1800)
+  --players <number>      Number of start positions (default 2)
+  --seed <number>         Seed of the first map (default random)
+  --maps <number>         Number of maps to generate with consecutive seeds (default 1)
+  --balance <file>        Balance data JSON for deposit sizes (default src/data/balance.json)
+  --help                  Show this message
+`;
+
+interface MapgenOptions {
+  width: number;
+  height: number;
+  players: number;
+  seed: number;
+  maps: number;
+  balance: BalanceData;
+}
+
+const parseNumber = (value: string, label: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${label} must be a number, got "${value}"`);
+  }
+  return parsed;
+};
+
+const parseArgs = (args: string[]): MapgenOptions => {
+  const options: MapgenOptions = {
+    width: 2700,
+    height: 1800,
+    players: 2,
+    seed: randomSeed(),
+    maps: 1,
+    balance: DEFAULT_BALANCE,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (flag === '--help') {
+      process.stdout.write(USAGE);
+      process.exit(0);
+    }
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    i++;
+
+    switch (flag) {
+      case '--map': {
+        const [width, height] = value.split('x');
+        options.width = parseNumber(width, 'Map width');
+        options.height = parseNumber(height, 'Map height');
+        break;
+      }
+      case '--players':
+        options.players = parseNumber(value, 'Player count');
+        break;
+      case '--seed':
+        options.seed = parseNumber(value, 'Seed');
+        break;
+      case '--maps':
+        options.maps = parseNumber(value, 'Map count');
+        break;
+      case '--balance':
+        options.balance = parseBalance(JSON.parse(readFileSync(value, 'utf8')));
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}\n\n${USAGE}`);
+    }
+  }
+  return options;
+};
+
+try {
+  const options = parseArgs(process.argv.slice(2));
+  const reports: FairnessReport[] = [];
+  for (let i = 0; i < options.maps; i++) {
+    const random = new SeededRandom(options.seed + i);
+    reports.push(generateMap(options.width, options.height, options.players, random, options.balance.resources).report);
+  }
+  const output = reports.length === 1
+    ? reports[0]
+    : { maps: reports.length, fair: reports.filter(report => report.isFair).length, reports };
+  process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+}
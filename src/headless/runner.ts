@@ -0,0 +1,130 @@
+import { MatchConfig, createMatch } from '../game/match';
+import { AIDifficulty, FactionType, GameMode, ResourceType, VictoryReason } from '../game/types';
+
+// Matches that have not been decided by then end in a draw (seconds of game time)
+export const DEFAULT_MAX_DURATION = 20 * 60;
+
+export interface HeadlessMatchConfig extends MatchConfig {
+  maxDuration?: number; // Seconds of game time before the match is called a draw
+}
+
+export interface PlayerSummary {
+  name: string;
+  faction: FactionType;
+  aiDifficulty?: AIDifficulty;
+  unitsBuilt: number;
+  unitsLost: number;
+  unitsKilled: number;
+  unitsAlive: number;
+  moneyCollected: number;
+  moneyLeft: number;
+  suppliesCollected: number;
+  suppliesLeft: number;
+  place: number | null; // Final placing, null when the match timed out
+  baseFirstHitAt: number | null; // Seconds of game time when an enemy first damaged the base, null if none did
+  score: number;
+}
+
+export interface MatchSummary {
+  seed: number;
+  mode: GameMode;
+  winner: string | null; // Name of the winning player, null for a draw
+  endReason: VictoryReason | 'timeout';
+  duration: number; // Seconds of game time
+  ticks: number;
+  fairMap: boolean; // Whether the map's fairness report found every start even; see npm run mapgen for details
+  players: PlayerSummary[];
+}
+
+export interface BatchSummary {
+  matches: number;
+  wins: Record<string, number>; // Wins per player name
+  draws: number;
+  averageDuration: number;
+  results: MatchSummary[];
+}
+
+// Play one match to completion without rendering and summarize it
+export const runMatch = (config: HeadlessMatchConfig): MatchSummary => {
+  const { engine, playerIds } = createMatch(config);
+  const state = engine.getState();
+  const maxDuration = config.maxDuration ?? DEFAULT_MAX_DURATION;
+  const ticksPerSecond = Math.round(1 / engine.getTickDuration());
+  const baseFirstHitAt: Record<string, number | null> = {};
+
+  // The engine decides when the match is over; check once per second of game time
+  while (!state.result && state.gameTime < maxDuration) {
+    engine.step(ticksPerSecond);
+    playerIds.forEach(playerId => {
+      const base = state.bases[state.players[playerId].baseId];
+      if (baseFirstHitAt[playerId] === undefined && base && base.health < base.maxHealth) {
+        baseFirstHitAt[playerId] = state.gameTime;
+      }
+    });
+  }
+
+  const { result } = state;
+  const winner = result?.winnerId ? state.players[result.winnerId].name : null;
+
+  return {
+    seed: config.seed,
+    mode: state.mode,
+    winner,
+    endReason: result?.reason ?? 'timeout',
+    duration: state.gameTime,
+    ticks: state.tick,
+    fairMap: engine.getMapReport()?.isFair ?? false,
+    players: playerIds.map(playerId => {
+      const player = state.players[playerId];
+      const placement = result?.placements.find(candidate => candidate.playerId === playerId);
+      return {
+        name: player.name,
+        faction: player.faction,
+        aiDifficulty: player.aiDifficulty,
+        unitsBuilt: player.stats.unitsBuilt,
+        unitsLost: player.stats.unitsLost,
+        unitsKilled: player.stats.unitsKilled,
+        unitsAlive: player.units.length,
+        moneyCollected: player.stats.moneyCollected,
+        moneyLeft: player.resources[ResourceType.MONEY],
+        suppliesCollected: player.stats.suppliesCollected,
+        suppliesLeft: player.resources[ResourceType.SUPPLIES],
+        place: placement?.place ?? null,
+        baseFirstHitAt: baseFirstHitAt[playerId] ?? null,
+        score: state.scores[playerId] ?? 0,
+      };
+    }),
+  };
+};
+
+// Play the same setup several times with consecutive seeds
+export const runBatch = (config: HeadlessMatchConfig, count: number): BatchSummary => {
+  const results: MatchSummary[] = [];
+  for (let i = 0; i < count; i++) {
+    results.push(runMatch({ ...config, seed: config.seed + i }));
+  }
+
+  const wins: Record<string, number> = {};
+  config.players.forEach(player => {
+    wins[player.name] = 0;
+  });
+
+  let draws = 0;
+  results.forEach(result => {
+    if (result.winner === null) {
+      draws++;
+    } else {
+      wins[result.winner]++;
+    }
+  });
+
+  const totalDuration = results.reduce((sum, result) => sum + result.duration, 0);
+
+  return {
+    matches: results.length,
+    wins,
+    draws,
+    averageDuration: results.length > 0 ? totalDuration / results.length : 0,
+    results,
+  };
+};
@@ -0,0 +1,127 @@
+import { readFileSync } from 'fs';
+import { parseBalance } from '../game/balance';
+import { parseMap } from '../game/mapfile';
+import { PlayerConfig } from '../game/match';
+import { DEFAULT_SERVER_PORT } from '../game/protocol';
+import { AIDifficulty, FactionType, GameMode } from '../game/types';
+import { DEFAULT_ROOM_CONFIG, RoomConfig } from './room';
+import { GameServer } from './server';
+
+const USAGE = `Usage: npm run server -- [options]
+
+Hosts matches over WebSocket. Browsers join with ?server=ws://<host>:<port>&room=<name>.
+
+Options:
+  --port <number>         Port to listen on (default ${DEFAULT_SERVER_PORT})
+  --map <width>x<height>  Map size of new rooms in pixels (default ${DEFAULT_ROOM_CONFIG.mapSize.width}x${DEFAULT_ROOM_CONFIG.mapSize.height})
+  --map-file <file>       Map JSON every room plays on, made in the map editor (default generated per room)
+  --seed <number>         Seed for every new room (default random per room)
+  --mode <mode>           ${Object.values(GameMode).join(', ')} (default ${DEFAULT_ROOM_CONFIG.mode})
+  --balance <file>        Balance data JSON for every room (default src/data/balance.json)
+  --max-players <number>  Human players per room (default ${DEFAULT_ROOM_CONFIG.maxPlayers})
+  --ai <list>             Comma-separated FACTION:DIFFICULTY computer players added to each room
+  --help                  Show this message
+`;
+
+const parseEnum = <T extends string>(values: Record<string, T>, value: string, label: string): T => {
+  const match = Object.values(values).find(option => option === value.toUpperCase());
+  if (!match) {
+    throw new Error(`Unknown ${label} "${value}", expected one of ${Object.values(values).join(', ')}`);
+  }
+  return match;
+};
+
+const parseNumber = (value: string, label: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${label} must be a number, got "${value}"`);
+  }
+  return parsed;
+};
+
+// Turn "USA:HARD,CHINA:EASY" into computer players
+const parseAIPlayers = (value: string): PlayerConfig[] =>
+  value.split(',').map((seat, index) => {
+    const [faction, difficulty = AIDifficulty.NORMAL] = seat.split(':');
+    return {
+      name: `AI ${index + 1}`,
+      faction: parseEnum(FactionType, faction, 'faction'),
+      aiDifficulty: parseEnum(AIDifficulty, difficulty, 'difficulty'),
+    };
+  });
+
+const parseArgs = (args: string[]): { port: number; roomConfig: RoomConfig } => {
+  let port = DEFAULT_SERVER_PORT;
+  const roomConfig: RoomConfig = { ...DEFAULT_ROOM_CONFIG };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (flag === '--help') {
+      process.stdout.write(USAGE);
+      process.exit(0);
+    }
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    i++;
+
+    switch (flag) {
+      case '--port':
+        port = parseNumber(value, 'Port');
+        break;
+      case '--map': {
+        const [width, height] = value.split('x');
+        roomConfig.mapSize = {
+          width: parseNumber(width, 'Map width'),
+          height: parseNumber(height, 'Map height'),
+        };
+        break;
+      }
+      case '--map-file':
+        roomConfig.map = parseMap(readFileSync(value, 'utf8'));
+        break;
+      case '--seed':
+        roomConfig.seed = parseNumber(value, 'Seed');
+        break;
+      case '--mode':
+        roomConfig.mode = parseEnum(GameMode, value, 'mode');
+        break;
+      case '--balance':
+        roomConfig.balance = parseBalance(JSON.parse(readFileSync(value, 'utf8')));
+        break;
+      case '--max-players':
+        roomConfig.maxPlayers = parseNumber(value, 'Max players');
+        break;
+      case '--ai':
+        roomConfig.aiPlayers = parseAIPlayers(value);
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}\n\n${USAGE}`);
+    }
+  }
+
+  return { port, roomConfig };
+};
+
+try {
+  const { port, roomConfig } = parseArgs(process.argv.slice(2));
+  const server = new GameServer({
+    port,
+    roomConfig,
+    log: message => process.stdout.write(`${message}\n`),
+  });
+  server.listening().then(
+    () => process.stdout.write(`Mini Generals server listening on ws://localhost:${port}\n`),
+    error => {
+      process.stderr.write(`Could not start server: ${error.message}\n`);
+      process.exit(1);
+    }
+  );
+  process.on('SIGINT', () => {
+    server.close().then(() => process.exit(0));
+  });
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+}
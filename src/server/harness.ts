@@ -0,0 +1,295 @@
+import { WebSocket } from 'ws';
+import { CommandType } from '../game/commands';
+import { GameEngine } from '../game/engine';
+import { getFactionRoster } from '../game/factions';
+import { NetworkClient, NetworkSocket } from '../game/network';
+import { createSnapshot } from '../game/protocol';
+import { SeededRandom } from '../game/random';
+import { FactionType, FormationType, GameState, ResourceType } from '../game/types';
+import { GameServer } from './server';
+
+const USAGE = `Usage: npm run harness -- [options]
+
+Starts a server and several bot clients on this machine, lets them play, then
+checks that every client ended up with exactly the server's state as its player
+may see it.
+
+Options:
+  --clients <number>   Bot clients to connect (default 3)
+  --duration <secs>    Real seconds to play for (default 20)
+  --port <number>      Port for the local server (default 8090)
+  --url <ws-url>       Connect the bots to a running server instead of starting one (no sync check)
+  --room <name>        Room to join (default harness)
+  --seed <number>      Seed for the bots' decisions (default 1)
+  --help               Show this message
+`;
+
+// Seconds between bot decisions
+const BOT_THINK_INTERVAL = 1;
+
+// Time allowed for the final delta to reach every client
+const SETTLE_TIME_MS = 500;
+
+interface HarnessOptions {
+  clients: number;
+  duration: number;
+  port: number;
+  url: string | null;
+  roomId: string;
+  seed: number;
+}
+
+// A bot client and how much it has received
+interface Bot {
+  name: string;
+  client: NetworkClient;
+  bytesReceived: number;
+  messagesReceived: number;
+}
+
+const parseNumber = (value: string, label: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${label} must be a number, got "${value}"`);
+  }
+  return parsed;
+};
+
+const parseArgs = (args: string[]): HarnessOptions => {
+  const options: HarnessOptions = {
+    clients: 3,
+    duration: 20,
+    port: 8090,
+    url: null,
+    roomId: 'harness',
+    seed: 1,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (flag === '--help') {
+      process.stdout.write(USAGE);
+      process.exit(0);
+    }
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    i++;
+
+    switch (flag) {
+      case '--clients':
+        options.clients = parseNumber(value, 'Client count');
+        break;
+      case '--duration':
+        options.duration = parseNumber(value, 'Duration');
+        break;
+      case '--port':
+        options.port = parseNumber(value, 'Port');
+        break;
+      case '--url':
+        options.url = value;
+        break;
+      case '--room':
+        options.roomId = value;
+        break;
+      case '--seed':
+        options.seed = parseNumber(value, 'Seed');
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}\n\n${USAGE}`);
+    }
+  }
+
+  return options;
+};
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Connect a bot through the ws package, counting the traffic it receives
+const connectBot = (url: string, roomId: string, index: number): Bot => {
+  const factions = Object.values(FactionType);
+  const bot: Bot = { name: `Bot ${index + 1}`, client: null!, bytesReceived: 0, messagesReceived: 0 };
+
+  const createSocket = (socketUrl: string): NetworkSocket => {
+    const socket = new WebSocket(socketUrl);
+    const wrapper: NetworkSocket = {
+      onopen: null,
+      onmessage: null,
+      onclose: null,
+      send: data => socket.send(data),
+      close: () => socket.close(),
+    };
+    socket.on('open', () => wrapper.onopen?.());
+    socket.on('message', data => {
+      const text = data.toString();
+      bot.bytesReceived += text.length;
+      bot.messagesReceived++;
+      wrapper.onmessage?.(text);
+    });
+    socket.on('close', () => wrapper.onclose?.());
+    return wrapper;
+  };
+
+  bot.client = new NetworkClient(
+    { url, roomId, name: bot.name, faction: factions[index % factions.length] },
+    null,
+    createSocket
+  );
+  return bot;
+};
+
+// Buy something affordable, send some units somewhere and attack with the rest
+const actBot = (bot: Bot, random: SeededRandom): void => {
+  const { client } = bot;
+  client.update();
+  const state = client.getState();
+  const playerId = client.getPlayerId();
+  if (!state || !playerId) return;
+  const player = state.players[playerId];
+  if (!player) return;
+
+  const roster = getFactionRoster(player.faction);
+  const unitType = roster[random.int(0, roster.length - 1)];
+  const cost = client.getUnitCost(unitType);
+  if (
+    cost !== null && cost[ResourceType.MONEY] <= player.resources[ResourceType.MONEY] &&
+    cost[ResourceType.SUPPLIES] <= player.resources[ResourceType.SUPPLIES]
+  ) {
+    client.submitCommand({ type: CommandType.CREATE_UNIT, tick: client.getNextTick(), playerId, unitType });
+  }
+
+  const units = player.units.filter(unit => !unit.isDead);
+  if (units.length === 0) return;
+  const movers = units.filter(() => random.next() < 0.5);
+  if (movers.length > 0) {
+    const orderTypes = [CommandType.MOVE, CommandType.ATTACK_MOVE, CommandType.PATROL] as const;
+    const formationTypes = Object.values(FormationType);
+    client.submitCommand({
+      type: orderTypes[random.int(0, orderTypes.length - 1)],
+      tick: client.getNextTick(),
+      playerId,
+      unitIds: movers.map(unit => unit.id),
+      queued: random.next() < 0.3,
+      target: {
+        x: random.range(0, state.mapSize.width),
+        y: random.range(0, state.mapSize.height),
+      },
+      formation: {
+        shape: formationTypes[random.int(0, formationTypes.length - 1)],
+        facing: random.next() < 0.5 ? null : random.range(-Math.PI, Math.PI),
+        keepTogether: random.next() < 0.5,
+      },
+    });
+  }
+
+  // Send some gatherers off to a deposit so harvest trips get exercised too
+  const resources = Object.values(state.resources);
+  const gatherers = units.filter(unit => !movers.includes(unit) && unit.carryCapacity > 0 && random.next() < 0.5);
+  if (gatherers.length > 0 && resources.length > 0) {
+    client.submitCommand({
+      type: CommandType.HARVEST,
+      tick: client.getNextTick(),
+      playerId,
+      unitIds: gatherers.map(unit => unit.id),
+      queued: false,
+      resourceId: resources[random.int(0, resources.length - 1)].id,
+    });
+  }
+
+  const enemies = Object.values(state.units).filter(unit => !unit.isDead && unit.playerId !== playerId);
+  const attackers = units.filter(unit => !movers.includes(unit) && !gatherers.includes(unit));
+  if (enemies.length > 0 && attackers.length > 0) {
+    client.submitCommand({
+      type: CommandType.ATTACK,
+      tick: client.getNextTick(),
+      playerId,
+      unitIds: attackers.map(unit => unit.id),
+      queued: false,
+      targetId: enemies[random.int(0, enemies.length - 1)].id,
+    });
+  }
+};
+
+// Entity lists as JSON, independent of their order
+const toSortedJson = (items: { id: string }[]): string =>
+  JSON.stringify([...items].sort((a, b) => a.id.localeCompare(b.id)));
+
+// Compare a client's copy of the match with what the server lets its player see
+const describeMismatch = (engine: GameEngine, playerId: string, clientState: GameState): string | null => {
+  const serverState = engine.getState();
+  if (clientState.tick !== serverState.tick) {
+    return `at tick ${clientState.tick}, server is at ${serverState.tick}`;
+  }
+  const serverSnapshot = createSnapshot(serverState, engine.getVision(playerId));
+  const clientSnapshot = createSnapshot(clientState);
+  if (toSortedJson(serverSnapshot.players) !== toSortedJson(clientSnapshot.players)) return 'players differ';
+  if (toSortedJson(serverSnapshot.units) !== toSortedJson(clientSnapshot.units)) return 'units differ';
+  if (toSortedJson(serverSnapshot.bases) !== toSortedJson(clientSnapshot.bases)) return 'bases differ';
+  if (toSortedJson(serverSnapshot.resources) !== toSortedJson(clientSnapshot.resources)) return 'resources differ';
+  if (toSortedJson(serverSnapshot.projectiles) !== toSortedJson(clientSnapshot.projectiles)) return 'projectiles differ';
+  return null;
+};
+
+const run = async (options: HarnessOptions): Promise<boolean> => {
+  const server = options.url ? null : new GameServer({ port: options.port });
+  if (server) await server.listening();
+  const url = options.url ?? `ws://localhost:${options.port}`;
+
+  const bots = Array.from({ length: options.clients }, (_, index) => connectBot(url, options.roomId, index));
+  const random = new SeededRandom(options.seed);
+
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < options.duration * 1000) {
+    await wait(BOT_THINK_INTERVAL * 1000);
+    bots.forEach(bot => actBot(bot, random));
+  }
+
+  // Freeze the match and send one last delta so every client should match the server exactly
+  const room = server?.getRoom(options.roomId);
+  if (server && room) {
+    server.setPaused(true);
+    room.broadcastDelta();
+    await wait(SETTLE_TIME_MS);
+  }
+
+  let inSync = true;
+  const elapsed = (Date.now() - startedAt) / 1000;
+  bots.forEach(bot => {
+    const state = bot.client.getLatestState();
+    const playerId = bot.client.getPlayerId();
+    const player = state && playerId ? state.players[playerId] : null;
+    const mismatch = room && state && playerId ? describeMismatch(room.getEngine(), playerId, state) : null;
+    if (!state || mismatch) inSync = false;
+
+    const status = !state
+      ? `never joined (${bot.client.getError() ?? 'no reply'})`
+      : room
+        ? (mismatch ? `OUT OF SYNC: ${mismatch}` : 'in sync')
+        : 'connected';
+    process.stdout.write(
+      `${bot.name} ${player ? `(${player.faction}, ${player.units.length} units)` : ''}: ${status}, ` +
+      `${bot.messagesReceived} messages, ${(bot.bytesReceived / 1024 / elapsed).toFixed(1)} KB/s\n`
+    );
+    bot.client.close();
+  });
+
+  if (room) {
+    process.stdout.write(`Server at tick ${room.getEngine().getState().tick}\n`);
+  }
+  await server?.close();
+  return inSync;
+};
+
+try {
+  run(parseArgs(process.argv.slice(2))).then(
+    inSync => process.exit(inSync ? 0 : 1),
+    error => {
+      process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+      process.exit(1);
+    }
+  );
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+}
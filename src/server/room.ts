@@ -0,0 +1,247 @@
+import { BalanceData } from '../game/balance';
+import { GameEngine } from '../game/engine';
+import { GameCommand } from '../game/commands';
+import { getFactionRoster } from '../game/factions';
+import { MapFile } from '../game/mapfile';
+import { PlayerConfig } from '../game/match';
+import {
+  NetworkDelta,
+  NetworkSnapshot,
+  ServerMessage,
+  ServerMessageType,
+  UnitCostTable,
+  createSnapshot,
+} from '../game/protocol';
+import { randomSeed } from '../game/random';
+import { FactionType, GameMode } from '../game/types';
+
+// Longest player name kept; anything after is cut off
+const MAX_NAME_LENGTH = 24;
+
+export interface RoomConfig {
+  mapSize: {
+    width: number;
+    height: number;
+  };
+  seed?: number; // Random when left out
+  mode: GameMode;
+  balance?: BalanceData; // The shipped balance data when left out
+  map?: MapFile; // Generated for the room's seats when left out; its size wins over mapSize
+  maxPlayers: number; // Human seats; AI players do not count
+  aiPlayers: PlayerConfig[]; // Computer opponents added when the room opens
+  snapshotRate: number; // Deltas sent per second
+}
+
+export const DEFAULT_ROOM_CONFIG: RoomConfig = {
+  mapSize: { width: 2700, height: 1800 },
+  mode: GameMode.ANNIHILATION,
+  maxPlayers: 6,
+  aiPlayers: [],
+  snapshotRate: 20,
+};
+
+// Anything the room can send messages to; the server wraps a WebSocket in one
+export interface RoomClient {
+  send(message: ServerMessage): void;
+  close(): void;
+}
+
+// One match hosted by the server; the engine here is the only source of truth
+// Each client is only sent what its player can see, so fog of war holds for anyone reading the socket
+export class Room {
+  public readonly id: string;
+  private config: RoomConfig;
+  private engine: GameEngine;
+  private clients: Map<RoomClient, string> = new Map(); // client -> player id
+  private lastSent: Map<RoomClient, Map<string, string>> = new Map(); // client -> entity key -> JSON last sent
+  private lastBroadcastTick: number = 0;
+
+  constructor(id: string, config: RoomConfig = DEFAULT_ROOM_CONFIG) {
+    this.id = id;
+    this.config = config;
+    const { width, height } = config.map ?? config.mapSize;
+    this.engine = new GameEngine(width, height, {
+      seed: config.seed ?? randomSeed(),
+      mode: config.mode,
+      balance: config.balance,
+      startCount: config.aiPlayers.length + config.maxPlayers,
+      map: config.map,
+    });
+    config.aiPlayers.forEach(player => {
+      this.engine.addPlayer(player.name, player.faction, player.aiDifficulty);
+    });
+  }
+
+  public getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  public getClientCount(): number {
+    return this.clients.size;
+  }
+
+  public isFull(): boolean {
+    return this.clients.size >= this.config.maxPlayers;
+  }
+
+  // Give a client a new player and send them the match so far
+  public join(client: RoomClient, name: string, faction: FactionType): string | null {
+    if (this.isFull()) return null;
+
+    const playerName = name.trim().slice(0, MAX_NAME_LENGTH) || `Player ${this.clients.size + 1}`;
+    const playerId = this.engine.addPlayer(playerName, faction);
+
+    // Bring everyone else up to date first so the whole room is on the same tick
+    this.broadcastDelta();
+    this.clients.set(client, playerId);
+
+    // The welcome snapshot is what this client's deltas are based on
+    const state = this.engine.getState();
+    const snapshot = this.createPlayerSnapshot(playerId);
+    const sent = new Map<string, string>();
+    this.diffSnapshot(snapshot, sent);
+    this.lastSent.set(client, sent);
+    client.send({
+      type: ServerMessageType.WELCOME,
+      roomId: this.id,
+      playerId,
+      tickRate: Math.round(1 / this.engine.getTickDuration()),
+      mapSize: state.mapSize,
+      terrain: state.terrain,
+      snapshot,
+      unitCosts: this.getUnitCosts(playerId),
+    });
+    return playerId;
+  }
+
+  // The player's units stay on the map after they disconnect
+  public leave(client: RoomClient): void {
+    this.clients.delete(client);
+    this.lastSent.delete(client);
+  }
+
+  // End the match: tell every client why and disconnect them
+  public close(reason: string): void {
+    this.clients.forEach((_, client) => {
+      client.send({ type: ServerMessageType.ERROR, message: reason });
+      client.close();
+    });
+    this.clients.clear();
+    this.lastSent.clear();
+  }
+
+  // Queue a command for the next tick, always on behalf of the sending client
+  public handleCommand(client: RoomClient, command: GameCommand): void {
+    const playerId = this.clients.get(client);
+    if (!playerId) return;
+
+    this.engine.submitCommand({
+      ...command,
+      playerId,
+      tick: this.engine.getState().tick + 1,
+    });
+  }
+
+  // Advance the match in real time and send deltas at the snapshot rate
+  public update(): void {
+    this.engine.update();
+
+    const tick = this.engine.getState().tick;
+    const ticksPerSnapshot = Math.max(1, Math.round(1 / this.engine.getTickDuration() / this.config.snapshotRate));
+    if (tick - this.lastBroadcastTick >= ticksPerSnapshot) {
+      this.broadcastDelta();
+    }
+  }
+
+  // Send every client what changed in its player's view since the last broadcast
+  public broadcastDelta(): void {
+    this.lastBroadcastTick = this.engine.getState().tick;
+    this.clients.forEach((playerId, client) => {
+      const sent = this.lastSent.get(client);
+      if (!sent) return;
+      client.send({
+        type: ServerMessageType.DELTA,
+        delta: this.diffSnapshot(this.createPlayerSnapshot(playerId), sent),
+        unitCosts: this.getUnitCosts(playerId),
+      });
+    });
+  }
+
+  // The match as one player may know it
+  private createPlayerSnapshot(playerId: string): NetworkSnapshot {
+    return createSnapshot(this.engine.getState(), this.engine.getVision(playerId));
+  }
+
+  // Collect every entity whose JSON differs from what was last sent to a client, and record it as sent
+  // Units that died or went out of sight since are listed as removed
+  private diffSnapshot(snapshot: NetworkSnapshot, sent: Map<string, string>): NetworkDelta {
+    const delta: NetworkDelta = {
+      tick: snapshot.tick,
+      gameTime: snapshot.gameTime,
+      players: [],
+      units: [],
+      removedUnitIds: [],
+      bases: [],
+      resources: [],
+      projectiles: snapshot.projectiles,
+      scores: snapshot.scores,
+      zones: snapshot.zones,
+      result: snapshot.result,
+    };
+
+    const hasChanged = (key: string, value: unknown): boolean => {
+      const json = JSON.stringify(value);
+      if (sent.get(key) === json) return false;
+      sent.set(key, json);
+      return true;
+    };
+
+    snapshot.players.forEach(player => {
+      if (hasChanged(`player:${player.id}`, player)) {
+        delta.players.push(player);
+      }
+    });
+
+    const unitIds = new Set(snapshot.units.map(unit => unit.id));
+    sent.forEach((_, key) => {
+      const unitId = key.startsWith('unit:') ? key.slice('unit:'.length) : null;
+      if (unitId !== null && !unitIds.has(unitId)) {
+        sent.delete(key);
+        delta.removedUnitIds.push(unitId);
+      }
+    });
+    snapshot.units.forEach(unit => {
+      if (hasChanged(`unit:${unit.id}`, unit)) {
+        delta.units.push(unit);
+      }
+    });
+
+    snapshot.bases.forEach(base => {
+      if (hasChanged(`base:${base.id}`, base)) {
+        delta.bases.push(base);
+      }
+    });
+
+    snapshot.resources.forEach(resource => {
+      if (hasChanged(`resource:${resource.id}`, resource)) {
+        delta.resources.push(resource);
+      }
+    });
+
+    return delta;
+  }
+
+  private getUnitCosts(playerId: string): UnitCostTable {
+    const player = this.engine.getState().players[playerId];
+    const costs: UnitCostTable = {};
+    if (!player) return costs;
+
+    getFactionRoster(player.faction).forEach(unitType => {
+      const cost = this.engine.getUnitCost(playerId, unitType);
+      if (cost) {
+        costs[unitType] = cost;
+      }
+    });
+    return costs;
+  }
+}
@@ -0,0 +1,160 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  ClientMessageType,
+  ProtocolError,
+  ServerMessage,
+  ServerMessageType,
+  parseClientMessage,
+} from '../game/protocol';
+import { DEFAULT_ROOM_CONFIG, Room, RoomClient, RoomConfig } from './room';
+
+// Rooms are stepped this often; the engine catches up on fixed ticks in between
+const UPDATE_INTERVAL_MS = 1000 / 60;
+
+export interface GameServerOptions {
+  port: number;
+  roomConfig?: RoomConfig;
+  log?: (message: string) => void;
+}
+
+// A connected browser or bot, and the room it sits in once joined
+class Connection implements RoomClient {
+  public room: Room | null = null;
+  private socket: WebSocket;
+
+  constructor(socket: WebSocket) {
+    this.socket = socket;
+  }
+
+  public send(message: ServerMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  public close(): void {
+    this.socket.close();
+  }
+}
+
+// Hosts any number of rooms over WebSocket; a room closes when its last client leaves
+export class GameServer {
+  private wss: WebSocketServer;
+  private rooms: Map<string, Room> = new Map();
+  private roomConfig: RoomConfig;
+  private log: (message: string) => void;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: GameServerOptions) {
+    this.roomConfig = options.roomConfig ?? DEFAULT_ROOM_CONFIG;
+    this.log = options.log ?? (() => {});
+    this.wss = new WebSocketServer({ port: options.port });
+    this.wss.on('connection', socket => this.handleConnection(socket));
+    this.setPaused(false);
+  }
+
+  // Resolves once the server accepts connections, rejects if the port cannot be used
+  public listening(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.wss.address()) {
+        resolve();
+        return;
+      }
+      this.wss.once('listening', () => resolve());
+      this.wss.once('error', reject);
+    });
+  }
+
+  // Stop or restart every room's simulation; connections stay open
+  public setPaused(paused: boolean): void {
+    if (paused && this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    } else if (!paused && this.timer === null) {
+      this.timer = setInterval(() => this.updateRooms(), UPDATE_INTERVAL_MS);
+    }
+  }
+
+  public getRoom(roomId: string): Room | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  public close(): Promise<void> {
+    this.setPaused(true);
+    this.wss.clients.forEach(socket => socket.terminate());
+    return new Promise(resolve => this.wss.close(() => resolve()));
+  }
+
+  // Step every room; a room whose match throws is closed on its own so the others keep running
+  private updateRooms(): void {
+    this.rooms.forEach(room => {
+      try {
+        room.update();
+      } catch (error) {
+        this.log(`Error updating room "${room.id}", closing it: ${error instanceof Error ? error.stack : error}`);
+        this.rooms.delete(room.id);
+        room.close('The match was ended by a server error');
+      }
+    });
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const connection = new Connection(socket);
+
+    socket.on('message', data => {
+      try {
+        this.handleMessage(connection, data.toString());
+      } catch (error) {
+        if (error instanceof ProtocolError) {
+          connection.send({ type: ServerMessageType.ERROR, message: error.message });
+          return;
+        }
+        // A bug in one room must not take the whole server down with every other room
+        const roomId = connection.room?.id ?? 'none';
+        this.log(`Error handling a message in room "${roomId}": ${error instanceof Error ? error.stack : error}`);
+        connection.send({ type: ServerMessageType.ERROR, message: 'Internal server error' });
+      }
+    });
+
+    socket.on('close', () => {
+      const room = connection.room;
+      if (!room) return;
+      room.leave(connection);
+      // A room closed after an error may already have been replaced by a new one with the same name
+      if (room.getClientCount() === 0 && this.rooms.get(room.id) === room) {
+        this.rooms.delete(room.id);
+        this.log(`Room "${room.id}" closed`);
+      }
+    });
+  }
+
+  private handleMessage(connection: Connection, json: string): void {
+    const message = parseClientMessage(json);
+
+    switch (message.type) {
+      case ClientMessageType.JOIN: {
+        if (connection.room) {
+          throw new ProtocolError('Already in a room');
+        }
+        let room = this.rooms.get(message.roomId);
+        if (!room) {
+          room = new Room(message.roomId, this.roomConfig);
+          this.rooms.set(room.id, room);
+          this.log(`Room "${room.id}" opened`);
+        }
+        if (!room.join(connection, message.name, message.faction)) {
+          throw new ProtocolError(`Room "${room.id}" is full`);
+        }
+        connection.room = room;
+        this.log(`${message.name} joined room "${room.id}" as ${message.faction}`);
+        break;
+      }
+      case ClientMessageType.COMMAND:
+        if (!connection.room) {
+          throw new ProtocolError('Join a room before sending commands');
+        }
+        connection.room.handleCommand(connection, message.command);
+        break;
+    }
+  }
+}